@@ -14,13 +14,31 @@ import {
   OrderLib,
   SignedOrder
 } from '@marketprotocol/types';
-import { CollateralEvent, MARKETProtocolConfig, OrderFilledEvent } from './types';
+import {
+  CollateralEvent,
+  GasEstimate,
+  MarketEventFilter,
+  MarketEventName,
+  MARKETProtocolConfig,
+  OnMarketEventCallback,
+  OrderCancellationResult,
+  OrderFilledEvent,
+  PnL,
+  Portfolio,
+  SettlementPayout,
+  SignatureScheme,
+  Signer,
+  TradeValidationReport,
+  TransactionSimulation
+} from './types';
 import { assert } from './assert';
 
 import {
   deployMarketCollateralPoolAsync,
   deployMarketContractOraclizeAsync,
-  getDeployedMarketContractAddressFromTxHash
+  getDeployedMarketContractAddressFromTxHash,
+  getDeployMarketCollateralPoolCall,
+  getDeployMarketContractOraclizeCall
 } from './lib/Deployment';
 
 import {
@@ -30,9 +48,16 @@ import {
   signOrderHashAsync
 } from './lib/Order';
 import { OrderTransactionInfo } from './lib/OrderTransactionInfo';
+import { OrderBuilder } from './order_builder/OrderBuilder';
+import { QuoteLadderGenerator } from './order_builder/QuoteLadderGenerator';
+import { OrderStateWatcher } from './order_watcher/OrderStateWatcher';
+import { EventIndexer } from './event_indexer/EventIndexer';
+import { PositionEngine } from './positions/PositionEngine';
+import { ScenarioAnalyzer } from './positions/ScenarioAnalyzer';
 import { MARKETProtocolArtifacts } from './MARKETProtocolArtifacts';
 import { OraclizeContractWrapper } from './contract_wrappers/OraclizeContractWrapper';
 import { OraclizeContractMetaData } from './types/ContractMetaData';
+import { TransactionManager } from './transaction_manager/TransactionManager';
 
 /**
  * The `Market` class is the single entry-point into the MARKET.js library.
@@ -50,9 +75,27 @@ export class Market {
   public marketContractFactory: MarketContractFactoryOraclize; // todo: create interface.
   public orderLib: OrderLib;
 
+  // transactions
+  // every transaction of the library is sent through it
+  public transactionManager: TransactionManager;
+
   // wrappers
   public marketContractWrapper: OraclizeContractWrapper;
 
+  // watchers
+  public orderStateWatcher: OrderStateWatcher;
+
+  // positions
+  public positionEngine: PositionEngine;
+  public scenarioAnalyzer: ScenarioAnalyzer;
+
+  // quoting
+  public quoteLadderGenerator: QuoteLadderGenerator;
+
+  // indexers
+  // fill and collateral history covered by this index is read from it instead of the chain
+  public eventIndexer?: EventIndexer;
+
   // Config
   public readonly config: MARKETProtocolConfig;
 
@@ -113,7 +156,12 @@ export class Market {
     this.orderLib = new OrderLib(this._web3, config.orderLibAddress);
     /* tslint:enable */
 
+    this.transactionManager = new TransactionManager(this._web3, config.transactionManagerConfig);
     this.marketContractWrapper = new OraclizeContractWrapper(this._web3, this);
+    this.orderStateWatcher = new OrderStateWatcher(this._web3, this, config.orderWatcherConfig);
+    this.positionEngine = new PositionEngine(this);
+    this.scenarioAnalyzer = new ScenarioAnalyzer(this);
+    this.quoteLadderGenerator = new QuoteLadderGenerator(this);
   }
   // endregion//Constructors
 
@@ -130,6 +178,7 @@ export class Market {
    * @returns {void}
    */
   public setProvider(provider: Provider): void {
+    this.marketContractWrapper.unsubscribeAll();
     this._web3.setProvider(provider);
   }
 
@@ -141,6 +190,40 @@ export class Market {
     return this._web3.currentProvider;
   }
 
+  // EVENT METHODS
+
+  /**
+   * Subscribes to new OrderFilled, OrderCancelled, Error, UpdatedUserBalance or ContractSettled
+   * events of a MarketContract.
+   * @param {string} marketContractAddress            Address of the MarketContract
+   * @param {MarketEventName} eventName               Name of the event
+   * @param {MarketEventFilter} filter                Indexed argument values the events must match
+   * @param {OnMarketEventCallback} callback          Called with every matching event
+   * @returns {Promise<string>}                       Token to pass to `unsubscribe`
+   */
+  public async subscribeAsync(
+    marketContractAddress: string,
+    eventName: MarketEventName,
+    filter: MarketEventFilter,
+    callback: OnMarketEventCallback
+  ): Promise<string> {
+    return this.marketContractWrapper.subscribeAsync(
+      marketContractAddress,
+      eventName,
+      filter,
+      callback
+    );
+  }
+
+  /**
+   * Cancels a subscription.
+   * @param {string} token                            Token returned by `subscribeAsync`
+   * @returns {void}
+   */
+  public unsubscribe(token: string): void {
+    this.marketContractWrapper.unsubscribe(token);
+  }
+
   // COLLATERAL METHODS
 
   /**
@@ -162,6 +245,50 @@ export class Market {
     );
   }
 
+  /**
+   * Estimates the gas and the fee in wei of the transaction of depositCollateralAsync. Rejects when
+   * the transaction would revert.
+   * @param {string} marketContractAddress            Address of the MarketContract
+   * @param {BigNumber | number} depositAmount        Amount of ERC20 collateral to deposit
+   * @param {ITxParams} txParams                      Transaction parameters
+   * @returns {Promise<GasEstimate>}
+   */
+  public async estimateDepositCollateralAsync(
+    marketContractAddress: string,
+    depositAmount: BigNumber | number,
+    txParams: ITxParams = {}
+  ): Promise<GasEstimate> {
+    return this.transactionManager.estimateTransactionAsync(
+      txParams,
+      await this.marketContractWrapper.getDepositCollateralCallAsync(
+        marketContractAddress,
+        depositAmount
+      )
+    );
+  }
+
+  /**
+   * Runs the transaction of depositCollateralAsync with eth_call, without sending it, to tell
+   * whether it would revert and why. Its gas and fee in wei are estimated when it would not.
+   * @param {string} marketContractAddress            Address of the MarketContract
+   * @param {BigNumber | number} depositAmount        Amount of ERC20 collateral to deposit
+   * @param {ITxParams} txParams                      Transaction parameters
+   * @returns {Promise<TransactionSimulation>}
+   */
+  public async simulateDepositCollateralAsync(
+    marketContractAddress: string,
+    depositAmount: BigNumber | number,
+    txParams: ITxParams = {}
+  ): Promise<TransactionSimulation> {
+    return this.transactionManager.simulateTransactionAsync(
+      txParams,
+      await this.marketContractWrapper.getDepositCollateralCallAsync(
+        marketContractAddress,
+        depositAmount
+      )
+    );
+  }
+
   /**
    * Gets the user's currently unallocated token balance
    * @param {string} marketContractAddress            Address of the MarketContract
@@ -191,6 +318,60 @@ export class Market {
     return this.marketContractWrapper.settleAndCloseAsync(marketContractAddress, txParams);
   }
 
+  /**
+   * Estimates the gas and the fee in wei of the transaction of settleAndCloseAsync. Rejects when
+   * the transaction would revert.
+   * @param {string} marketContractAddress            Address of the MarketContract
+   * @param {ITxParams} txParams                      Transaction parameters
+   * @returns {Promise<GasEstimate>}
+   */
+  public async estimateSettleAndCloseAsync(
+    marketContractAddress: string,
+    txParams: ITxParams = {}
+  ): Promise<GasEstimate> {
+    return this.transactionManager.estimateTransactionAsync(
+      txParams,
+      await this.marketContractWrapper.getSettleAndCloseCallAsync(marketContractAddress)
+    );
+  }
+
+  /**
+   * Runs the transaction of settleAndCloseAsync with eth_call, without sending it, to tell whether
+   * it would revert and why. Its gas and fee in wei are estimated when it would not.
+   * @param {string} marketContractAddress            Address of the MarketContract
+   * @param {ITxParams} txParams                      Transaction parameters
+   * @returns {Promise<TransactionSimulation>}
+   */
+  public async simulateSettleAndCloseAsync(
+    marketContractAddress: string,
+    txParams: ITxParams = {}
+  ): Promise<TransactionSimulation> {
+    return this.transactionManager.simulateTransactionAsync(
+      txParams,
+      await this.marketContractWrapper.getSettleAndCloseCallAsync(marketContractAddress)
+    );
+  }
+
+  /**
+   * Estimates what a user gets back from settleAndCloseAsync at the settlement price of the
+   * contract, or at a hypothetical price clamped to the price floor and cap
+   * @param {string} marketContractAddress       address of the MarketContract
+   * @param {string} userAddress                 address of user
+   * @param {BigNumber} price                    hypothetical settlement price, required until the contract settled
+   * @returns {Promise<SettlementPayout>}        user's unallocated balance and released collateral
+   */
+  public async estimateSettlementPayoutAsync(
+    marketContractAddress: string,
+    userAddress: string,
+    price?: BigNumber
+  ): Promise<SettlementPayout> {
+    return this.positionEngine.estimateSettlementPayoutAsync(
+      marketContractAddress,
+      userAddress,
+      price
+    );
+  }
+
   /**
    * Withdraws collateral from a traders account back to their own address.
    * @param {string} marketContractAddress            Address of the MarketContract
@@ -211,11 +392,55 @@ export class Market {
   }
 
   /**
-   * Gets the history of deposits and withdrawals for a given collateral pool address.
+   * Estimates the gas and the fee in wei of the transaction of withdrawCollateralAsync. Rejects
+   * when the transaction would revert.
+   * @param {string} marketContractAddress            Address of the MarketContract
+   * @param {BigNumber | number} withdrawAmount       Amount of ERC20 collateral to withdraw
+   * @param {ITxParams} txParams                      Transaction parameters
+   * @returns {Promise<GasEstimate>}
+   */
+  public async estimateWithdrawCollateralAsync(
+    marketContractAddress: string,
+    withdrawAmount: BigNumber | number,
+    txParams: ITxParams = {}
+  ): Promise<GasEstimate> {
+    return this.transactionManager.estimateTransactionAsync(
+      txParams,
+      await this.marketContractWrapper.getWithdrawCollateralCallAsync(
+        marketContractAddress,
+        withdrawAmount
+      )
+    );
+  }
+
+  /**
+   * Runs the transaction of withdrawCollateralAsync with eth_call, without sending it, to tell
+   * whether it would revert and why. Its gas and fee in wei are estimated when it would not.
+   * @param {string} marketContractAddress            Address of the MarketContract
+   * @param {BigNumber | number} withdrawAmount       Amount of ERC20 collateral to withdraw
+   * @param {ITxParams} txParams                      Transaction parameters
+   * @returns {Promise<TransactionSimulation>}
+   */
+  public async simulateWithdrawCollateralAsync(
+    marketContractAddress: string,
+    withdrawAmount: BigNumber | number,
+    txParams: ITxParams = {}
+  ): Promise<TransactionSimulation> {
+    return this.transactionManager.simulateTransactionAsync(
+      txParams,
+      await this.marketContractWrapper.getWithdrawCollateralCallAsync(
+        marketContractAddress,
+        withdrawAmount
+      )
+    );
+  }
+
+  /**
+   * Gets the history of collateral balance updates for a given collateral pool address.
    * @param {string} marketContractAddress            Address of the MarketContract
    * @param {string | number} fromBlock               from block #
    * @param {string | number} toBlock                 to block #
-   * @param {string} userAddress                      only search for deposits/withdrawals to/from a specified address
+   * @param {string} userAddress                      only search for balance updates of a specified address
    * @returns {Promise<CollateralEvent[]>}
    */
   public async getCollateralEventsAsync(
@@ -232,6 +457,29 @@ export class Market {
     );
   }
 
+  /**
+   * Pages through the history of collateral balance updates for a given collateral pool address,
+   * one block range chunk at a time.
+   * @param {string} marketContractAddress            Address of the MarketContract
+   * @param {string | number} fromBlock               from block #
+   * @param {string | number} toBlock                 to block #
+   * @param {string} userAddress                      only search for balance updates of a specified address
+   * @returns {AsyncIterableIterator<CollateralEvent[]>}
+   */
+  public iterateCollateralEvents(
+    marketContractAddress: string,
+    fromBlock: number | string = '0x0',
+    toBlock: number | string = 'latest',
+    userAddress: string | null = null
+  ): AsyncIterableIterator<CollateralEvent[]> {
+    return this.marketContractWrapper.iterateCollateralEvents(
+      marketContractAddress,
+      fromBlock,
+      toBlock,
+      userAddress
+    );
+  }
+
   /**
    * Gets the number of positions currently held by this userAddress
    * @param {string} marketContractAddress       address of the MarketContract
@@ -299,6 +547,30 @@ export class Market {
     );
   }
 
+  /**
+   * Gets the realized and unrealized PnL of a user, or the final PnL once the contract settled
+   * @param {string} marketContractAddress       address of the MarketContract
+   * @param {string} userAddress                 address of user
+   * @returns {Promise<PnL>}                     user's PnL in the contract
+   */
+  public async getPnLAsync(marketContractAddress: string, userAddress: string): Promise<PnL> {
+    return this.positionEngine.getPnLAsync(marketContractAddress, userAddress);
+  }
+
+  /**
+   * Gets the collateral, positions and PnL of a user across contracts
+   * @param {string} userAddress                 address of user
+   * @param {string[]} marketContractAddresses   addresses of the MarketContracts, defaults to every
+   *                                             whitelisted contract
+   * @returns {Promise<Portfolio>}               user's holdings per contract and per collateral token
+   */
+  public async getPortfolioAsync(
+    userAddress: string,
+    marketContractAddresses?: string[]
+  ): Promise<Portfolio> {
+    return this.positionEngine.getPortfolioAsync(userAddress, marketContractAddresses);
+  }
+
   // CONTRACT METHODS
 
   /**
@@ -404,6 +676,32 @@ export class Market {
     );
   }
 
+  /**
+   * Pages through the history of contract fills for maker, taker or both sides of the trade, one
+   * block range chunk at a time.
+   * @param {string} marketContractAddress       address of the MarketContract
+   * @param {string} fromBlock                   from block #
+   * @param {string} toBlock                     to block #
+   * @param {string} userAddress                 only search for fills for a specified address
+   * @param {string} side                        order side: maker | taker | any
+   * @returns {AsyncIterableIterator<OrderFilledEvent[]>}
+   */
+  public iterateContractFills(
+    marketContractAddress: string,
+    fromBlock: number | string = '0x0',
+    toBlock: number | string = 'latest',
+    userAddress: string | null = null,
+    side: 'maker' | 'taker' | 'any' = 'any'
+  ): AsyncIterableIterator<OrderFilledEvent[]> {
+    return this.marketContractWrapper.iterateContractFills(
+      marketContractAddress,
+      fromBlock,
+      toBlock,
+      userAddress,
+      side
+    );
+  }
+
   /**
    * Retrieves an owner's ERC20 token balance.
    *
@@ -428,11 +726,47 @@ export class Market {
     marketContractAddress: string,
     txParams: ITxParams = {}
   ): Promise<string> {
-    return deployMarketCollateralPoolAsync(
-      this._web3.currentProvider,
-      this.marketCollateralPoolFactory,
-      marketContractAddress,
-      txParams
+    return this.transactionManager.sendTransactionAsync(txParams, managedTxParams =>
+      deployMarketCollateralPoolAsync(
+        this._web3.currentProvider,
+        this.marketCollateralPoolFactory,
+        marketContractAddress,
+        managedTxParams
+      )
+    );
+  }
+
+  /**
+   * Estimates the gas and the fee in wei of the transaction of deployMarketCollateralPoolAsync.
+   * Rejects when the transaction would revert.
+   * @param {string} marketContractAddress
+   * @param {ITxParams} txParams
+   * @returns {Promise<GasEstimate>}
+   */
+  public async estimateDeployMarketCollateralPoolAsync(
+    marketContractAddress: string,
+    txParams: ITxParams = {}
+  ): Promise<GasEstimate> {
+    return this.transactionManager.estimateTransactionAsync(
+      txParams,
+      getDeployMarketCollateralPoolCall(this.marketCollateralPoolFactory, marketContractAddress)
+    );
+  }
+
+  /**
+   * Runs the transaction of deployMarketCollateralPoolAsync with eth_call, without sending it, to
+   * tell whether it would revert and why. Its gas and fee in wei are estimated when it would not.
+   * @param {string} marketContractAddress
+   * @param {ITxParams} txParams
+   * @returns {Promise<TransactionSimulation>}
+   */
+  public async simulateDeployMarketCollateralPoolAsync(
+    marketContractAddress: string,
+    txParams: ITxParams = {}
+  ): Promise<TransactionSimulation> {
+    return this.transactionManager.simulateTransactionAsync(
+      txParams,
+      getDeployMarketCollateralPoolCall(this.marketCollateralPoolFactory, marketContractAddress)
     );
   }
 
@@ -455,14 +789,80 @@ export class Market {
     oracleQuery: string,
     txParams: ITxParams = {}
   ): Promise<string> {
-    return deployMarketContractOraclizeAsync(
-      this.marketContractFactory,
-      contractName,
-      collateralTokenAddress,
-      contractSpecs,
-      oracleDataSource,
-      oracleQuery,
-      txParams
+    return this.transactionManager.sendTransactionAsync(txParams, managedTxParams =>
+      deployMarketContractOraclizeAsync(
+        this.marketContractFactory,
+        contractName,
+        collateralTokenAddress,
+        contractSpecs,
+        oracleDataSource,
+        oracleQuery,
+        managedTxParams
+      )
+    );
+  }
+
+  /**
+   * Estimates the gas and the fee in wei of the transaction of deployMarketContractOraclizeAsync.
+   * Rejects when the transaction would revert.
+   * @param {string} contractName
+   * @param {string} collateralTokenAddress
+   * @param {BigNumber[]} contractSpecs
+   * @param {string} oracleDataSource
+   * @param {string} oracleQuery
+   * @param {ITxParams} txParams
+   * @returns {Promise<GasEstimate>}
+   */
+  public async estimateDeployMarketContractOraclizeAsync(
+    contractName: string,
+    collateralTokenAddress: string,
+    contractSpecs: BigNumber[],
+    oracleDataSource: string,
+    oracleQuery: string,
+    txParams: ITxParams = {}
+  ): Promise<GasEstimate> {
+    return this.transactionManager.estimateTransactionAsync(
+      txParams,
+      getDeployMarketContractOraclizeCall(
+        this.marketContractFactory,
+        contractName,
+        collateralTokenAddress,
+        contractSpecs,
+        oracleDataSource,
+        oracleQuery
+      )
+    );
+  }
+
+  /**
+   * Runs the transaction of deployMarketContractOraclizeAsync with eth_call, without sending it, to
+   * tell whether it would revert and why. Its gas and fee in wei are estimated when it would not.
+   * @param {string} contractName
+   * @param {string} collateralTokenAddress
+   * @param {BigNumber[]} contractSpecs
+   * @param {string} oracleDataSource
+   * @param {string} oracleQuery
+   * @param {ITxParams} txParams
+   * @returns {Promise<TransactionSimulation>}
+   */
+  public async simulateDeployMarketContractOraclizeAsync(
+    contractName: string,
+    collateralTokenAddress: string,
+    contractSpecs: BigNumber[],
+    oracleDataSource: string,
+    oracleQuery: string,
+    txParams: ITxParams = {}
+  ): Promise<TransactionSimulation> {
+    return this.transactionManager.simulateTransactionAsync(
+      txParams,
+      getDeployMarketContractOraclizeCall(
+        this.marketContractFactory,
+        contractName,
+        collateralTokenAddress,
+        contractSpecs,
+        oracleDataSource,
+        oracleQuery
+      )
     );
   }
 
@@ -494,11 +894,12 @@ export class Market {
    * @return {Promise<string>}             The resulting orderHash from hashing the supplied order.
    */
   public async createOrderHashAsync(order: Order | SignedOrder): Promise<string> {
-    return createOrderHashAsync(this.orderLib, order);
+    return createOrderHashAsync(this._getOrderLibForHashing(), order);
   }
 
   /**
-   * Confirms a signed order is validly signed
+   * Confirms a signed order is validly signed. EIP712 signatures are recovered against the
+   * configured network.
    * @param signedOrder
    * @param orderHash
    * @return boolean if order hash and signature resolve to maker address (signer)
@@ -507,14 +908,20 @@ export class Market {
     signedOrder: SignedOrder,
     orderHash: string
   ): Promise<boolean> {
-    return isValidSignatureAsync(this.orderLib, signedOrder, orderHash);
+    return isValidSignatureAsync(
+      this._getOrderLibForHashing(),
+      signedOrder,
+      orderHash,
+      this.config.networkId
+    );
   }
 
   /**
    * Signs an orderHash and returns it's elliptic curve signature.
    * @param {string} orderHash       Hex encoded orderHash to sign.
    * @param {string} signerAddress   The hex encoded Ethereum address you wish to sign it with. This address
-   *                                 must be available via the Provider supplied to MARKET.js.
+   *                                 must be available via the Provider supplied to MARKET.js, or be the
+   *                                 address of the configured signer.
    * @param {boolean}                shouldAddPersonalMessagePrefix  Some signers add the personal message prefix
    * `\x19Ethereum Signed Message`themselves (e.g Parity Signer, Ledger, TestRPC) and others expect
    * it to already be done by the client (e.g Metamask). Depending on which signer this request is
@@ -529,7 +936,7 @@ export class Market {
     shouldAddPersonalMessagePrefix: boolean
   ): Promise<ECSignature> {
     return signOrderHashAsync(
-      this._web3.currentProvider,
+      this._getSigner(),
       orderHash,
       signerAddress,
       shouldAddPersonalMessagePrefix
@@ -551,7 +958,10 @@ export class Market {
    * @param {boolean}  shouldAddPersonalMessagePrefix  Some signers add the personal message prefix
    * `\x19Ethereum Signed Message`themselves (e.g Parity Signer, Ledger, TestRPC) and others expect
    * it to already be done by the client (e.g Metamask). Depending on which signer this request is
-   * going to, decide on whether to add the prefix before sending the request.
+   * going to, decide on whether to add the prefix before sending the request. Ignored for EIP712.
+   * @param {SignatureScheme} signatureScheme  scheme to sign the order with. EIP712 signed orders
+   *                                           are bound to the configured network but can only be
+   *                                           verified off-chain, MarketContract can't trade them.
    * @return {Promise<SignedOrder>}
    */
   public async createSignedOrderAsync(
@@ -565,11 +975,12 @@ export class Market {
     orderQty: BigNumber,
     price: BigNumber,
     salt: BigNumber,
-    shouldAddPersonalMessagePrefix: boolean
+    shouldAddPersonalMessagePrefix: boolean,
+    signatureScheme: SignatureScheme = SignatureScheme.EthSign
   ): Promise<SignedOrder> {
     return createSignedOrderAsync(
-      this._web3.currentProvider,
-      this.orderLib,
+      this._getSigner(),
+      this._getOrderLibForHashing(),
       contractAddress,
       expirationTimestamp,
       feeRecipient,
@@ -580,13 +991,26 @@ export class Market {
       orderQty,
       price,
       salt,
-      shouldAddPersonalMessagePrefix
+      shouldAddPersonalMessagePrefix,
+      signatureScheme,
+      this.config.networkId
     );
   }
 
+  /**
+   * Creates a builder for orders of a MarketContract that takes human prices and scales them to
+   * contract units.
+   * @param {string} marketContractAddress   address of the MarketContract
+   * @return {OrderBuilder}
+   */
+  public createOrderBuilder(marketContractAddress: string): OrderBuilder {
+    return new OrderBuilder(this, marketContractAddress);
+  }
+
   /**
    * Trades an order and returns success or error.
-   * The returned OrderTransactionInfo can be used to get the actual filled quantity
+   * The returned OrderTransactionInfo can be used to get the actual filled quantity, and to follow
+   * the transaction until it is mined and confirmed.
    *
    * @param {SignedOrder} signedOrder        An object that conforms to the SignedOrder interface. The
    *                                         signedOrder you wish to validate.
@@ -600,13 +1024,120 @@ export class Market {
     txParams: ITxParams = {}
   ): Promise<OrderTransactionInfo> {
     return this.marketContractWrapper.tradeOrderAsync(
-      this.orderLib,
+      this._getOrderLibForHashing(),
       signedOrder,
       fillQty,
       txParams
     );
   }
 
+  /**
+   * Estimates the gas and the fee in wei of the transaction of tradeOrderAsync. Rejects when the
+   * transaction would revert. The order is not validated, see validateTradeAsync.
+   * @param {SignedOrder} signedOrder        The signedOrder you wish to fill.
+   * @param {BigNumber} fillQty              The amount of the order that you wish to fill.
+   * @param {ITxParams} txParams             Transaction params of web3.
+   * @returns {Promise<GasEstimate>}
+   */
+  public async estimateTradeOrderAsync(
+    signedOrder: SignedOrder,
+    fillQty: BigNumber,
+    txParams: ITxParams = {}
+  ): Promise<GasEstimate> {
+    return this.transactionManager.estimateTransactionAsync(
+      txParams,
+      await this.marketContractWrapper.getTradeOrderCallAsync(signedOrder, fillQty)
+    );
+  }
+
+  /**
+   * Runs the transaction of tradeOrderAsync with eth_call, without sending it, to tell whether it
+   * would revert and why. Its gas and fee in wei are estimated when it would not.
+   * Trades of expired or dead orders don't revert, the MarketContract emits an Error event for
+   * them instead: validateTradeAsync catches those and the other failures of the order.
+   * @param {SignedOrder} signedOrder        The signedOrder you wish to fill.
+   * @param {BigNumber} fillQty              The amount of the order that you wish to fill.
+   * @param {ITxParams} txParams             Transaction params of web3.
+   * @returns {Promise<TransactionSimulation>}
+   */
+  public async simulateTradeOrderAsync(
+    signedOrder: SignedOrder,
+    fillQty: BigNumber,
+    txParams: ITxParams = {}
+  ): Promise<TransactionSimulation> {
+    return this.transactionManager.simulateTransactionAsync(
+      txParams,
+      await this.marketContractWrapper.getTradeOrderCallAsync(signedOrder, fillQty)
+    );
+  }
+
+  /**
+   * Trades multiple orders, submitting one transaction per order once the combined collateral
+   * and fee needs of the whole batch have been checked.
+   *
+   * @param {SignedOrder[]} signedOrders       The signed orders you wish to fill.
+   * @param {BigNumber[]} fillQtys             The amount of each order that you wish to fill.
+   * @param {ITxParams} txParams               Transaction params of web3.
+   * @return {Promise<OrderTransactionInfo[]>} The information about each order transaction
+   */
+  public async batchTradeOrdersAsync(
+    signedOrders: SignedOrder[],
+    fillQtys: BigNumber[],
+    txParams: ITxParams = {}
+  ): Promise<OrderTransactionInfo[]> {
+    return this.marketContractWrapper.batchTradeOrdersAsync(
+      this._getOrderLibForHashing(),
+      signedOrders,
+      fillQtys,
+      txParams
+    );
+  }
+
+  /**
+   * Fills the given orders from best to worst price until the total qty is filled, or until
+   * no fillable order is left.
+   *
+   * @param {SignedOrder[]} signedOrders       The signed orders that can be filled, all on one side.
+   * @param {BigNumber} totalQty               The total qty you wish to fill (+ buy orders / - sell orders).
+   * @param {ITxParams} txParams               Transaction params of web3.
+   * @return {Promise<OrderTransactionInfo[]>} The information about each order transaction
+   */
+  public async marketFillOrdersAsync(
+    signedOrders: SignedOrder[],
+    totalQty: BigNumber,
+    txParams: ITxParams = {}
+  ): Promise<OrderTransactionInfo[]> {
+    return this.marketContractWrapper.marketFillOrdersAsync(
+      this._getOrderLibForHashing(),
+      signedOrders,
+      totalQty,
+      txParams
+    );
+  }
+
+  /**
+   * Runs every pre-trade check of `tradeOrderAsync` and returns a report listing all the failing
+   * conditions, with the actual and required amounts, instead of rejecting on the first one.
+   *
+   * @param {SignedOrder} signedOrder         An object that conforms to the SignedOrder interface. The
+   *                                          signedOrder you wish to validate.
+   * @param {BigNumber} fillQty               The amount of the order that you wish to fill.
+   * @param {string} taker                    Address of the account that would fill the order.
+   * @return {Promise<TradeValidationReport>} Report of all the failing conditions.
+   */
+  public async validateTradeAsync(
+    signedOrder: SignedOrder,
+    fillQty: BigNumber,
+    taker: string
+  ): Promise<TradeValidationReport> {
+    return this.marketContractWrapper.validateTradeAsync(
+      this._getOrderLibForHashing(),
+      signedOrder,
+      fillQty,
+      taker
+    );
+  }
+
   /**
    * Returns the qty that is no longer available to trade for a given order/
    * @param {string} orderHash                Hash of order to find filled and cancelled qty.
@@ -640,6 +1171,86 @@ export class Market {
     return this.marketContractWrapper.cancelOrderAsync(order, cancelQty, txParams);
   }
 
+  /**
+   * Estimates the gas and the fee in wei of the transaction of cancelOrderAsync. Rejects when the
+   * transaction would revert.
+   * @param {Order} order                     Order object.
+   * @param {BigNumber} cancelQty             The amount of the order that you wish to cancel.
+   * @param {ITxParams} txParams              Transaction params of web3.
+   * @returns {Promise<GasEstimate>}
+   */
+  public async estimateCancelOrderAsync(
+    order: Order,
+    cancelQty: BigNumber,
+    txParams: ITxParams = {}
+  ): Promise<GasEstimate> {
+    return this.transactionManager.estimateTransactionAsync(
+      txParams,
+      await this.marketContractWrapper.getCancelOrderCallAsync(order, cancelQty)
+    );
+  }
+
+  /**
+   * Runs the transaction of cancelOrderAsync with eth_call, without sending it, to tell whether it
+   * would revert and why. Its gas and fee in wei are estimated when it would not.
+   * @param {Order} order                     Order object.
+   * @param {BigNumber} cancelQty             The amount of the order that you wish to cancel.
+   * @param {ITxParams} txParams              Transaction params of web3.
+   * @returns {Promise<TransactionSimulation>}
+   */
+  public async simulateCancelOrderAsync(
+    order: Order,
+    cancelQty: BigNumber,
+    txParams: ITxParams = {}
+  ): Promise<TransactionSimulation> {
+    return this.transactionManager.simulateTransactionAsync(
+      txParams,
+      await this.marketContractWrapper.getCancelOrderCallAsync(order, cancelQty)
+    );
+  }
+
+  /**
+   * Cancels multiple orders in the given quantities.
+   * The returned OrderTransactionInfos can be used to get the actual cancelled quantities
+   *
+   * @param {Order[]} orders                   Order objects.
+   * @param {BigNumber[]} cancelQtys           The amount of each order that you wish to cancel.
+   * @param {ITxParams} txParams               Transaction params of web3.
+   * @return {Promise<OrderTransactionInfo[]>} The information about each Order Transaction.
+   */
+  public async batchCancelOrdersAsync(
+    orders: Order[],
+    cancelQtys: BigNumber[],
+    txParams: ITxParams = {}
+  ): Promise<OrderTransactionInfo[]> {
+    return this.marketContractWrapper.batchCancelOrdersAsync(orders, cancelQtys, txParams);
+  }
+
+  /**
+   * Cancels the remaining quantity of every outstanding order the sender has made on a
+   * MarketContract, and reports the orders that were already filled, cancelled or expired.
+   * Orders are found from the maker's fill and cancel history, orders that were never filled nor
+   * cancelled must be passed in `knownOrders`.
+   * MarketContract can't cancel every order up to a salt, so each order is cancelled on its own.
+   *
+   * @param {string} marketContractAddress        Address of the MarketContract
+   * @param {ITxParams} txParams                  Transaction params of web3, `from` must be the maker.
+   * @param {Order[]} knownOrders                 Orders of the maker that may not be on chain yet.
+   * @return {Promise<OrderCancellationResult[]>} The result for each order.
+   */
+  public async cancelAllOrdersAsync(
+    marketContractAddress: string,
+    txParams: ITxParams = {},
+    knownOrders: Order[] = []
+  ): Promise<OrderCancellationResult[]> {
+    return this.marketContractWrapper.cancelAllOrdersAsync(
+      this._getOrderLibForHashing(),
+      marketContractAddress,
+      txParams,
+      knownOrders
+    );
+  }
+
   /**
    * Calculates the required collateral amount in base units of a token.  This amount represents
    * a trader's maximum loss and therefore the amount of collateral that becomes locked into
@@ -692,5 +1303,24 @@ export class Market {
 
     return config;
   }
+
+  /**
+   * Returns the OrderLib used to hash orders and verify signatures, or null when the config asks
+   * for this to be done off-chain.
+   * @returns {OrderLib | null}
+   * @private
+   */
+  private _getOrderLibForHashing(): OrderLib | null {
+    return this.config.useOffChainOrderHashing ? null : this.orderLib;
+  }
+
+  /**
+   * Returns the Signer orders are signed with, or the provider when the config has none.
+   * @returns {Provider | Signer}
+   * @private
+   */
+  private _getSigner(): Provider | Signer {
+    return this.config.signer || this._web3.currentProvider;
+  }
   // endregion //Private Methods
 }
@@ -6,7 +6,11 @@ export const constants = {
   NETWORK_ID_TRUFFLE: 4447,
   PROVIDER_URL_TRUFFLE: 'http://localhost:9545',
   PROVIDER_URL_RINKEBY: 'https://rinkeby.infura.io/cbHh1p8RT4Q6E97F4gVi',
-  NULL_ADDRESS: '0x0000000000000000000000000000000000000000'
+  NULL_ADDRESS: '0x0000000000000000000000000000000000000000',
+  EIP712_DOMAIN_NAME: 'MARKET Protocol',
+  EIP712_DOMAIN_VERSION: '1',
+  ORDER_SERIALIZATION_VERSION: '1',
+  REVERT_REASON_SELECTOR: '0x08c379a0'
 };
 
 export const configTruffle = {
@@ -10,22 +10,43 @@ import {
   MarketContract,
   Order,
   OrderLib,
+  promisify,
   SignedOrder
 } from '@marketprotocol/types';
 
 import { Transaction } from '@0xproject/types';
-import { CollateralEvent, MarketError, OrderFilledEvent } from '../types';
+import {
+  CollateralEvent,
+  CollateralEventType,
+  ContractCall,
+  IndexedEventName,
+  MarketError,
+  MarketEventFilter,
+  MarketEventName,
+  OnMarketEventCallback,
+  OrderCancellationResult,
+  OrderCancellationStatus,
+  OrderFilledEvent,
+  SignatureScheme,
+  TradeValidationFailure,
+  TradeValidationReport
+} from '../types';
 import { assert } from '../assert';
 
 import { Utils } from '../lib/Utils';
 import { constants } from '../constants';
-import { createOrderHashAsync, isValidSignatureAsync } from '../lib/Order';
+import { createOrderHashAsync, isValidSignatureAsync, serializeOrder } from '../lib/Order';
 import { OrderTransactionInfo } from '../lib/OrderTransactionInfo';
+import { OrderFilledCancelledLazyStore } from '../OrderFilledCancelledLazyStore';
 import { ContractSet } from './ContractSet';
+import { schemas } from '../schemas';
 import { Market } from '../Market';
 
 const Decoder = require('ethereum-input-data-decoder');
 
+const DEFAULT_BLOCK_RANGE_CHUNK_SIZE = 5000;
+const DEFAULT_TX_LOOKUP_CONCURRENCY = 10;
+
 /**
  * Wrapper for all of our Contract objects.  This wrapper exposes all needed functionality of the
  * contracts and stores the created objects in a mapping for easy reuse.
@@ -50,6 +71,15 @@ export class ContractWrapper {
   };
 
   protected readonly _market: Market;
+
+  private _subscriptionByToken: {
+    [token: string]: {
+      key: string;
+      callback: OnMarketEventCallback;
+      stopWatcher: () => Promise<void>;
+    };
+  } = {};
+  private _nextSubscriptionId: number = 0;
   // endregion // members
   // region Constructors
   // *****************************************************************
@@ -85,21 +115,147 @@ export class ContractWrapper {
     const contractSetWrapper: ContractSet = await this._getContractSetByMarketContractAddressAsync(
       order.contractAddress
     );
-    const txHash: string = await contractSetWrapper.marketContract
-      .cancelOrderTx(
-        [order.maker, order.taker, order.feeRecipient],
-        [order.makerFee, order.takerFee, order.price, order.expirationTimestamp, order.salt],
-        order.orderQty,
-        cancelQty
-      )
-      .send(txParams);
+    const txHash: string = await this._market.transactionManager.sendTransactionAsync(
+      txParams,
+      managedTxParams =>
+        this._getCancelOrderTx(contractSetWrapper, order, cancelQty).send(managedTxParams)
+    );
+
+    return new OrderTransactionInfo(this._web3, contractSetWrapper.marketContract, order, txHash);
+  }
+
+  /**
+   * Gets the contract call cancelOrderAsync sends, to estimate or simulate it.
+   * @param {Order} order                 The order you wish to cancel.
+   * @param {BigNumber} cancelQty         The amount of the order that you wish to cancel.
+   * @returns {Promise<ContractCall>}
+   */
+  public async getCancelOrderCallAsync(order: Order, cancelQty: BigNumber): Promise<ContractCall> {
+    const contractSetWrapper: ContractSet = await this._getContractSetByMarketContractAddressAsync(
+      order.contractAddress
+    );
+    return {
+      to: contractSetWrapper.marketContract.address,
+      data: this._getCancelOrderTx(contractSetWrapper, order, cancelQty).getData()
+    };
+  }
+
+  /**
+   * Cancels multiple orders, one transaction per order.
+   * @param {Order[]} orders                    Orders you wish to cancel.
+   * @param {BigNumber[]} cancelQtys            The amount of each order that you wish to cancel.
+   * @param {ITxParams} txParams                Transaction params of web3.
+   * @return {Promise<OrderTransactionInfo[]>}  Information about each order transaction.
+   */
+  public async batchCancelOrdersAsync(
+    orders: Order[],
+    cancelQtys: BigNumber[],
+    txParams: ITxParams = {}
+  ): Promise<OrderTransactionInfo[]> {
+    assert.assert(
+      orders.length === cancelQtys.length,
+      `Expected as many cancel qtys as orders, found ${cancelQtys.length} for ${orders.length}`
+    );
+
+    const orderTransactionInfos: OrderTransactionInfo[] = [];
+    for (let i = 0; i < orders.length; i++) {
+      orderTransactionInfos.push(await this.cancelOrderAsync(orders[i], cancelQtys[i], txParams));
+    }
+    return orderTransactionInfos;
+  }
+
+  /**
+   * Cancels the remaining qty of every outstanding order the sender has made on a MarketContract.
+   * The orders are discovered from the transactions of the maker's OrderFilled and OrderCancelled
+   * events, which hold the whole order. Orders that were never filled nor cancelled left no trace
+   * on chain and must be passed in `knownOrders`.
+   * Orders that are expired or have no qty left are reported without submitting a transaction, and
+   * a cancellation that could not be submitted is reported as failed without stopping the others.
+   * MarketContract has no way to cancel every order up to a salt, so each order is cancelled with
+   * its own transaction.
+   * @param {OrderLib | null} orderLib              OrderLib used to hash the orders, `null` to hash them off-chain.
+   * @param {string} marketContractAddress          Address of the MarketContract
+   * @param {ITxParams} txParams                    Transaction params of web3, `from` must be the maker.
+   * @param {Order[]} knownOrders                   Orders of the maker that may not be on chain yet,
+   *                                                others makers' and contracts' orders are ignored.
+   * @return {Promise<OrderCancellationResult[]>}   Result for each order of the maker on the contract.
+   */
+  public async cancelAllOrdersAsync(
+    orderLib: OrderLib | null,
+    marketContractAddress: string,
+    txParams: ITxParams = {},
+    knownOrders: Order[] = []
+  ): Promise<OrderCancellationResult[]> {
+    assert.isETHAddressHex('marketContractAddress', marketContractAddress);
+    assert.isETHAddressHex('txParams.from', txParams.from as string);
+
+    const maker = (txParams.from as string).toLowerCase();
+    const contractSetWrapper: ContractSet = await this._getContractSetByMarketContractAddressAsync(
+      marketContractAddress
+    );
+    const makerOrders = [
+      ...knownOrders.filter(
+        order =>
+          order.contractAddress.toLowerCase() === marketContractAddress.toLowerCase() &&
+          order.maker.toLowerCase() === maker
+      ),
+      ...(await this._discoverOrdersOfMakerAsync(contractSetWrapper, marketContractAddress, maker))
+    ];
 
-    return new OrderTransactionInfo(contractSetWrapper.marketContract, order, txHash);
+    const orderFilledCancelledLazyStore = new OrderFilledCancelledLazyStore(this);
+    const results: OrderCancellationResult[] = [];
+    const orderHashes: string[] = [];
+    for (const order of makerOrders) {
+      const orderHash = await createOrderHashAsync(orderLib, order);
+      if (_.includes(orderHashes, orderHash)) {
+        continue;
+      }
+      orderHashes.push(orderHash);
+
+      const qtyFilledOrCancelled = new BigNumber(
+        await orderFilledCancelledLazyStore.getQtyFilledOrCancelledAsync(
+          marketContractAddress,
+          orderHash
+        )
+      );
+      const remainingQty = order.orderQty.minus(qtyFilledOrCancelled);
+
+      if (remainingQty.isZero()) {
+        results.push({
+          orderHash,
+          status: OrderCancellationStatus.FilledOrCancelled,
+          cancelledQty: new BigNumber(0)
+        });
+      } else if (order.expirationTimestamp.isLessThan(Utils.getCurrentUnixTimestampSec())) {
+        results.push({
+          orderHash,
+          status: OrderCancellationStatus.Expired,
+          cancelledQty: new BigNumber(0)
+        });
+      } else {
+        try {
+          results.push({
+            orderHash,
+            status: OrderCancellationStatus.Submitted,
+            cancelledQty: remainingQty,
+            orderTransactionInfo: await this.cancelOrderAsync(order, remainingQty, txParams)
+          });
+        } catch (err) {
+          results.push({
+            orderHash,
+            status: OrderCancellationStatus.Failed,
+            cancelledQty: new BigNumber(0),
+            error: err.message
+          });
+        }
+      }
+    }
+    return results;
   }
 
   /**
    * Trades an order
-   * @param {OrderLib} orderLib
+   * @param {OrderLib | null} orderLib        OrderLib used to verify the order, `null` to verify it off-chain.
    * @param {SignedOrder} signedOrder         An object that conforms to the SignedOrder interface.
    *                                          The signedOrder you wish to validate.
    * @param {BigNumber} fillQty               The amount of the order that you wish to fill.
@@ -107,152 +263,330 @@ export class ContractWrapper {
    * @return {Promise<OrderTransactionInfo>}  Information about this order transaction.
    */
   public async tradeOrderAsync(
-    orderLib: OrderLib,
+    orderLib: OrderLib | null,
     signedOrder: SignedOrder,
     fillQty: BigNumber,
     txParams: ITxParams = {}
   ): Promise<OrderTransactionInfo> {
-    // assert.isSchemaValid('SignedOrder', signedOrder, schemas.SignedOrderSchema);
+    assert.isSchemaValid('signedOrder', serializeOrder(signedOrder), schemas.SignedOrderSchema);
 
     const contractSetWrapper: ContractSet = await this._getContractSetByMarketContractAddressAsync(
       signedOrder.contractAddress
     );
 
-    const isContractSettled = await contractSetWrapper.marketContract.isSettled;
-    if (isContractSettled) {
-      return Promise.reject(new Error(MarketError.ContractAlreadySettled));
+    const taker = txParams.from ? txParams.from : constants.NULL_ADDRESS;
+    const validationReport = await this.validateTradeAsync(orderLib, signedOrder, fillQty, taker);
+    if (!validationReport.isValid) {
+      return Promise.reject(new Error(validationReport.failures[0].error));
     }
 
-    const maker = signedOrder.maker;
+    return this._sendTradeOrderTxAsync(contractSetWrapper, signedOrder, fillQty, txParams);
+  }
+
+  /**
+   * Gets the contract call tradeOrderAsync sends, to estimate or simulate it. The order is not
+   * validated.
+   * @param {SignedOrder} signedOrder         The signedOrder you wish to fill.
+   * @param {BigNumber} fillQty               The amount of the order that you wish to fill.
+   * @returns {Promise<ContractCall>}
+   */
+  public async getTradeOrderCallAsync(
+    signedOrder: SignedOrder,
+    fillQty: BigNumber
+  ): Promise<ContractCall> {
+    const contractSetWrapper: ContractSet = await this._getContractSetByMarketContractAddressAsync(
+      signedOrder.contractAddress
+    );
+    return {
+      to: contractSetWrapper.marketContract.address,
+      data: this._getTradeOrderTx(contractSetWrapper, signedOrder, fillQty).getData()
+    };
+  }
+
+  /**
+   * Trades multiple orders, one transaction per order. The collateral and fee checks are run
+   * cumulatively across the batch so that the combined needs of every account are enforced
+   * before any transaction is submitted.
+   * @param {OrderLib | null} orderLib          OrderLib used to verify the orders, `null` to verify them off-chain.
+   * @param {SignedOrder[]} signedOrders        The signed orders you wish to fill.
+   * @param {BigNumber[]} fillQtys              The amount of each order that you wish to fill.
+   * @param {ITxParams} txParams                Transaction params of web3.
+   * @return {Promise<OrderTransactionInfo[]>}  Information about each submitted order transaction.
+   */
+  public async batchTradeOrdersAsync(
+    orderLib: OrderLib | null,
+    signedOrders: SignedOrder[],
+    fillQtys: BigNumber[],
+    txParams: ITxParams = {}
+  ): Promise<OrderTransactionInfo[]> {
+    assert.assert(
+      signedOrders.length === fillQtys.length,
+      `Expected as many fill qtys as orders, found ${fillQtys.length} for ${signedOrders.length}`
+    );
+
     const taker = txParams.from ? txParams.from : constants.NULL_ADDRESS;
+    const fundsErrors = [
+      MarketError.InsufficientBalanceForTransfer,
+      MarketError.InsufficientAllowanceForTransfer,
+      MarketError.InsufficientCollateralBalance
+    ];
 
-    if (signedOrder.taker !== constants.NULL_ADDRESS && signedOrder.taker !== taker) {
-      return Promise.reject(new Error(MarketError.InvalidTaker));
+    // funds are checked for the whole batch below, anything else must hold for each order.
+    const validationReports = await Promise.all(
+      signedOrders.map((signedOrder, i) =>
+        this.validateTradeAsync(orderLib, signedOrder, fillQtys[i], taker)
+      )
+    );
+    for (const validationReport of validationReports) {
+      const failure = validationReport.failures.find(
+        ({ error }) => !_.includes(fundsErrors, error)
+      );
+      if (failure) {
+        return Promise.reject(new Error(failure.error));
+      }
     }
 
-    if (signedOrder.expirationTimestamp.isLessThan(Utils.getCurrentUnixTimestampSec())) {
-      return Promise.reject(new Error(MarketError.OrderExpired));
+    const fundsFailure = await this._findBatchFundsFailureAsync(signedOrders, fillQtys, taker);
+    if (fundsFailure) {
+      return Promise.reject(new Error(fundsFailure.error));
     }
 
-    if (signedOrder.remainingQty.isEqualTo(new BigNumber(0))) {
-      return Promise.reject(new Error(MarketError.OrderFilledOrCancelled));
+    const orderTransactionInfos: OrderTransactionInfo[] = [];
+    for (let i = 0; i < signedOrders.length; i++) {
+      const contractSetWrapper: ContractSet = await this._getContractSetByMarketContractAddressAsync(
+        signedOrders[i].contractAddress
+      );
+      orderTransactionInfos.push(
+        await this._sendTradeOrderTxAsync(
+          contractSetWrapper,
+          signedOrders[i],
+          fillQtys[i],
+          txParams
+        )
+      );
     }
+    return orderTransactionInfos;
+  }
 
-    if (signedOrder.orderQty.isPositive() !== fillQty.isPositive()) {
+  /**
+   * Fills orders from best to worst price until the total qty is filled, or no order is left.
+   * Orders at the same price are filled in the order they are supplied. All orders must be on the
+   * same side, the sign of the total qty, and the fills are submitted with `batchTradeOrdersAsync`.
+   * @param {OrderLib | null} orderLib          OrderLib used to verify the orders, `null` to verify them off-chain.
+   * @param {SignedOrder[]} signedOrders        The signed orders that can be filled.
+   * @param {BigNumber} totalQty                The total qty you wish to fill (+ buy orders / - sell orders).
+   * @param {ITxParams} txParams                Transaction params of web3.
+   * @return {Promise<OrderTransactionInfo[]>}  Information about each submitted order transaction.
+   */
+  public async marketFillOrdersAsync(
+    orderLib: OrderLib | null,
+    signedOrders: SignedOrder[],
+    totalQty: BigNumber,
+    txParams: ITxParams = {}
+  ): Promise<OrderTransactionInfo[]> {
+    if (
+      signedOrders.some(signedOrder => signedOrder.orderQty.isPositive() !== totalQty.isPositive())
+    ) {
       return Promise.reject(new Error(MarketError.BuySellMismatch));
     }
 
-    const orderHash = await createOrderHashAsync(orderLib, signedOrder);
+    // buy orders are best at the highest price, sell orders at the lowest one.
+    const sortedOrders = [...signedOrders].sort(
+      (a, b) => (totalQty.isPositive() ? b.price.comparedTo(a.price) : a.price.comparedTo(b.price))
+    );
 
-    const validSignature = await isValidSignatureAsync(orderLib, signedOrder, orderHash);
+    const ordersToFill: SignedOrder[] = [];
+    const fillQtys: BigNumber[] = [];
+    let qtyLeftToFill = totalQty.absoluteValue();
+    for (const signedOrder of sortedOrders) {
+      if (qtyLeftToFill.isZero()) {
+        break;
+      }
 
-    if (!validSignature) {
-      return Promise.reject(new Error(MarketError.InvalidSignature));
+      const orderHash = await createOrderHashAsync(orderLib, signedOrder);
+      const qtyFilledOrCancelled = new BigNumber(
+        await this.getQtyFilledOrCancelledFromOrderAsync(signedOrder.contractAddress, orderHash)
+      );
+      const fillableQty = BigNumber.min(
+        signedOrder.remainingQty.absoluteValue(),
+        signedOrder.orderQty.minus(qtyFilledOrCancelled).absoluteValue()
+      );
+      if (fillableQty.isZero()) {
+        continue;
+      }
+
+      const fillQty = BigNumber.min(fillableQty, qtyLeftToFill);
+      ordersToFill.push(signedOrder);
+      fillQtys.push(totalQty.isPositive() ? fillQty : fillQty.negated());
+      qtyLeftToFill = qtyLeftToFill.minus(fillQty);
     }
 
-    const isMakerEnabled = await this._market.mktTokenContract.isUserEnabledForContract(
-      signedOrder.contractAddress,
-      maker
+    return this.batchTradeOrdersAsync(orderLib, ordersToFill, fillQtys, txParams);
+  }
+
+  /**
+   * Runs every check `tradeOrderAsync` performs before submitting a trade and reports all the
+   * failing conditions instead of only the first one. Independent checks are run in parallel.
+   * @param {OrderLib | null} orderLib        OrderLib used to verify the order, `null` to verify it off-chain.
+   * @param {SignedOrder} signedOrder         The signedOrder you wish to fill.
+   * @param {BigNumber} fillQty               The amount of the order that you wish to fill.
+   * @param {string} taker                    Address of the account that would fill the order.
+   * @return {Promise<TradeValidationReport>} Every failing condition with actual and required amounts.
+   */
+  public async validateTradeAsync(
+    orderLib: OrderLib | null,
+    signedOrder: SignedOrder,
+    fillQty: BigNumber,
+    taker: string
+  ): Promise<TradeValidationReport> {
+    const contractSetWrapper: ContractSet = await this._getContractSetByMarketContractAddressAsync(
+      signedOrder.contractAddress
     );
-    const isTakerEnabled = await this._market.mktTokenContract.isUserEnabledForContract(
-      signedOrder.contractAddress,
-      taker
+    const maker = signedOrder.maker;
+    const mktToken: ERC20 = await this.getERC20TokenContractAsync(
+      this._market.mktTokenContract.address
     );
 
-    if (!isMakerEnabled || !isTakerEnabled) {
-      return Promise.reject(new Error(MarketError.UserNotEnabledForContract));
-    }
+    // fire all the reads at once, only the signature check depends on another one.
+    const orderHashPromise = createOrderHashAsync(orderLib, signedOrder);
+    const [orderChecks, feeFunds, collateral] = await Promise.all([
+      Promise.all([
+        contractSetWrapper.marketContract.isSettled,
+        orderHashPromise,
+        // MarketContract only recovers eth_sign signatures, an EIP712 signed order can't be traded.
+        signedOrder.signatureScheme === SignatureScheme.EIP712
+          ? Promise.resolve(false)
+          : orderHashPromise.then(hash => isValidSignatureAsync(orderLib, signedOrder, hash)),
+        this._market.mktTokenContract.isUserEnabledForContract(signedOrder.contractAddress, maker),
+        this._market.mktTokenContract.isUserEnabledForContract(signedOrder.contractAddress, taker)
+      ]),
+      Promise.all([
+        mktToken.balanceOf(maker),
+        mktToken.allowance(maker, signedOrder.feeRecipient),
+        mktToken.balanceOf(taker),
+        mktToken.allowance(taker, signedOrder.feeRecipient)
+      ]),
+      Promise.all([
+        this.getUserAccountBalanceAsync(signedOrder.contractAddress, maker),
+        this.getUserAccountBalanceAsync(signedOrder.contractAddress, taker),
+        this.calculateNeededCollateralAsync(
+          signedOrder.contractAddress,
+          fillQty,
+          signedOrder.price
+        ),
+        this.calculateNeededCollateralAsync(
+          signedOrder.contractAddress,
+          fillQty.times(-1), // opposite direction of the order sign! If i fill a buy order, I am selling / short.
+          signedOrder.price
+        )
+      ])
+    ]);
+    const [
+      isContractSettled,
+      orderHash,
+      isValidSignature,
+      isMakerEnabled,
+      isTakerEnabled
+    ] = orderChecks;
+    const [makerMktBalance, makerMktAllowance, takerMktBalance, takerMktAllowance] = feeFunds;
+    const [
+      makerCollateralBalance,
+      takerCollateralBalance,
+      neededCollateralMaker,
+      neededCollateralTaker
+    ] = collateral;
+
+    const failures: TradeValidationFailure[] = [];
 
-    const makerMktBalance: BigNumber = new BigNumber(
-      await this.getBalanceAsync(this._market.mktTokenContract.address, maker)
-    );
+    if (isContractSettled) {
+      failures.push({ error: MarketError.ContractAlreadySettled });
+    }
 
-    if (makerMktBalance.isLessThan(signedOrder.makerFee)) {
-      return Promise.reject(new Error(MarketError.InsufficientBalanceForTransfer));
+    if (signedOrder.taker !== constants.NULL_ADDRESS && signedOrder.taker !== taker) {
+      failures.push({ error: MarketError.InvalidTaker, account: taker });
     }
 
-    const makersMktAllowance = new BigNumber(
-      await this.getAllowanceAsync(
-        this._market.mktTokenContract.address,
-        maker,
-        signedOrder.feeRecipient
-      )
-    );
+    const currentUnixTimestampSec = Utils.getCurrentUnixTimestampSec();
+    if (signedOrder.expirationTimestamp.isLessThan(currentUnixTimestampSec)) {
+      failures.push({
+        error: MarketError.OrderExpired,
+        actual: currentUnixTimestampSec,
+        required: signedOrder.expirationTimestamp
+      });
+    }
 
-    if (makersMktAllowance.isLessThan(signedOrder.makerFee)) {
-      return Promise.reject(new Error(MarketError.InsufficientAllowanceForTransfer));
+    if (signedOrder.remainingQty.isEqualTo(new BigNumber(0))) {
+      failures.push({
+        error: MarketError.OrderFilledOrCancelled,
+        actual: signedOrder.remainingQty,
+        required: fillQty
+      });
     }
 
-    const takerMktBalance: BigNumber = new BigNumber(
-      await this.getBalanceAsync(this._market.mktTokenContract.address, taker)
-    );
+    if (signedOrder.orderQty.isPositive() !== fillQty.isPositive()) {
+      failures.push({ error: MarketError.BuySellMismatch });
+    }
 
-    if (takerMktBalance.isLessThan(signedOrder.takerFee)) {
-      return Promise.reject(new Error(MarketError.InsufficientBalanceForTransfer));
+    if (!isValidSignature) {
+      failures.push({ error: MarketError.InvalidSignature, account: maker });
     }
 
-    const takersMktAllowance = new BigNumber(
-      await this.getAllowanceAsync(
-        this._market.mktTokenContract.address,
-        taker,
-        signedOrder.feeRecipient
-      )
-    );
+    if (!isMakerEnabled) {
+      failures.push({ error: MarketError.UserNotEnabledForContract, account: maker });
+    }
 
-    if (takersMktAllowance.isLessThan(signedOrder.takerFee)) {
-      return Promise.reject(new Error(MarketError.InsufficientAllowanceForTransfer));
+    if (!isTakerEnabled) {
+      failures.push({ error: MarketError.UserNotEnabledForContract, account: taker });
     }
 
-    const makerCollateralBalance: BigNumber = new BigNumber(
-      await this.getUserAccountBalanceAsync(signedOrder.contractAddress, maker)
+    this._pushIfInsufficient(
+      failures,
+      MarketError.InsufficientBalanceForTransfer,
+      maker,
+      makerMktBalance,
+      signedOrder.makerFee
     );
-    const takerCollateralBalance: BigNumber = new BigNumber(
-      await this.getUserAccountBalanceAsync(signedOrder.contractAddress, taker)
+    this._pushIfInsufficient(
+      failures,
+      MarketError.InsufficientAllowanceForTransfer,
+      maker,
+      makerMktAllowance,
+      signedOrder.makerFee
     );
-
-    const neededCollateralMaker: BigNumber = await this.calculateNeededCollateralAsync(
-      signedOrder.contractAddress,
-      fillQty,
-      signedOrder.price
+    this._pushIfInsufficient(
+      failures,
+      MarketError.InsufficientBalanceForTransfer,
+      taker,
+      takerMktBalance,
+      signedOrder.takerFee
     );
-
-    const neededCollateralTaker: BigNumber = await this.calculateNeededCollateralAsync(
-      signedOrder.contractAddress,
-      fillQty.times(-1), // opposite direction of the order sign! If i fill a buy order, I am selling / short.
-      signedOrder.price
+    this._pushIfInsufficient(
+      failures,
+      MarketError.InsufficientAllowanceForTransfer,
+      taker,
+      takerMktAllowance,
+      signedOrder.takerFee
     );
-
-    if (makerCollateralBalance.isLessThan(neededCollateralMaker)) {
-      return Promise.reject(new Error(MarketError.InsufficientCollateralBalance));
-    }
-
-    if (takerCollateralBalance.isLessThan(neededCollateralTaker)) {
-      return Promise.reject(new Error(MarketError.InsufficientCollateralBalance));
-    }
-
-    const txHash: string = await contractSetWrapper.marketContract
-      .tradeOrderTx(
-        // orderAddresses
-        [signedOrder.maker, signedOrder.taker, signedOrder.feeRecipient],
-        // unsignedOrderValues
-        [
-          signedOrder.makerFee,
-          signedOrder.takerFee,
-          signedOrder.price,
-          signedOrder.expirationTimestamp,
-          signedOrder.salt
-        ],
-        signedOrder.orderQty,
-        fillQty,
-        signedOrder.ecSignature.v,
-        signedOrder.ecSignature.r,
-        signedOrder.ecSignature.s
-      )
-      .send(txParams);
-
-    return Promise.resolve(
-      new OrderTransactionInfo(contractSetWrapper.marketContract, signedOrder, txHash)
+    this._pushIfInsufficient(
+      failures,
+      MarketError.InsufficientCollateralBalance,
+      maker,
+      makerCollateralBalance,
+      neededCollateralMaker
+    );
+    this._pushIfInsufficient(
+      failures,
+      MarketError.InsufficientCollateralBalance,
+      taker,
+      takerCollateralBalance,
+      neededCollateralTaker
     );
+
+    return {
+      isValid: failures.length === 0,
+      orderHash,
+      failures
+    };
   }
 
   /**
@@ -303,6 +637,7 @@ export class ContractWrapper {
    * @param {string} fromBlock                   from block #
    * @param {string} toBlock                     to block #
    * @param {string} userAddress                 only search for fills for a specified address
+   * @param {string} side                        order side: maker | taker | any
    * @returns {Promise<OrderFilledEvent[]>}
    */
   public async getContractFillsAsync(
@@ -312,50 +647,94 @@ export class ContractWrapper {
     userAddress: string | null = null,
     side: 'maker' | 'taker' | 'any' = 'any'
   ): Promise<OrderFilledEvent[]> {
+    let orderFilledEvents: OrderFilledEvent[] = [];
+    for await (const page of this.iterateContractFills(
+      marketContractAddress,
+      fromBlock,
+      toBlock,
+      userAddress,
+      side
+    )) {
+      orderFilledEvents = orderFilledEvents.concat(page);
+    }
+    return orderFilledEvents;
+  }
+
+  /**
+   * Pages through the history of contract fills for maker/taker/or both, one block range chunk
+   * at a time.
+   * @param {string} marketContractAddress       address of the MarketContract
+   * @param {string} fromBlock                   from block #
+   * @param {string} toBlock                     to block #
+   * @param {string} userAddress                 only search for fills for a specified address
+   * @param {string} side                        order side: maker | taker | any
+   * @returns {AsyncIterableIterator<OrderFilledEvent[]>}  fills of each chunk, in block order
+   */
+  public async *iterateContractFills(
+    marketContractAddress: string,
+    fromBlock: number | string = '0x0',
+    toBlock: number | string = 'latest',
+    userAddress: string | null = null,
+    side: 'maker' | 'taker' | 'any' = 'any'
+  ): AsyncIterableIterator<OrderFilledEvent[]> {
     const contractSetWrapper: ContractSet = await this._getContractSetByMarketContractAddressAsync(
       marketContractAddress
     );
 
-    let orderFilledEvents: OrderFilledEvent[] = [];
+    // indexed maker and taker args let the node do the filtering.
+    let filters: Array<{ maker?: string; taker?: string }> = [{}];
+    if (userAddress) {
+      filters = [];
+      if (side === 'maker' || side === 'any') {
+        filters.push({ maker: userAddress });
+      }
+      if (side === 'taker' || side === 'any') {
+        filters.push({ taker: userAddress });
+      }
+    }
 
-    const events = await contractSetWrapper.marketContract.OrderFilledEvent({}).get({
-      fromBlock: fromBlock,
-      toBlock: toBlock
-    });
-
-    for (let e of events) {
-      const transaction = await new Promise<Transaction>((resolve, reject) => {
-        this._web3.eth.getTransaction(e.transactionHash, (err: Error, tx: Transaction) => {
-          if (err) {
-            reject(err);
-          }
-          resolve(tx);
-        });
-      });
+    const indexedEventLogs = await this._getIndexedEventLogsAsync(
+      marketContractAddress,
+      'OrderFilled',
+      fromBlock,
+      toBlock
+    );
+    if (indexedEventLogs) {
+      yield indexedEventLogs
+        .filter(e =>
+          filters.some(filter =>
+            _.every(
+              filter,
+              (value: string, argName: string) =>
+                value.toLowerCase() === String(e.args[argName]).toLowerCase()
+            )
+          )
+        )
+        .map(e => this._toOrderFilledEvent(e));
+      return;
+    }
 
-      const event: OrderFilledEvent = {
-        maker: e.args.maker,
-        taker: e.args.taker,
-        feeRecipient: e.args.feeRecipient,
-        filledQty: e.args.filledQty,
-        paidMakerFee: e.args.paidMakerFee,
-        paidTakerFee: e.args.paidTakerFee,
-        price: e.args.price,
-        orderHash: e.args.orderHash,
-        blockNumber: transaction.blockNumber,
-        txHash: transaction.hash
-      };
-      if (!userAddress) {
-        orderFilledEvents.push(event);
-      } else if (
-        (side === 'maker' && userAddress === e.args.maker) ||
-        (side === 'taker' && userAddress === e.args.taker) ||
-        (side === 'any' && (userAddress === e.args.maker || userAddress === e.args.taker))
-      ) {
-        orderFilledEvents.push(event);
-      }
+    for (const [chunkFromBlock, chunkToBlock] of await this._getBlockRangeChunksAsync(
+      fromBlock,
+      toBlock
+    )) {
+      const eventLogs = _.flatten(
+        await Promise.all(
+          filters.map(filter =>
+            contractSetWrapper.marketContract
+              .OrderFilledEvent(filter)
+              .get({ fromBlock: chunkFromBlock, toBlock: chunkToBlock })
+          )
+        )
+      );
+
+      // a user trading against their own order matches both filters.
+      const sortedEventLogs = _.sortBy(
+        _.uniqBy(eventLogs, e => `${e.transactionHash}:${e.logIndex}`),
+        ['blockNumber', 'logIndex']
+      );
+      yield sortedEventLogs.map(e => this._toOrderFilledEvent(e));
     }
-    return orderFilledEvents;
   }
 
   // endregion //Public Methods
@@ -454,9 +833,32 @@ export class ContractWrapper {
       return Promise.reject(new Error(MarketError.InsufficientAllowanceForTransfer));
     }
 
-    return contractSetWrapper.marketCollateralPool
-      .depositTokensForTradingTx(depositAmount)
-      .send(txParams);
+    return this._market.transactionManager.sendTransactionAsync(txParams, managedTxParams =>
+      contractSetWrapper.marketCollateralPool
+        .depositTokensForTradingTx(depositAmount)
+        .send(managedTxParams)
+    );
+  }
+
+  /**
+   * Gets the contract call depositCollateralAsync sends, to estimate or simulate it.
+   * @param {string} marketContractAddress            Address of the MarketContract
+   * @param {BigNumber | number} depositAmount        Amount of ERC20 collateral to deposit
+   * @returns {Promise<ContractCall>}
+   */
+  public async getDepositCollateralCallAsync(
+    marketContractAddress: string,
+    depositAmount: BigNumber | number
+  ): Promise<ContractCall> {
+    const contractSetWrapper: ContractSet = await this._getContractSetByMarketContractAddressAsync(
+      marketContractAddress
+    );
+    return {
+      to: contractSetWrapper.marketCollateralPool.address,
+      data: contractSetWrapper.marketCollateralPool
+        .depositTokensForTradingTx(depositAmount)
+        .getData()
+    };
   }
 
   /**
@@ -499,7 +901,28 @@ export class ContractWrapper {
     if (balance.isLessThan(withdrawAmount)) {
       return Promise.reject(new Error(MarketError.InsufficientBalanceForTransfer));
     }
-    return contractSetWrapper.marketCollateralPool.withdrawTokensTx(withdrawAmount).send(txParams);
+    return this._market.transactionManager.sendTransactionAsync(txParams, managedTxParams =>
+      contractSetWrapper.marketCollateralPool.withdrawTokensTx(withdrawAmount).send(managedTxParams)
+    );
+  }
+
+  /**
+   * Gets the contract call withdrawCollateralAsync sends, to estimate or simulate it.
+   * @param {string} marketContractAddress            Address of the MarketContract
+   * @param {BigNumber | number} withdrawAmount       Amount of ERC20 collateral to withdraw
+   * @returns {Promise<ContractCall>}
+   */
+  public async getWithdrawCollateralCallAsync(
+    marketContractAddress: string,
+    withdrawAmount: BigNumber | number
+  ): Promise<ContractCall> {
+    const contractSetWrapper: ContractSet = await this._getContractSetByMarketContractAddressAsync(
+      marketContractAddress
+    );
+    return {
+      to: contractSetWrapper.marketCollateralPool.address,
+      data: contractSetWrapper.marketCollateralPool.withdrawTokensTx(withdrawAmount).getData()
+    };
   }
 
   /**
@@ -515,15 +938,32 @@ export class ContractWrapper {
     const contractSetWrapper: ContractSet = await this._getContractSetByMarketContractAddressAsync(
       marketContractAddress
     );
-    return contractSetWrapper.marketCollateralPool.settleAndCloseTx().send(txParams);
+    return this._market.transactionManager.sendTransactionAsync(txParams, managedTxParams =>
+      contractSetWrapper.marketCollateralPool.settleAndCloseTx().send(managedTxParams)
+    );
+  }
+
+  /**
+   * Gets the contract call settleAndCloseAsync sends, to estimate or simulate it.
+   * @param {string} marketContractAddress       address of the MarketContract
+   * @returns {Promise<ContractCall>}
+   */
+  public async getSettleAndCloseCallAsync(marketContractAddress: string): Promise<ContractCall> {
+    const contractSetWrapper: ContractSet = await this._getContractSetByMarketContractAddressAsync(
+      marketContractAddress
+    );
+    return {
+      to: contractSetWrapper.marketCollateralPool.address,
+      data: contractSetWrapper.marketCollateralPool.settleAndCloseTx().getData()
+    };
   }
 
   /**
-   * Gets the history of deposits and withdrawals for a given collateral pool address.
+   * Gets the history of collateral balance updates for a given collateral pool address.
    * @param {string} marketContractAddress       address of the MarketContract
    * @param {string} fromBlock                        from block #
    * @param {string} toBlock                          to block #
-   * @param {string} userAddress                      only search for deposits/withdrawals to/from a specified address
+   * @param {string} userAddress                      only search for balance updates of a specified address
    * @returns {Promise<CollateralEvent[]>}
    */
   public async getCollateralEventsAsync(
@@ -532,43 +972,133 @@ export class ContractWrapper {
     toBlock: number | string = 'latest',
     userAddress: string | null = null
   ): Promise<CollateralEvent[]> {
+    let collateralEvents: CollateralEvent[] = [];
+    for await (const page of this.iterateCollateralEvents(
+      marketContractAddress,
+      fromBlock,
+      toBlock,
+      userAddress
+    )) {
+      collateralEvents = collateralEvents.concat(page);
+    }
+    return collateralEvents;
+  }
+
+  /**
+   * Pages through the history of collateral balance updates for a given collateral pool address,
+   * one block range chunk at a time. Events are built from the UpdatedUserBalance logs: the
+   * amount is the change from the user's previous balance, and balance updates in a transaction
+   * filling an order are trade locks and releases.
+   * @param {string} marketContractAddress            address of the MarketContract
+   * @param {string} fromBlock                        from block #
+   * @param {string} toBlock                          to block #
+   * @param {string} userAddress                      only search for balance updates of a specified address
+   * @returns {AsyncIterableIterator<CollateralEvent[]>}  events of each chunk, in block order
+   */
+  public async *iterateCollateralEvents(
+    marketContractAddress: string,
+    fromBlock: number | string = '0x0',
+    toBlock: number | string = 'latest',
+    userAddress: string | null = null
+  ): AsyncIterableIterator<CollateralEvent[]> {
     const contractSetWrapper: ContractSet = await this._getContractSetByMarketContractAddressAsync(
       marketContractAddress
     );
+    const collateralPoolAddress = contractSetWrapper.marketCollateralPool.address.toLowerCase();
+    const firstBlockNumber = await this._toBlockNumberAsync(fromBlock);
+    const balanceByUser: { [userAddress: string]: BigNumber } = {};
+
+    const toCollateralEventsAsync = async (
+      balanceLogs: Array<{
+        args: { [argName: string]: string | BigNumber };
+        transactionHash: string;
+        blockNumber: number | null;
+      }>,
+      fillTxHashes: string[]
+    ): Promise<CollateralEvent[]> => {
+      const newUsers = _.uniq(balanceLogs.map(e => String(e.args.user).toLowerCase())).filter(
+        user => _.isUndefined(balanceByUser[user])
+      );
+      const newUserBalances = await Promise.all(
+        newUsers.map(user =>
+          this._getBalanceBeforeBlockAsync(
+            contractSetWrapper,
+            marketContractAddress,
+            user,
+            firstBlockNumber
+          )
+        )
+      );
+      Object.assign(balanceByUser, _.zipObject(newUsers, newUserBalances));
+      // settleAndClose releases the collateral of the closed position, then withdraws it all.
+      const balanceLogCountByTxUser = _.countBy(
+        balanceLogs,
+        e => `${e.transactionHash}:${String(e.args.user).toLowerCase()}`
+      );
+
+      return balanceLogs.map(e => {
+        const user = String(e.args.user).toLowerCase();
+        const balanceBefore = balanceByUser[user];
+        const balanceAfter = new BigNumber(e.args.balance);
+        balanceByUser[user] = balanceAfter;
+
+        const isIncrease = balanceAfter.isGreaterThan(balanceBefore);
+        let type: CollateralEventType;
+        if (_.includes(fillTxHashes, e.transactionHash)) {
+          type = isIncrease ? 'trade-release' : 'trade-lock';
+        } else if (isIncrease && balanceLogCountByTxUser[`${e.transactionHash}:${user}`] > 1) {
+          type = 'settlement';
+        } else {
+          type = isIncrease ? 'deposit' : 'withdrawal';
+        }
+        const isIntoPool = type === 'deposit' || type === 'trade-lock';
+        return {
+          type,
+          from: isIntoPool ? user : collateralPoolAddress,
+          to: isIntoPool ? collateralPoolAddress : user,
+          amount: balanceAfter.minus(balanceBefore).absoluteValue(),
+          balanceAfter,
+          blockNumber: e.blockNumber,
+          txHash: e.transactionHash
+        };
+      });
+    };
 
-    let collateralEvents: CollateralEvent[] = [];
+    const indexedBalanceLogs = await this._getIndexedEventLogsAsync(
+      marketContractAddress,
+      'UpdatedUserBalance',
+      fromBlock,
+      toBlock
+    );
+    const indexedFillLogs = await this._getIndexedEventLogsAsync(
+      marketContractAddress,
+      'OrderFilled',
+      fromBlock,
+      toBlock
+    );
+    if (indexedBalanceLogs && indexedFillLogs) {
+      yield toCollateralEventsAsync(
+        indexedBalanceLogs.filter(
+          e => !userAddress || String(e.args.user).toLowerCase() === userAddress.toLowerCase()
+        ),
+        indexedFillLogs.map(e => e.transactionHash)
+      );
+      return;
+    }
 
-    const logs = await contractSetWrapper.marketCollateralPool.UpdatedUserBalanceEvent({}).get({
-      fromBlock: fromBlock,
-      toBlock: toBlock
-    });
-    for (let e of logs) {
-      const transaction = await new Promise<Transaction>((resolve, reject) => {
-        this._web3.eth.getTransaction(e.transactionHash, (err: Error, tx: Transaction) => {
-          if (err) {
-            reject(err);
-          }
-          resolve(tx);
-        });
-      });
-      const decoder = new Decoder(contractSetWrapper.marketCollateralPool.contractAbi);
-      const input = decoder.decodeData(transaction.input);
-      const event: CollateralEvent = {
-        type: input.name === 'depositTokensForTrading' ? 'deposit' : 'withdrawal',
-        from: input.name === 'depositTokensForTrading' ? transaction.from : transaction.to,
-        to: input.name === 'depositTokensForTrading' ? transaction.to : transaction.from,
-        amount: input.inputs[0],
-        blockNumber: transaction.blockNumber,
-        txHash: transaction.hash
-      };
-      if (!userAddress) {
-        collateralEvents.push(event);
-      }
-      if (userAddress === transaction.from || userAddress === transaction.to) {
-        collateralEvents.push(event);
-      }
+    for (const [chunkFromBlock, chunkToBlock] of await this._getBlockRangeChunksAsync(
+      fromBlock,
+      toBlock
+    )) {
+      const range = { fromBlock: chunkFromBlock, toBlock: chunkToBlock };
+      const [balanceLogs, fillLogs] = await Promise.all([
+        contractSetWrapper.marketCollateralPool
+          .UpdatedUserBalanceEvent(userAddress ? { user: userAddress } : {})
+          .get(range),
+        contractSetWrapper.marketContract.OrderFilledEvent({}).get(range)
+      ]);
+      yield toCollateralEventsAsync(balanceLogs, fillLogs.map(e => e.transactionHash));
     }
-    return collateralEvents;
   }
 
   /**
@@ -648,10 +1178,6 @@ export class ContractWrapper {
 
     let positions: BigNumber[][] = [];
     let i: number;
-    interface LooseObj {
-      [key: string]: number;
-    }
-    let res: LooseObj = {};
 
     const currentPositionCount = new BigNumber(
       await contractSetWrapper.marketCollateralPool.getUserPositionCount(userAddress)
@@ -667,28 +1193,22 @@ export class ContractWrapper {
       }
 
       if (sort) {
-        positions.sort((a, b) => {
-          if (a[0].toNumber() === b[0].toNumber()) {
-            return 0;
-          } else {
-            return a[0].toNumber() < b[0].toNumber() ? -1 : 1;
-          }
-        });
+        positions.sort((a, b) => a[0].comparedTo(b[0]));
       }
 
       if (consolidate) {
-        const uniquePositions = positions.reduce((result, position) => {
-          if (typeof result[position[0].toNumber()] === 'undefined') {
-            result[position[0].toNumber()] = position[1].toNumber();
-          } else {
-            result[position[0].toNumber()] += position[1].toNumber();
-          }
-          return result;
-        }, res);
-
-        positions = Object.keys(uniquePositions).map(key => {
-          return [new BigNumber(Number(key)), new BigNumber(uniquePositions[key])];
+        // keyed by the exact price, consolidated positions are always sorted by price.
+        const uniquePositions: { [price: string]: BigNumber[] } = {};
+        positions.forEach(([price, qty]) => {
+          const key = price.toFixed();
+          uniquePositions[key] = _.isUndefined(uniquePositions[key])
+            ? [price, qty]
+            : [price, uniquePositions[key][1].plus(qty)];
         });
+
+        positions = Object.keys(uniquePositions)
+          .map(key => uniquePositions[key])
+          .sort((a, b) => a[0].comparedTo(b[0]));
       }
 
       return positions;
@@ -757,7 +1277,9 @@ export class ContractWrapper {
     assert.isValidBaseUnitAmount('amountInBaseUnits', amountInBaseUnits);
 
     const tokenContract = await this.getERC20TokenContractAsync(tokenAddress);
-    return tokenContract.approveTx(spenderAddress, amountInBaseUnits).send(txParams);
+    return this._market.transactionManager.sendTransactionAsync(txParams, managedTxParams =>
+      tokenContract.approveTx(spenderAddress, amountInBaseUnits).send(managedTxParams)
+    );
   }
 
   /**
@@ -785,6 +1307,71 @@ export class ContractWrapper {
 
   // endregion //Public ERC20 Methods
 
+  // region Public Event Methods
+  // *****************************************************************
+  // ****                  Public Event Methods                   ****
+  // *****************************************************************
+
+  /**
+   * Watches a MarketContract, or its MarketCollateralPool for UpdatedUserBalance, for new events.
+   * @param {string} marketContractAddress    Address of the MarketContract
+   * @param {MarketEventName} eventName       Name of the event to watch
+   * @param {MarketEventFilter} filter        Indexed argument values the events must match
+   * @param {OnMarketEventCallback} callback  Called with every matching event
+   * @return {Promise<string>}                Token to pass to `unsubscribe`
+   */
+  public async subscribeAsync(
+    marketContractAddress: string,
+    eventName: MarketEventName,
+    filter: MarketEventFilter,
+    callback: OnMarketEventCallback
+  ): Promise<string> {
+    assert.isETHAddressHex('marketContractAddress', marketContractAddress);
+    assert.isFunction('callback', callback);
+
+    const key = `${marketContractAddress.toLowerCase()}:${eventName}:${JSON.stringify(filter)}`;
+    const isAlreadySubscribed = _.some(
+      this._subscriptionByToken,
+      subscription => subscription.key === key && subscription.callback === callback
+    );
+    if (isAlreadySubscribed) {
+      return Promise.reject(new Error(MarketError.SubscriptionAlreadyPresent));
+    }
+
+    const contractSetWrapper: ContractSet = await this._getContractSetByMarketContractAddressAsync(
+      marketContractAddress
+    );
+    const token = `${eventName}-${this._nextSubscriptionId++}`;
+    this._subscriptionByToken[token] = {
+      key,
+      callback,
+      stopWatcher: this._watchEvent(contractSetWrapper, eventName, filter, callback)
+    };
+    return token;
+  }
+
+  /**
+   * Stops watching for the events of a subscription.
+   * @param {string} token    Token returned by `subscribeAsync`
+   */
+  public unsubscribe(token: string): void {
+    const subscription = this._subscriptionByToken[token];
+    if (_.isUndefined(subscription)) {
+      throw new Error(MarketError.SubscriptionNotFound);
+    }
+    delete this._subscriptionByToken[token];
+    subscription.stopWatcher().catch(err => subscription.callback(err));
+  }
+
+  /**
+   * Stops watching for the events of every subscription.
+   */
+  public unsubscribeAll(): void {
+    Object.keys(this._subscriptionByToken).forEach(token => this.unsubscribe(token));
+  }
+
+  // endregion //Public Event Methods
+
   // region Protected Methods
   // *****************************************************************
   // ****                    Protected Methods                    ****
@@ -843,5 +1430,505 @@ export class ContractWrapper {
   // *****************************************************************
   // ****                     Private Methods                     ****
   // *****************************************************************
+  /**
+   * Resolves a block number or tag to a block number.
+   * @param {number | string} block     block number, hex block number or block tag
+   * @returns {Promise<number>}
+   * @private
+   */
+  private async _toBlockNumberAsync(block: number | string): Promise<number> {
+    switch (block) {
+      case 'earliest':
+        return 0;
+      case 'latest':
+      case 'pending':
+        return Number(await promisify(this._web3.eth.getBlockNumber, []));
+      default:
+        return this._web3.toDecimal(block);
+    }
+  }
+
+  /**
+   * Gets the logs of an event from `Market.eventIndexer` when it covers the whole block range.
+   * @param {string} marketContractAddress       address of the MarketContract
+   * @param {IndexedEventName} eventName         name of the event
+   * @param {number | string} fromBlock          first block of the range, inclusive
+   * @param {number | string} toBlock            last block of the range, inclusive
+   * @returns {Promise<Array<{args: {}, transactionHash: string, blockNumber: number}> | null>}
+   * the logs, null when the range is not indexed
+   * @private
+   */
+  private async _getIndexedEventLogsAsync(
+    marketContractAddress: string,
+    eventName: IndexedEventName,
+    fromBlock: number | string,
+    toBlock: number | string
+  ): Promise<Array<{
+    args: { [argName: string]: string | BigNumber };
+    transactionHash: string;
+    blockNumber: number;
+  }> | null> {
+    const eventIndexer = this._market.eventIndexer;
+    if (_.isUndefined(eventIndexer)) {
+      return null;
+    }
+    const toBlockNumber = await this._toBlockNumberAsync(toBlock);
+    if (!(await eventIndexer.isSyncedAsync(marketContractAddress, toBlockNumber))) {
+      return null;
+    }
+    return eventIndexer.getEventLogsAsync(
+      marketContractAddress,
+      eventName,
+      await this._toBlockNumberAsync(fromBlock),
+      toBlockNumber
+    );
+  }
+
+  /**
+   * Finds the orders of a maker from the transactions that filled or cancelled them, oldest first.
+   * @param {ContractSet} contractSetWrapper     contracts of the MarketContract
+   * @param {string} marketContractAddress       address of the MarketContract
+   * @param {string} maker                       lower case address of the maker
+   * @returns {Promise<Order[]>}                 the orders, once per fill or cancel
+   * @private
+   */
+  private async _discoverOrdersOfMakerAsync(
+    contractSetWrapper: ContractSet,
+    marketContractAddress: string,
+    maker: string
+  ): Promise<Order[]> {
+    let txHashes: string[] = [];
+    const indexedFillLogs = await this._getIndexedEventLogsAsync(
+      marketContractAddress,
+      'OrderFilled',
+      0,
+      'latest'
+    );
+    const indexedCancelLogs = await this._getIndexedEventLogsAsync(
+      marketContractAddress,
+      'OrderCancelled',
+      0,
+      'latest'
+    );
+    if (indexedFillLogs && indexedCancelLogs) {
+      txHashes = _.sortBy([...indexedFillLogs, ...indexedCancelLogs], 'blockNumber')
+        .filter(e => String(e.args.maker).toLowerCase() === maker)
+        .map(e => e.transactionHash);
+    } else {
+      for (const [chunkFromBlock, chunkToBlock] of await this._getBlockRangeChunksAsync(
+        0,
+        'latest'
+      )) {
+        const range = { fromBlock: chunkFromBlock, toBlock: chunkToBlock };
+        const [fillLogs, cancelLogs] = await Promise.all([
+          contractSetWrapper.marketContract.OrderFilledEvent({ maker }).get(range),
+          contractSetWrapper.marketContract.OrderCancelledEvent({ maker }).get(range)
+        ]);
+        txHashes.push(
+          ..._.sortBy([...fillLogs, ...cancelLogs], 'blockNumber').map(e => e.transactionHash)
+        );
+      }
+    }
+
+    const decoder = new Decoder(contractSetWrapper.marketContract.contractAbi);
+    const orders: Order[] = [];
+    for (const transaction of await this._getTransactionsAsync(_.uniq(txHashes))) {
+      const input = decoder.decodeData(transaction.input);
+      // the orders of fills and cancels sent through other contracts can't be read.
+      if (input.name !== 'tradeOrder' && input.name !== 'cancelOrder') {
+        continue;
+      }
+
+      const [orderAddresses, unsignedOrderValues, orderQty] = input.inputs;
+      const [orderMaker, taker, feeRecipient] = orderAddresses.map(
+        (address: { toString(base: number): string }) => `0x${_.padStart(address.toString(16), 40, '0')}`
+      );
+      const [makerFee, takerFee, price, expirationTimestamp, salt] = unsignedOrderValues.map(
+        (value: { toString(base: number): string }) => new BigNumber(value.toString(10))
+      );
+      orders.push({
+        contractAddress: marketContractAddress,
+        expirationTimestamp,
+        feeRecipient,
+        maker: orderMaker,
+        makerFee,
+        orderQty: new BigNumber(orderQty.toString(10)),
+        price,
+        remainingQty: new BigNumber(orderQty.toString(10)),
+        salt,
+        taker,
+        takerFee
+      });
+    }
+    return orders;
+  }
+
+  /**
+   * Converts a decoded OrderFilled log to an OrderFilledEvent.
+   * @param eventLog                     decoded log, from the chain or the event index
+   * @returns {OrderFilledEvent}
+   * @private
+   */
+  private _toOrderFilledEvent(eventLog: {
+    args: { [argName: string]: string | BigNumber };
+    transactionHash: string;
+    blockNumber: number | null;
+  }): OrderFilledEvent {
+    return {
+      maker: eventLog.args.maker,
+      taker: eventLog.args.taker,
+      feeRecipient: eventLog.args.feeRecipient,
+      filledQty: eventLog.args.filledQty as BigNumber,
+      paidMakerFee: eventLog.args.paidMakerFee as BigNumber,
+      paidTakerFee: eventLog.args.paidTakerFee as BigNumber,
+      price: eventLog.args.price as BigNumber,
+      orderHash: eventLog.args.orderHash as string,
+      blockNumber: eventLog.blockNumber,
+      txHash: eventLog.transactionHash
+    };
+  }
+
+  /**
+   * Fetches transactions, running at most `txLookupConcurrency` lookups at once.
+   * @param {string[]} txHashes           hashes of the transactions
+   * @returns {Promise<Transaction[]>}    the transactions, in the order of the hashes
+   * @private
+   */
+  private async _getTransactionsAsync(txHashes: string[]): Promise<Transaction[]> {
+    const concurrency = this._market.config.txLookupConcurrency || DEFAULT_TX_LOOKUP_CONCURRENCY;
+    const uniqueTxHashes = _.uniq(txHashes);
+    const transactionByTxHash: { [txHash: string]: Transaction } = {};
+
+    let nextIndex = 0;
+    const lookUpNextAsync = async (): Promise<void> => {
+      while (nextIndex < uniqueTxHashes.length) {
+        const txHash = uniqueTxHashes[nextIndex++];
+        transactionByTxHash[txHash] = (await promisify(this._web3.eth.getTransaction, [
+          txHash
+        ])) as Transaction;
+      }
+    };
+    await Promise.all(_.times(Math.min(concurrency, uniqueTxHashes.length), lookUpNextAsync));
+
+    return txHashes.map(txHash => transactionByTxHash[txHash]);
+  }
+
+  /**
+   * Splits a block range into chunks of at most `blockRangeChunkSize` blocks.
+   * @param {number | string} fromBlock          first block of the range, inclusive
+   * @param {number | string} toBlock            last block of the range, inclusive
+   * @returns {Promise<Array<[number, number]>>} first and last block of each chunk
+   * @private
+   */
+  private async _getBlockRangeChunksAsync(
+    fromBlock: number | string,
+    toBlock: number | string
+  ): Promise<Array<[number, number]>> {
+    const chunkSize = this._market.config.blockRangeChunkSize || DEFAULT_BLOCK_RANGE_CHUNK_SIZE;
+    const lastBlock = await this._toBlockNumberAsync(toBlock);
+
+    const chunks: Array<[number, number]> = [];
+    for (
+      let block = await this._toBlockNumberAsync(fromBlock);
+      block <= lastBlock;
+      block += chunkSize
+    ) {
+      chunks.push([block, Math.min(block + chunkSize - 1, lastBlock)]);
+    }
+    return chunks;
+  }
+
+  /**
+   * Gets the collateral balance of a user before a block from its last UpdatedUserBalance log.
+   * Without an index, the chunks before the block are searched from the newest one back.
+   * @param {ContractSet} contractSetWrapper     contracts of the MarketContract
+   * @param {string} marketContractAddress       address of the MarketContract
+   * @param {string} userAddress                 address of the user
+   * @param {number} block                       block before which the balance is read
+   * @returns {Promise<BigNumber>}
+   * @private
+   */
+  private async _getBalanceBeforeBlockAsync(
+    contractSetWrapper: ContractSet,
+    marketContractAddress: string,
+    userAddress: string,
+    block: number
+  ): Promise<BigNumber> {
+    if (block === 0) {
+      return new BigNumber(0);
+    }
+    const indexedBalanceLogs = await this._getIndexedEventLogsAsync(
+      marketContractAddress,
+      'UpdatedUserBalance',
+      0,
+      block - 1
+    );
+    if (indexedBalanceLogs) {
+      const lastIndexedBalanceLog = _.last(
+        indexedBalanceLogs.filter(e => String(e.args.user).toLowerCase() === userAddress)
+      );
+      return lastIndexedBalanceLog
+        ? new BigNumber(lastIndexedBalanceLog.args.balance)
+        : new BigNumber(0);
+    }
+
+    const chunks = await this._getBlockRangeChunksAsync(0, block - 1);
+    for (const [chunkFromBlock, chunkToBlock] of chunks.reverse()) {
+      const balanceLogs = await contractSetWrapper.marketCollateralPool
+        .UpdatedUserBalanceEvent({ user: userAddress })
+        .get({ fromBlock: chunkFromBlock, toBlock: chunkToBlock });
+      const lastBalanceLog = _.last(balanceLogs);
+      if (lastBalanceLog) {
+        return new BigNumber(lastBalanceLog.args.balance);
+      }
+    }
+    return new BigNumber(0);
+  }
+
+  /**
+   * Starts watching the contract emitting an event for new occurrences.
+   * @param {ContractSet} contractSetWrapper  Contracts of the MarketContract
+   * @param {MarketEventName} eventName       Name of the event to watch
+   * @param {MarketEventFilter} filter        Indexed argument values the events must match
+   * @param {OnMarketEventCallback} callback  Called with every matching event
+   * @return {() => Promise<void>}            Function stopping the watcher
+   * @private
+   */
+  private _watchEvent(
+    contractSetWrapper: ContractSet,
+    eventName: MarketEventName,
+    filter: MarketEventFilter,
+    callback: OnMarketEventCallback
+  ): () => Promise<void> {
+    const watchFilter = { fromBlock: 'latest', toBlock: 'latest' };
+    const onEventLog = (
+      err: Error | null,
+      eventLog: {
+        address: string;
+        args: { [argName: string]: string | BigNumber };
+        transactionHash: string;
+        blockNumber: number | null;
+      }
+    ) => {
+      if (err) {
+        callback(err);
+        return;
+      }
+      callback(null, {
+        event: eventName,
+        address: eventLog.address,
+        args: eventLog.args,
+        txHash: eventLog.transactionHash,
+        blockNumber: eventLog.blockNumber
+      });
+    };
+
+    switch (eventName) {
+      case 'OrderFilled':
+        return contractSetWrapper.marketContract
+          .OrderFilledEvent(filter)
+          .watch(watchFilter, onEventLog);
+      case 'OrderCancelled':
+        return contractSetWrapper.marketContract
+          .OrderCancelledEvent(filter)
+          .watch(watchFilter, onEventLog);
+      case 'Error':
+        return contractSetWrapper.marketContract.ErrorEvent(filter).watch(watchFilter, onEventLog);
+      case 'UpdatedUserBalance':
+        return contractSetWrapper.marketCollateralPool
+          .UpdatedUserBalanceEvent(filter)
+          .watch(watchFilter, onEventLog);
+      case 'ContractSettled':
+        return contractSetWrapper.marketContract
+          .ContractSettledEvent(filter)
+          .watch(watchFilter, onEventLog);
+      default:
+        throw new Error(`Unsupported event ${eventName}`);
+    }
+  }
+
+  /**
+   * Builds the cancelOrder transaction of an order.
+   * @param {ContractSet} contractSetWrapper  Contracts of the order's MarketContract
+   * @param {Order} order                     The order you wish to cancel.
+   * @param {BigNumber} cancelQty             The amount of the order that you wish to cancel.
+   * @private
+   */
+  private _getCancelOrderTx(contractSetWrapper: ContractSet, order: Order, cancelQty: BigNumber) {
+    return contractSetWrapper.marketContract.cancelOrderTx(
+      [order.maker, order.taker, order.feeRecipient],
+      [order.makerFee, order.takerFee, order.price, order.expirationTimestamp, order.salt],
+      order.orderQty,
+      cancelQty
+    );
+  }
+
+  /**
+   * Builds the tradeOrder transaction of a signed order.
+   * @param {ContractSet} contractSetWrapper  Contracts of the order's MarketContract
+   * @param {SignedOrder} signedOrder         The signedOrder you wish to fill.
+   * @param {BigNumber} fillQty               The amount of the order that you wish to fill.
+   * @private
+   */
+  private _getTradeOrderTx(
+    contractSetWrapper: ContractSet,
+    signedOrder: SignedOrder,
+    fillQty: BigNumber
+  ) {
+    return contractSetWrapper.marketContract.tradeOrderTx(
+      // orderAddresses
+      [signedOrder.maker, signedOrder.taker, signedOrder.feeRecipient],
+      // unsignedOrderValues
+      [
+        signedOrder.makerFee,
+        signedOrder.takerFee,
+        signedOrder.price,
+        signedOrder.expirationTimestamp,
+        signedOrder.salt
+      ],
+      signedOrder.orderQty,
+      fillQty,
+      signedOrder.ecSignature.v,
+      signedOrder.ecSignature.r,
+      signedOrder.ecSignature.s
+    );
+  }
+
+  /**
+   * Submits the trade of an already validated order.
+   * @param {ContractSet} contractSetWrapper  Contracts of the order's MarketContract
+   * @param {SignedOrder} signedOrder         The signedOrder you wish to fill.
+   * @param {BigNumber} fillQty               The amount of the order that you wish to fill.
+   * @param {ITxParams} txParams              Transaction params of web3.
+   * @return {Promise<OrderTransactionInfo>}  Information about this order transaction.
+   * @private
+   */
+  private async _sendTradeOrderTxAsync(
+    contractSetWrapper: ContractSet,
+    signedOrder: SignedOrder,
+    fillQty: BigNumber,
+    txParams: ITxParams
+  ): Promise<OrderTransactionInfo> {
+    const txHash: string = await this._market.transactionManager.sendTransactionAsync(
+      txParams,
+      managedTxParams =>
+        this._getTradeOrderTx(contractSetWrapper, signedOrder, fillQty).send(managedTxParams)
+    );
+
+    return new OrderTransactionInfo(
+      this._web3,
+      contractSetWrapper.marketContract,
+      signedOrder,
+      txHash
+    );
+  }
+
+  /**
+   * Adds up the collateral and fees every account needs across a batch of trades and returns the
+   * first requirement that isn't met.
+   * @param {SignedOrder[]} signedOrders      The signed orders of the batch.
+   * @param {BigNumber[]} fillQtys            The amount of each order to fill.
+   * @param {string} taker                    Address of the account filling the orders.
+   * @return {Promise<TradeValidationFailure | undefined>}
+   * @private
+   */
+  private async _findBatchFundsFailureAsync(
+    signedOrders: SignedOrder[],
+    fillQtys: BigNumber[],
+    taker: string
+  ): Promise<TradeValidationFailure | undefined> {
+    const mktToken: ERC20 = await this.getERC20TokenContractAsync(
+      this._market.mktTokenContract.address
+    );
+    const neededMktBalance: { [account: string]: BigNumber } = {};
+    const neededMktAllowance: { [account: string]: { [feeRecipient: string]: BigNumber } } = {};
+    const neededCollateral: {
+      [marketContractAddress: string]: { [account: string]: BigNumber };
+    } = {};
+    const addNeed = (needs: { [key: string]: BigNumber }, key: string, amount: BigNumber) => {
+      needs[key] = (needs[key] || new BigNumber(0)).plus(amount);
+    };
+
+    for (let i = 0; i < signedOrders.length; i++) {
+      const signedOrder = signedOrders[i];
+      // the same account can be written checksummed in one order and lowercase in another.
+      const marketContractAddress = signedOrder.contractAddress.toLowerCase();
+      const feeRecipient = signedOrder.feeRecipient.toLowerCase();
+      const sides = [
+        { account: signedOrder.maker.toLowerCase(), fee: signedOrder.makerFee, qty: fillQtys[i] },
+        // opposite direction of the order sign! If i fill a buy order, I am selling / short.
+        { account: taker.toLowerCase(), fee: signedOrder.takerFee, qty: fillQtys[i].times(-1) }
+      ];
+      for (const { account, fee, qty } of sides) {
+        neededMktAllowance[account] = neededMktAllowance[account] || {};
+        neededCollateral[marketContractAddress] = neededCollateral[marketContractAddress] || {};
+        addNeed(neededMktBalance, account, fee);
+        addNeed(neededMktAllowance[account], feeRecipient, fee);
+        addNeed(
+          neededCollateral[marketContractAddress],
+          account,
+          await this.calculateNeededCollateralAsync(
+            signedOrder.contractAddress,
+            qty,
+            signedOrder.price
+          )
+        );
+      }
+    }
+
+    const failures: TradeValidationFailure[] = [];
+    for (const account of Object.keys(neededMktBalance)) {
+      this._pushIfInsufficient(
+        failures,
+        MarketError.InsufficientBalanceForTransfer,
+        account,
+        await mktToken.balanceOf(account),
+        neededMktBalance[account]
+      );
+      for (const feeRecipient of Object.keys(neededMktAllowance[account])) {
+        this._pushIfInsufficient(
+          failures,
+          MarketError.InsufficientAllowanceForTransfer,
+          account,
+          await mktToken.allowance(account, feeRecipient),
+          neededMktAllowance[account][feeRecipient]
+        );
+      }
+    }
+    for (const marketContractAddress of Object.keys(neededCollateral)) {
+      for (const account of Object.keys(neededCollateral[marketContractAddress])) {
+        this._pushIfInsufficient(
+          failures,
+          MarketError.InsufficientCollateralBalance,
+          account,
+          await this.getUserAccountBalanceAsync(marketContractAddress, account),
+          neededCollateral[marketContractAddress][account]
+        );
+      }
+    }
+    return failures[0];
+  }
+
+  /**
+   * Adds a failure to a trade validation report when an amount is lower than the required one.
+   * @param {TradeValidationFailure[]} failures   Failures of the report
+   * @param {MarketError} error                   Error describing the failing condition
+   * @param {string} account                      Address the amount belongs to
+   * @param {BigNumber} actual                    Current amount
+   * @param {BigNumber} required                  Needed amount
+   * @private
+   */
+  private _pushIfInsufficient(
+    failures: TradeValidationFailure[],
+    error: MarketError,
+    account: string,
+    actual: BigNumber,
+    required: BigNumber
+  ): void {
+    const actualAmount = new BigNumber(actual);
+    if (actualAmount.isLessThan(required)) {
+      failures.push({ error, account, actual: actualAmount, required });
+    }
+  }
   // endregion //Private Methods
 }
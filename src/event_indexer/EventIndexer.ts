@@ -0,0 +1,237 @@
+import BigNumber from 'bignumber.js';
+import * as _ from 'lodash';
+import Web3 from 'web3';
+
+// Types
+import { MarketCollateralPool, MarketContract, promisify } from '@marketprotocol/types';
+import { EventIndexerConfig, EventIndexStorage, IndexedEventLog, IndexedEventName } from '../types';
+
+import { assert } from '../assert';
+
+const DEFAULT_REWIND_BLOCKS = 12;
+const DEFAULT_BLOCK_RANGE_CHUNK_SIZE = 5000;
+
+/**
+ * Incrementally syncs the OrderFilled, OrderCancelled and UpdatedUserBalance events of a set of
+ * MarketContracts into an `EventIndexStorage`. Once assigned to `Market.eventIndexer`, fill and
+ * collateral history covered by the index is read from it instead of the chain.
+ */
+export class EventIndexer {
+  // region Members
+  // *****************************************************************
+  // ****                     Members                             ****
+  // *****************************************************************
+  private readonly _web3: Web3;
+  private readonly _storage: EventIndexStorage;
+  private readonly _rewindBlocks: number;
+  private readonly _blockRangeChunkSize: number;
+  private _contractsByMarketContractAddress: {
+    [marketContractAddress: string]: {
+      marketContract: MarketContract;
+      marketCollateralPool?: MarketCollateralPool;
+    };
+  } = {};
+  // endregion // members
+
+  // region Constructors
+  // *****************************************************************
+  // ****                     Constructors                        ****
+  // *****************************************************************
+  /**
+   * Instantiates a new EventIndexer
+   * @param {Web3} web3                       Web3 instance used to fetch events
+   * @param {EventIndexStorage} storage       Storage the events are written to
+   * @param {EventIndexerConfig} config       Optional indexer config
+   */
+  constructor(web3: Web3, storage: EventIndexStorage, config?: EventIndexerConfig) {
+    this._web3 = web3;
+    this._storage = storage;
+
+    const indexerConfig: EventIndexerConfig = config || {};
+    this._rewindBlocks = _.isUndefined(indexerConfig.rewindBlocks)
+      ? DEFAULT_REWIND_BLOCKS
+      : indexerConfig.rewindBlocks;
+    this._blockRangeChunkSize = indexerConfig.blockRangeChunkSize || DEFAULT_BLOCK_RANGE_CHUNK_SIZE;
+  }
+  // endregion//Constructors
+
+  // region Public Methods
+  // *****************************************************************
+  // ****                     Public Methods                      ****
+  // *****************************************************************
+  /**
+   * Adds a MarketContract to the set of indexed contracts. Its events are fetched on the next sync.
+   * @param {string} marketContractAddress   Address of the MarketContract
+   */
+  public addContract(marketContractAddress: string): void {
+    assert.isETHAddressHex('marketContractAddress', marketContractAddress);
+    const normalizedMarketAddress = marketContractAddress.toLowerCase();
+    if (_.isUndefined(this._contractsByMarketContractAddress[normalizedMarketAddress])) {
+      this._contractsByMarketContractAddress[normalizedMarketAddress] = {
+        marketContract: new MarketContract(this._web3, marketContractAddress)
+      };
+    }
+  }
+
+  /**
+   * Removes a MarketContract from the set of indexed contracts. Its stored events are kept.
+   * @param {string} marketContractAddress   Address of the MarketContract
+   */
+  public removeContract(marketContractAddress: string): void {
+    delete this._contractsByMarketContractAddress[marketContractAddress.toLowerCase()];
+  }
+
+  /**
+   * Fetches the events of every indexed contract up to the latest block. The last `rewindBlocks`
+   * synced blocks are fetched again, replacing their stored events.
+   * @returns {Promise<number>}   The last synced block
+   */
+  public async syncAsync(): Promise<number> {
+    const latestBlockNumber = Number(await promisify(this._web3.eth.getBlockNumber, []));
+    for (const marketContractAddress of Object.keys(this._contractsByMarketContractAddress)) {
+      await this._syncContractAsync(marketContractAddress, latestBlockNumber);
+    }
+    return latestBlockNumber;
+  }
+
+  /**
+   * Whether the index holds every event of a contract up to a block.
+   * @param {string} marketContractAddress   Address of the MarketContract
+   * @param {number} toBlock                 Last block that must be covered
+   * @returns {Promise<boolean>}
+   */
+  public async isSyncedAsync(marketContractAddress: string, toBlock: number): Promise<boolean> {
+    if (
+      _.isUndefined(this._contractsByMarketContractAddress[marketContractAddress.toLowerCase()])
+    ) {
+      return false;
+    }
+    const lastSyncedBlock = await this._storage.getLastSyncedBlockAsync(marketContractAddress);
+    return lastSyncedBlock !== null && lastSyncedBlock >= toBlock;
+  }
+
+  /**
+   * Gets the indexed logs of an event in a block range, inclusive, with their numeric args as
+   * BigNumbers.
+   * @param {string} marketContractAddress   Address of the MarketContract
+   * @param {IndexedEventName} eventName     Name of the event
+   * @param {number} fromBlock               First block of the range
+   * @param {number} toBlock                 Last block of the range
+   * @returns {Promise<Array<{args: {}, transactionHash: string, blockNumber: number, logIndex: number}>>}
+   */
+  public async getEventLogsAsync(
+    marketContractAddress: string,
+    eventName: IndexedEventName,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<
+    Array<{
+      args: { [argName: string]: string | BigNumber };
+      transactionHash: string;
+      blockNumber: number;
+      logIndex: number;
+    }>
+  > {
+    const eventLogs = await this._storage.getEventLogsAsync(
+      marketContractAddress,
+      eventName,
+      fromBlock,
+      toBlock
+    );
+    return eventLogs.map(eventLog => ({
+      // addresses and hashes are the only hex args, everything else is a number.
+      args: _.mapValues(
+        eventLog.args,
+        value => (_.startsWith(value, '0x') ? value : new BigNumber(value))
+      ),
+      transactionHash: eventLog.txHash,
+      blockNumber: eventLog.blockNumber,
+      logIndex: eventLog.logIndex
+    }));
+  }
+  // endregion //Public Methods
+
+  // region Private Methods
+  // *****************************************************************
+  // ****                     Private Methods                     ****
+  // *****************************************************************
+  /**
+   * Fetches the events of a contract from the rewound last synced block up to a block.
+   * @param {string} marketContractAddress   Lowercase address of the MarketContract
+   * @param {number} toBlock                 Last block to sync
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async _syncContractAsync(marketContractAddress: string, toBlock: number): Promise<void> {
+    const contracts = this._contractsByMarketContractAddress[marketContractAddress];
+    const marketContract = contracts.marketContract;
+    const marketCollateralPool =
+      contracts.marketCollateralPool ||
+      new MarketCollateralPool(this._web3, await marketContract.MARKET_COLLATERAL_POOL_ADDRESS);
+    contracts.marketCollateralPool = marketCollateralPool;
+
+    const lastSyncedBlock = await this._storage.getLastSyncedBlockAsync(marketContractAddress);
+    // a node behind the last synced block drops the events past its head.
+    const fromBlock =
+      lastSyncedBlock === null
+        ? 0
+        : Math.min(Math.max(0, lastSyncedBlock + 1 - this._rewindBlocks), toBlock + 1);
+    // the removed blocks are no longer synced until they are fetched again, even if that fails.
+    if (lastSyncedBlock !== null) {
+      await this._storage.setLastSyncedBlockAsync(marketContractAddress, fromBlock - 1);
+    }
+    await this._storage.removeEventLogsFromBlockAsync(marketContractAddress, fromBlock);
+
+    for (
+      let chunkFromBlock = fromBlock;
+      chunkFromBlock <= toBlock;
+      chunkFromBlock += this._blockRangeChunkSize
+    ) {
+      const range = {
+        fromBlock: chunkFromBlock,
+        toBlock: Math.min(chunkFromBlock + this._blockRangeChunkSize - 1, toBlock)
+      };
+      const [orderFilledLogs, orderCancelledLogs, updatedUserBalanceLogs] = await Promise.all([
+        marketContract.OrderFilledEvent({}).get(range),
+        marketContract.OrderCancelledEvent({}).get(range),
+        marketCollateralPool.UpdatedUserBalanceEvent({}).get(range)
+      ]);
+
+      await this._storage.addEventLogsAsync(marketContractAddress, [
+        ...orderFilledLogs.map(e => this._toIndexedEventLog('OrderFilled', e)),
+        ...orderCancelledLogs.map(e => this._toIndexedEventLog('OrderCancelled', e)),
+        ...updatedUserBalanceLogs.map(e => this._toIndexedEventLog('UpdatedUserBalance', e))
+      ]);
+      await this._storage.setLastSyncedBlockAsync(marketContractAddress, range.toBlock);
+    }
+  }
+
+  /**
+   * Converts a decoded log to its stored form.
+   * @param {IndexedEventName} eventName     Name of the event
+   * @param eventLog                         Decoded log
+   * @returns {IndexedEventLog}
+   * @private
+   */
+  private _toIndexedEventLog(
+    eventName: IndexedEventName,
+    eventLog: {
+      args: { [argName: string]: string | BigNumber };
+      transactionHash: string;
+      blockNumber: number | null;
+      logIndex: number | null;
+    }
+  ): IndexedEventLog {
+    return {
+      event: eventName,
+      args: _.mapValues(
+        eventLog.args,
+        value => (_.isString(value) ? value : new BigNumber(value).toFixed())
+      ),
+      txHash: eventLog.transactionHash,
+      blockNumber: Number(eventLog.blockNumber),
+      logIndex: Number(eventLog.logIndex)
+    };
+  }
+  // endregion //Private Methods
+}
@@ -0,0 +1,97 @@
+import * as _ from 'lodash';
+
+// Types
+import { EventIndexStorage, IndexedEventLog, IndexedEventName } from '../types';
+
+export interface ContractEventIndex {
+  lastSyncedBlock: number | null;
+  eventLogs: IndexedEventLog[];
+}
+
+/**
+ * Event index storage kept in memory, lost when the process exits.
+ */
+export class InMemoryEventIndexStorage implements EventIndexStorage {
+  // region Members
+  // *****************************************************************
+  // ****                     Members                             ****
+  // *****************************************************************
+  protected _indexByMarketContractAddress: { [marketContractAddress: string]: ContractEventIndex };
+  // endregion // members
+
+  // region Constructors
+  // *****************************************************************
+  // ****                     Constructors                        ****
+  // *****************************************************************
+  constructor() {
+    this._indexByMarketContractAddress = {};
+  }
+  // endregion//Constructors
+
+  // region Public Methods
+  // *****************************************************************
+  // ****                     Public Methods                      ****
+  // *****************************************************************
+  public async getLastSyncedBlockAsync(marketContractAddress: string): Promise<number | null> {
+    return this._getIndex(marketContractAddress).lastSyncedBlock;
+  }
+
+  public async setLastSyncedBlockAsync(
+    marketContractAddress: string,
+    blockNumber: number
+  ): Promise<void> {
+    this._getIndex(marketContractAddress).lastSyncedBlock = blockNumber;
+  }
+
+  public async addEventLogsAsync(
+    marketContractAddress: string,
+    eventLogs: IndexedEventLog[]
+  ): Promise<void> {
+    const index = this._getIndex(marketContractAddress);
+    index.eventLogs = _.sortBy(index.eventLogs.concat(eventLogs), ['blockNumber', 'logIndex']);
+  }
+
+  public async getEventLogsAsync(
+    marketContractAddress: string,
+    eventName: IndexedEventName,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<IndexedEventLog[]> {
+    return this._getIndex(marketContractAddress).eventLogs.filter(
+      eventLog =>
+        eventLog.event === eventName &&
+        eventLog.blockNumber >= fromBlock &&
+        eventLog.blockNumber <= toBlock
+    );
+  }
+
+  public async removeEventLogsFromBlockAsync(
+    marketContractAddress: string,
+    fromBlock: number
+  ): Promise<void> {
+    const index = this._getIndex(marketContractAddress);
+    index.eventLogs = index.eventLogs.filter(eventLog => eventLog.blockNumber < fromBlock);
+  }
+  // endregion //Public Methods
+
+  // region Protected Methods
+  // *****************************************************************
+  // ****                    Protected Methods                    ****
+  // *****************************************************************
+  /**
+   * Gets the index of a contract, creating it when missing.
+   * @param {string} marketContractAddress
+   * @returns {ContractEventIndex}
+   */
+  protected _getIndex(marketContractAddress: string): ContractEventIndex {
+    const normalizedMarketAddress = marketContractAddress.toLowerCase();
+    if (_.isUndefined(this._indexByMarketContractAddress[normalizedMarketAddress])) {
+      this._indexByMarketContractAddress[normalizedMarketAddress] = {
+        lastSyncedBlock: null,
+        eventLogs: []
+      };
+    }
+    return this._indexByMarketContractAddress[normalizedMarketAddress];
+  }
+  // endregion //Protected Methods
+}
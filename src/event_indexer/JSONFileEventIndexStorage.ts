@@ -0,0 +1,78 @@
+// Types
+import { IndexedEventLog } from '../types';
+
+import { InMemoryEventIndexStorage } from './InMemoryEventIndexStorage';
+
+const fs = require('fs');
+
+/**
+ * Event index storage kept in memory and written to a JSON file after every change, so that a
+ * new process can resume syncing where the previous one stopped.
+ */
+export class JSONFileEventIndexStorage extends InMemoryEventIndexStorage {
+  // region Members
+  // *****************************************************************
+  // ****                     Members                             ****
+  // *****************************************************************
+  private readonly _filePath: string;
+  // endregion // members
+
+  // region Constructors
+  // *****************************************************************
+  // ****                     Constructors                        ****
+  // *****************************************************************
+  /**
+   * Instantiates a new JSONFileEventIndexStorage, loading the index stored in the file if it exists.
+   * @param {string} filePath   Path of the JSON file
+   */
+  constructor(filePath: string) {
+    super();
+    this._filePath = filePath;
+    if (fs.existsSync(filePath)) {
+      this._indexByMarketContractAddress = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    }
+  }
+  // endregion//Constructors
+
+  // region Public Methods
+  // *****************************************************************
+  // ****                     Public Methods                      ****
+  // *****************************************************************
+  public async setLastSyncedBlockAsync(
+    marketContractAddress: string,
+    blockNumber: number
+  ): Promise<void> {
+    await super.setLastSyncedBlockAsync(marketContractAddress, blockNumber);
+    this._save();
+  }
+
+  public async addEventLogsAsync(
+    marketContractAddress: string,
+    eventLogs: IndexedEventLog[]
+  ): Promise<void> {
+    await super.addEventLogsAsync(marketContractAddress, eventLogs);
+    this._save();
+  }
+
+  public async removeEventLogsFromBlockAsync(
+    marketContractAddress: string,
+    fromBlock: number
+  ): Promise<void> {
+    await super.removeEventLogsFromBlockAsync(marketContractAddress, fromBlock);
+    this._save();
+  }
+  // endregion //Public Methods
+
+  // region Private Methods
+  // *****************************************************************
+  // ****                     Private Methods                     ****
+  // *****************************************************************
+  /**
+   * Writes the whole index to the file.
+   * @private
+   */
+  private _save(): void {
+    fs.writeFileSync(this._filePath, JSON.stringify(this._indexByMarketContractAddress));
+  }
+  // endregion //Private Methods
+}
@@ -1,5 +1,37 @@
+// must run before the modules that use async iteration are loaded.
+import './polyfills';
+
+import { EventIndexer } from './event_indexer/EventIndexer';
+import { InMemoryEventIndexStorage } from './event_indexer/InMemoryEventIndexStorage';
+import { deserializeOrder, serializeOrder } from './lib/Order';
 import { Utils } from './lib/Utils';
 import { Market } from './Market';
+import { OrderBook } from './order_book/OrderBook';
+import { BatchRemainingFillableCalculator } from './order_watcher/BatchRemainingFillableCalc';
+import { RelayerClient } from './relayer/RelayerClient';
+import { PrivateKeySigner } from './signers/PrivateKeySigner';
+import { ProviderSigner } from './signers/ProviderSigner';
+import { TestSigner } from './signers/TestSigner';
+import { FixedGasPriceStrategy } from './transaction_manager/FixedGasPriceStrategy';
+import { PercentileGasPriceStrategy } from './transaction_manager/PercentileGasPriceStrategy';
+import { ProviderGasPriceStrategy } from './transaction_manager/ProviderGasPriceStrategy';
 import { MARKETProtocolConfig } from './types';
 
-export { Market, Utils, MARKETProtocolConfig };
+export {
+  Market,
+  Utils,
+  MARKETProtocolConfig,
+  serializeOrder,
+  deserializeOrder,
+  FixedGasPriceStrategy,
+  PercentileGasPriceStrategy,
+  ProviderGasPriceStrategy,
+  PrivateKeySigner,
+  ProviderSigner,
+  TestSigner,
+  EventIndexer,
+  InMemoryEventIndexStorage,
+  OrderBook,
+  RelayerClient,
+  BatchRemainingFillableCalculator
+};
@@ -8,6 +8,7 @@ import {
   MarketCollateralPoolFactory,
   MarketContractFactoryOraclize
 } from '@marketprotocol/types';
+import { ContractCall } from '../types';
 
 /**
  * Calls our factory to create a new MarketCollateralPool that is then linked to the supplied
@@ -61,6 +62,54 @@ export async function deployMarketContractOraclizeAsync(
     .send(txParams);
 }
 
+/**
+ * Gets the contract call deployMarketCollateralPoolAsync sends, to estimate or simulate it.
+ * @param {MarketCollateralPoolFactory} marketCollateralPoolFactory
+ * @param {string} marketContractAddress
+ * @returns {ContractCall}
+ */
+export function getDeployMarketCollateralPoolCall(
+  marketCollateralPoolFactory: MarketCollateralPoolFactory,
+  marketContractAddress: string
+): ContractCall {
+  return {
+    to: marketCollateralPoolFactory.address,
+    data: marketCollateralPoolFactory.deployMarketCollateralPoolTx(marketContractAddress).getData()
+  };
+}
+
+/**
+ * Gets the contract call deployMarketContractOraclizeAsync sends, to estimate or simulate it.
+ * @param {MarketContractFactoryOraclize} marketContractFactory
+ * @param {string} contractName
+ * @param {string} collateralTokenAddress
+ * @param {BigNumber[]} contractSpecs
+ * @param {string} oracleDataSource
+ * @param {string} oracleQuery
+ * @returns {ContractCall}
+ */
+export function getDeployMarketContractOraclizeCall(
+  marketContractFactory: MarketContractFactoryOraclize,
+  contractName: string,
+  collateralTokenAddress: string,
+  contractSpecs: BigNumber[],
+  oracleDataSource: string,
+  oracleQuery: string
+): ContractCall {
+  return {
+    to: marketContractFactory.address,
+    data: marketContractFactory
+      .deployMarketContractOraclizeTx(
+        contractName,
+        collateralTokenAddress,
+        contractSpecs,
+        oracleDataSource,
+        oracleQuery
+      )
+      .getData()
+  };
+}
+
 /**
  * Watches for the MarketContractCreatedEvent and attempts to return the new address of the
  * market contract created in the supplied tx Hash.
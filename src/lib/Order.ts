@@ -1,49 +1,169 @@
 import BigNumber from 'bignumber.js';
-import Web3 from 'web3';
+import * as _ from 'lodash';
 
 // Types
 import { Provider } from '@0xproject/types';
 import { ECSignature, Order, OrderLib, SignedOrder } from '@marketprotocol/types';
+import {
+  EIP712TypedData,
+  MarketError,
+  SerializedOrder,
+  SerializedSignedOrder,
+  SignatureScheme,
+  Signer
+} from '../types';
 
-import { Utils } from './Utils';
 import { assert } from '../assert';
+import { constants } from '../constants';
+import { schemas } from '../schemas';
+import { ProviderSigner } from '../signers/ProviderSigner';
 
 let ethUtil = require('ethereumjs-util');
 
+const EIP712_DOMAIN_TYPE = [
+  { name: 'name', type: 'string' },
+  { name: 'version', type: 'string' },
+  { name: 'chainId', type: 'uint256' },
+  { name: 'verifyingContract', type: 'address' }
+];
+
+const EIP712_ORDER_TYPE = [
+  { name: 'contractAddress', type: 'address' },
+  { name: 'maker', type: 'address' },
+  { name: 'taker', type: 'address' },
+  { name: 'feeRecipient', type: 'address' },
+  { name: 'makerFee', type: 'uint256' },
+  { name: 'takerFee', type: 'uint256' },
+  { name: 'price', type: 'uint256' },
+  { name: 'expirationTimestamp', type: 'uint256' },
+  { name: 'salt', type: 'uint256' },
+  { name: 'orderQty', type: 'int256' }
+];
+
 /**
  * Computes the orderHash for a supplied order.
- * @param {OrderLib} orderLib           OrderLib.sol type chain object
+ * @param {OrderLib | null} orderLib    OrderLib.sol type chain object. Pass `null` to compute the
+ *                                      hash off-chain with `createOrderHash`.
  * @param {Order | SignedOrder} order   An object that confirms to the Order interface definitions.
  * @return {Promise<string>}            The resulting orderHash from hashing the supplied order.
  */
 export async function createOrderHashAsync(
-  orderLib: OrderLib,
+  orderLib: OrderLib | null,
   order: Order | SignedOrder
 ): Promise<string> {
-  // below assert statement fails due to issues with BigNumber vs Number.
-  // assert.isSchemaValid('Order', order, schemas.OrderSchema);
-
-  return orderLib
-    .createOrderHash(
-      order.contractAddress,
-      // orderAddresses
-      [order.maker, order.taker, order.feeRecipient],
-      // unsignedOrderValues
-      [order.makerFee, order.takerFee, order.price, order.expirationTimestamp, order.salt],
-      order.orderQty
-    )
-    .then(data => data)
-    .catch((err: Error) => {
-      const error = 'Error while creating order hash';
-      console.error(err);
-      return error;
-    });
+  assert.isSchemaValid('order', serializeOrder(order), schemas.OrderSchema);
+
+  if (!orderLib) {
+    return createOrderHash(order);
+  }
+
+  return orderLib.createOrderHash(
+    order.contractAddress,
+    // orderAddresses
+    [order.maker, order.taker, order.feeRecipient],
+    // unsignedOrderValues
+    [order.makerFee, order.takerFee, order.price, order.expirationTimestamp, order.salt],
+    order.orderQty
+  );
+}
+
+/**
+ * Computes the orderHash for a supplied order without calling the OrderLib contract. The result
+ * is identical to `OrderLib.createOrderHash`, the keccak256 of the solidity packed encoding of
+ * the contract address, the order addresses, the unsigned order values and the order qty.
+ * @param {Order | SignedOrder} order   An object that confirms to the Order interface definitions.
+ * @return {string}                     The resulting orderHash from hashing the supplied order.
+ */
+export function createOrderHash(order: Order | SignedOrder): string {
+  const packedOrder: Buffer = Buffer.concat([
+    _addressToBuffer(order.contractAddress),
+    _addressToBuffer(order.maker),
+    _addressToBuffer(order.taker),
+    _addressToBuffer(order.feeRecipient),
+    _uint256ToBuffer(order.makerFee),
+    _uint256ToBuffer(order.takerFee),
+    _uint256ToBuffer(order.price),
+    _uint256ToBuffer(order.expirationTimestamp),
+    _uint256ToBuffer(order.salt),
+    _int256ToBuffer(order.orderQty)
+  ]);
+  return ethUtil.bufferToHex(ethUtil.sha3(packedOrder));
+}
+
+/**
+ * Builds the EIP712 typed data of an order. The domain is bound to the order's MarketContract and
+ * to the network, so a signature can't be replayed on another contract or chain.
+ * @param {Order | SignedOrder} order   An object that confirms to the Order interface definitions.
+ * @param {number} networkId            id of the network the MarketContract is deployed on
+ * @return {EIP712TypedData}
+ */
+export function createEIP712OrderTypedData(
+  order: Order | SignedOrder,
+  networkId: number
+): EIP712TypedData {
+  return {
+    types: {
+      EIP712Domain: EIP712_DOMAIN_TYPE,
+      Order: EIP712_ORDER_TYPE
+    },
+    primaryType: 'Order',
+    domain: {
+      name: constants.EIP712_DOMAIN_NAME,
+      version: constants.EIP712_DOMAIN_VERSION,
+      chainId: networkId,
+      verifyingContract: order.contractAddress.toLowerCase()
+    },
+    message: {
+      contractAddress: order.contractAddress.toLowerCase(),
+      maker: order.maker.toLowerCase(),
+      taker: order.taker.toLowerCase(),
+      feeRecipient: order.feeRecipient.toLowerCase(),
+      makerFee: _toBN(order.makerFee).toString(10),
+      takerFee: _toBN(order.takerFee).toString(10),
+      price: _toBN(order.price).toString(10),
+      expirationTimestamp: _toBN(order.expirationTimestamp).toString(10),
+      salt: _toBN(order.salt).toString(10),
+      orderQty: _toBN(order.orderQty).toString(10)
+    }
+  };
+}
+
+/**
+ * Computes the EIP712 hash of an order, the digest an EIP712 signature of the order signs.
+ * @param {Order | SignedOrder} order   An object that confirms to the Order interface definitions.
+ * @param {number} networkId            id of the network the MarketContract is deployed on
+ * @return {string}                     The hex encoded EIP712 hash.
+ */
+export function createEIP712OrderHash(order: Order | SignedOrder, networkId: number): string {
+  return hashEIP712TypedData(createEIP712OrderTypedData(order, networkId));
+}
+
+/**
+ * Computes the digest an EIP712 signature of typed data signs:
+ * keccak256("\x19\x01" ‖ domainSeparator ‖ hashStruct(message)).
+ * @param {EIP712TypedData} typedData   Typed data whose types are all atomic types or strings.
+ * @return {string}                     The hex encoded EIP712 hash.
+ */
+export function hashEIP712TypedData(typedData: EIP712TypedData): string {
+  const domainSeparator: Buffer = _hashStruct('EIP712Domain', typedData.types.EIP712Domain, {
+    ...typedData.domain,
+    chainId: String(typedData.domain.chainId)
+  });
+  const messageStructHash: Buffer = _hashStruct(
+    typedData.primaryType,
+    typedData.types[typedData.primaryType],
+    typedData.message
+  );
+  return ethUtil.bufferToHex(
+    ethUtil.sha3(Buffer.concat([Buffer.from('1901', 'hex'), domainSeparator, messageStructHash]))
+  );
 }
 
 /***
  * Creates and signs a new order given the arguments provided
- * @param {Provider} provider               Web3 provider instance.
- * @param {OrderLib} orderLib               OrderLib.sol type chain object
+ * @param {Provider | Signer} signer        Signer of the maker, or a Web3 provider the maker
+ *                                          account is available via.
+ * @param {OrderLib | null} orderLib        OrderLib.sol type chain object, `null` to hash off-chain
  * @param {string} contractAddress          address of the deployed MarketContract.sol
  * @param {BigNumber} expirationTimestamp   unix timestamp
  * @param {string} feeRecipient             address of account to receive fees
@@ -57,13 +177,15 @@ export async function createOrderHashAsync(
  * @param {boolean}  shouldAddPersonalMessagePrefix  Some signers add the personal message prefix
  * `\x19Ethereum Signed Message`themselves (e.g Parity Signer, Ledger, TestRPC) and others expect
  * it to already be done by the client (e.g Metamask). Depending on which signer this request is
- * going to, decide on whether to add the prefix before sending the request.
+ * going to, decide on whether to add the prefix before sending the request. Ignored for EIP712.
+ * @param {SignatureScheme} signatureScheme  scheme to sign the order with, recorded on the order
+ * @param {number} networkId                id of the network, required by the EIP712 scheme
  *
  * @return {Promise<SignedOrder>}
  */
 export async function createSignedOrderAsync(
-  provider: Provider,
-  orderLib: OrderLib,
+  signer: Provider | Signer,
+  orderLib: OrderLib | null,
   contractAddress: string,
   expirationTimestamp: BigNumber,
   feeRecipient: string,
@@ -74,7 +196,9 @@ export async function createSignedOrderAsync(
   orderQty: BigNumber,
   price: BigNumber,
   salt: BigNumber,
-  shouldAddPersonalMessagePrefix: boolean
+  shouldAddPersonalMessagePrefix: boolean,
+  signatureScheme: SignatureScheme = SignatureScheme.EthSign,
+  networkId?: number
 ): Promise<SignedOrder> {
   assert.isETHAddressHex('contractAddress', contractAddress);
 
@@ -92,16 +216,25 @@ export async function createSignedOrderAsync(
     takerFee: takerFee
   };
 
+  if (signatureScheme === SignatureScheme.EIP712) {
+    return {
+      ...order,
+      ecSignature: await signOrderTypedDataAsync(
+        signer,
+        order,
+        _requireNetworkId(networkId),
+        maker
+      ),
+      signatureScheme
+    };
+  }
+
   const orderHash: string = await createOrderHashAsync(orderLib, order);
 
   const signedOrder: SignedOrder = {
     ...order,
-    ecSignature: await signOrderHashAsync(
-      provider,
-      orderHash,
-      maker,
-      shouldAddPersonalMessagePrefix
-    )
+    ecSignature: await signOrderHashAsync(signer, orderHash, maker, shouldAddPersonalMessagePrefix),
+    signatureScheme
   };
 
   return signedOrder;
@@ -109,16 +242,25 @@ export async function createSignedOrderAsync(
 
 /**
  * Confirms a signed order is validly signed
- * @param {OrderLib} orderLib
+ * @param {OrderLib | null} orderLib  OrderLib.sol type chain object. Pass `null` to verify the
+ *                                    signature off-chain with `isValidSignature`. OrderLib only
+ *                                    recovers eth_sign signatures, EIP712 signatures are always
+ *                                    verified off-chain.
  * @param {SignedOrder} signedOrder
  * @param {string} orderHash
+ * @param {number} networkId          id of the network, required by the EIP712 scheme
  * @return {Promise<boolean>}         if order hash and signature resolve to maker address (signer)
  */
 export async function isValidSignatureAsync(
-  orderLib: OrderLib,
+  orderLib: OrderLib | null,
   signedOrder: SignedOrder,
-  orderHash: string
+  orderHash: string,
+  networkId?: number
 ): Promise<boolean> {
+  if (!orderLib || signedOrder.signatureScheme === SignatureScheme.EIP712) {
+    return isValidSignature(signedOrder, orderHash, networkId);
+  }
+
   return orderLib.isValidSignature(
     signedOrder.maker,
     orderHash,
@@ -128,29 +270,152 @@ export async function isValidSignatureAsync(
   );
 }
 
+/**
+ * Confirms a signed order is validly signed without calling the OrderLib contract. Like
+ * `OrderLib.isValidSignature`, the orderHash is prefixed with the personal message prefix before
+ * the signer is recovered. EIP712 signatures are recovered from the EIP712 hash of the order.
+ * @param {SignedOrder} signedOrder
+ * @param {string} orderHash
+ * @param {number} networkId          id of the network, required by the EIP712 scheme
+ * @return {boolean}                  if order hash and signature resolve to maker address (signer)
+ */
+export function isValidSignature(
+  signedOrder: SignedOrder,
+  orderHash: string,
+  networkId?: number
+): boolean {
+  const msgHashBuff =
+    signedOrder.signatureScheme === SignatureScheme.EIP712
+      ? ethUtil.toBuffer(createEIP712OrderHash(signedOrder, _requireNetworkId(networkId)))
+      : ethUtil.hashPersonalMessage(ethUtil.toBuffer(orderHash));
+  try {
+    const publicKey = ethUtil.ecrecover(
+      msgHashBuff,
+      signedOrder.ecSignature.v,
+      ethUtil.toBuffer(signedOrder.ecSignature.r),
+      ethUtil.toBuffer(signedOrder.ecSignature.s)
+    );
+    const signerAddress: string = ethUtil.bufferToHex(ethUtil.pubToAddress(publicKey));
+    return signerAddress === signedOrder.maker.toLowerCase();
+  } catch (err) {
+    // malformed signatures can't be recovered and are therefore invalid.
+    return false;
+  }
+}
+
+/**
+ * Converts an order to its JSON safe form. Numbers are written as base 10 strings, so they survive
+ * `JSON.stringify` without losing precision.
+ * @param {Order | SignedOrder} order   The order to serialize.
+ * @return {SerializedOrder | SerializedSignedOrder}
+ */
+export function serializeOrder(order: SignedOrder): SerializedSignedOrder;
+export function serializeOrder(order: Order): SerializedOrder;
+export function serializeOrder(
+  order: Order | SignedOrder
+): SerializedOrder | SerializedSignedOrder {
+  const serializedOrder: SerializedOrder = {
+    version: constants.ORDER_SERIALIZATION_VERSION,
+    contractAddress: order.contractAddress,
+    expirationTimestamp: _serializeNumber(order.expirationTimestamp),
+    feeRecipient: order.feeRecipient,
+    maker: order.maker,
+    makerFee: _serializeNumber(order.makerFee),
+    orderQty: _serializeNumber(order.orderQty),
+    price: _serializeNumber(order.price),
+    remainingQty: _.isUndefined(order.remainingQty)
+      ? undefined
+      : _serializeNumber(order.remainingQty),
+    salt: _serializeNumber(order.salt),
+    taker: order.taker,
+    takerFee: _serializeNumber(order.takerFee)
+  };
+  if (!_isSignedOrder(order)) {
+    return _.omitBy(serializedOrder, _.isUndefined) as SerializedOrder;
+  }
+  return _.omitBy(
+    {
+      ...serializedOrder,
+      ecSignature: { ...order.ecSignature },
+      signatureScheme: order.signatureScheme
+    },
+    _.isUndefined
+  ) as SerializedSignedOrder;
+}
+
+/**
+ * Converts the JSON safe form of an order back to an order, after validating it against the
+ * order schemas.
+ * @param {SerializedOrder | SerializedSignedOrder} serializedOrder   The serialized order.
+ * @return {Order | SignedOrder}
+ */
+export function deserializeOrder(serializedOrder: SerializedSignedOrder): SignedOrder;
+export function deserializeOrder(serializedOrder: SerializedOrder): Order;
+export function deserializeOrder(
+  serializedOrder: SerializedOrder | SerializedSignedOrder
+): Order | SignedOrder {
+  assert.assert(
+    serializedOrder.version === constants.ORDER_SERIALIZATION_VERSION,
+    `Unsupported order serialization version ${serializedOrder.version}`
+  );
+  const isSignedOrder = !_.isUndefined((serializedOrder as SerializedSignedOrder).ecSignature);
+  assert.isSchemaValid(
+    'serializedOrder',
+    serializedOrder,
+    isSignedOrder ? schemas.SignedOrderSchema : schemas.OrderSchema
+  );
+
+  const order: Order = {
+    contractAddress: serializedOrder.contractAddress,
+    expirationTimestamp: new BigNumber(serializedOrder.expirationTimestamp),
+    feeRecipient: serializedOrder.feeRecipient,
+    maker: serializedOrder.maker,
+    makerFee: new BigNumber(serializedOrder.makerFee),
+    orderQty: new BigNumber(serializedOrder.orderQty),
+    price: new BigNumber(serializedOrder.price),
+    remainingQty: new BigNumber(
+      _.isUndefined(serializedOrder.remainingQty)
+        ? serializedOrder.orderQty
+        : serializedOrder.remainingQty
+    ),
+    salt: new BigNumber(serializedOrder.salt),
+    taker: serializedOrder.taker,
+    takerFee: new BigNumber(serializedOrder.takerFee)
+  };
+  if (!isSignedOrder) {
+    return order;
+  }
+  const serializedSignedOrder = serializedOrder as SerializedSignedOrder;
+  return _.omitBy(
+    {
+      ...order,
+      ecSignature: { ...serializedSignedOrder.ecSignature },
+      signatureScheme: serializedSignedOrder.signatureScheme
+    },
+    _.isUndefined
+  ) as SignedOrder;
+}
+
 /**
  * Signs an orderHash and returns it's elliptic curve signature.
- * @param   provider        Web3 provider instance.
+ * @param   signer          Signer of the account, or a Web3 provider the account is available via.
  * @param   orderHash       Hex encoded orderHash to sign.
  * @param   signerAddress   The hex encoded Ethereum address you wish to sign it with. This address
- *          must be available via the Provider supplied to MARKET.js.
+ *          must be available via the Provider supplied to MARKET.js, or be the address of the Signer.
  * @param   shouldAddPersonalMessagePrefix  Some signers add the personal message prefix `\x19Ethereum Signed Message`
- *          themselves (e.g Parity Signer, Ledger, TestRPC) and others expect it to already be done by the client
- *          (e.g Metamask). Depending on which signer this request is going to, decide on whether to add the prefix
- *          before sending the request.
+ *          themselves (e.g Parity Signer, Ledger, TestRPC, PrivateKeySigner) and others expect it to already be done
+ *          by the client (e.g Metamask). Depending on which signer this request is going to, decide on whether to add
+ *          the prefix before sending the request.
  * @return  An object containing the Elliptic curve signature parameters generated by signing the orderHash.
  */
 export async function signOrderHashAsync(
-  provider: Provider,
+  signer: Provider | Signer,
   orderHash: string,
   signerAddress: string,
   shouldAddPersonalMessagePrefix: boolean
 ): Promise<ECSignature> {
   assert.isETHAddressHex('signerAddress', signerAddress);
 
-  const web3: Web3 = new Web3();
-  web3.setProvider(provider);
-
   let msgHashHex = orderHash;
   if (shouldAddPersonalMessagePrefix) {
     const orderHashBuff = ethUtil.toBuffer(orderHash);
@@ -158,5 +423,147 @@ export async function signOrderHashAsync(
     msgHashHex = ethUtil.bufferToHex(msgHashBuff);
   }
 
-  return Utils.signMessage(web3, signerAddress, msgHashHex);
+  return (await _getSignerAsync(signer, signerAddress)).signMessageAsync(msgHashHex);
+}
+
+/**
+ * Signs the EIP712 typed data of an order and returns its elliptic curve signature.
+ * @param {Provider | Signer} signer    Signer of the account, or a Web3 provider the account is
+ *                                      available via.
+ * @param {Order} order                 The order to sign.
+ * @param {number} networkId            id of the network the MarketContract is deployed on
+ * @param {string} signerAddress        The hex encoded Ethereum address you wish to sign it with.
+ *                                      This address must be available via the Provider supplied to
+ *                                      MARKET.js, or be the address of the Signer.
+ * @return {Promise<ECSignature>}       An object containing the Elliptic curve signature parameters.
+ */
+export async function signOrderTypedDataAsync(
+  signer: Provider | Signer,
+  order: Order,
+  networkId: number,
+  signerAddress: string
+): Promise<ECSignature> {
+  assert.isETHAddressHex('signerAddress', signerAddress);
+
+  return (await _getSignerAsync(signer, signerAddress)).signTypedDataAsync(
+    createEIP712OrderTypedData(order, networkId)
+  );
+}
+
+/**
+ * Gets the Signer of an account. Providers are wrapped in a ProviderSigner, Signers must sign for
+ * the account.
+ * @param {Provider | Signer} signer
+ * @param {string} signerAddress
+ * @return {Promise<Signer>}
+ */
+async function _getSignerAsync(signer: Provider | Signer, signerAddress: string): Promise<Signer> {
+  if (!_.isFunction((signer as Signer).signMessageAsync)) {
+    return new ProviderSigner(signer as Provider, signerAddress);
+  }
+  const address = await (signer as Signer).getAddressAsync();
+  if (address.toLowerCase() !== signerAddress.toLowerCase()) {
+    return Promise.reject(new Error(MarketError.SignerAddressMismatch));
+  }
+  return signer as Signer;
+}
+
+/**
+ * Whether an order carries a signature.
+ * @param {Order | SignedOrder} order
+ * @return {boolean}
+ */
+function _isSignedOrder(order: Order | SignedOrder): order is SignedOrder {
+  return !_.isUndefined((order as SignedOrder).ecSignature);
+}
+
+/**
+ * Writes a number as a base 10 string without exponent.
+ * @param {BigNumber} value
+ * @return {string}
+ */
+function _serializeNumber(value: BigNumber): string {
+  return new BigNumber(value).toFixed();
+}
+
+/**
+ * Asserts the network id the EIP712 scheme needs for its domain is known.
+ * @param {number | undefined} networkId
+ * @return {number}
+ */
+function _requireNetworkId(networkId?: number): number {
+  assert.assert(!_.isUndefined(networkId), 'networkId is required to use EIP712 signatures');
+  return networkId as number;
+}
+
+/**
+ * Encodes an address the way solidity's abi.encodePacked does (20 bytes).
+ * @param {string} address
+ * @return {Buffer}
+ */
+function _addressToBuffer(address: string): Buffer {
+  return ethUtil.setLengthLeft(ethUtil.toBuffer(address), 20);
+}
+
+/**
+ * Encodes an unsigned value the way solidity's abi.encodePacked does (32 bytes, big endian).
+ * Values are rounded like web3 does when it sends them to the contract.
+ * @param {BigNumber} value
+ * @return {Buffer}
+ */
+function _uint256ToBuffer(value: BigNumber): Buffer {
+  return ethUtil.setLengthLeft(ethUtil.toBuffer(_toBN(value)), 32);
+}
+
+/**
+ * Encodes a signed value the way solidity's abi.encodePacked does (32 bytes, two's complement).
+ * @param {BigNumber} value
+ * @return {Buffer}
+ */
+function _int256ToBuffer(value: BigNumber): Buffer {
+  return ethUtil.setLengthLeft(ethUtil.toUnsigned(_toBN(value)), 32);
+}
+
+/**
+ * Converts a BigNumber to the BN type used by ethereumjs-util.
+ * @param {BigNumber} value
+ * @return {BN}
+ */
+function _toBN(value: BigNumber) {
+  return new ethUtil.BN(new BigNumber(value).integerValue(BigNumber.ROUND_HALF_UP).toFixed(), 10);
+}
+
+/**
+ * Computes the EIP712 hashStruct of a struct whose fields are all atomic types or strings.
+ * @param {string} typeName                                 name of the struct type
+ * @param {Array<{name: string, type: string}>} fields     fields of the struct type
+ * @param {{}} values                                       field values, numbers as decimal strings
+ * @return {Buffer}
+ */
+function _hashStruct(
+  typeName: string,
+  fields: Array<{ name: string; type: string }>,
+  values: { [fieldName: string]: string }
+): Buffer {
+  const encodedType = `${typeName}(${fields
+    .map(field => `${field.type} ${field.name}`)
+    .join(',')})`;
+  const encodedValues: Buffer[] = fields.map(field => {
+    const value = values[field.name];
+    switch (field.type) {
+      case 'string':
+        return ethUtil.sha3(Buffer.from(value, 'utf8'));
+      case 'address':
+        return ethUtil.setLengthLeft(ethUtil.toBuffer(value), 32);
+      case 'uint256':
+        return ethUtil.setLengthLeft(ethUtil.toBuffer(new ethUtil.BN(value, 10)), 32);
+      case 'int256':
+        return ethUtil.setLengthLeft(ethUtil.toUnsigned(new ethUtil.BN(value, 10)), 32);
+      default:
+        throw new Error(`Unsupported EIP712 field type ${field.type}`);
+    }
+  });
+  return ethUtil.sha3(
+    Buffer.concat([ethUtil.sha3(Buffer.from(encodedType, 'utf8')), ...encodedValues])
+  );
 }
@@ -1,14 +1,19 @@
 import BigNumber from 'bignumber.js';
+import Web3 from 'web3';
 
 import { MarketContract, Order } from '@marketprotocol/types';
 import { MarketError } from '../types';
 
+import { TransactionInfo } from './TransactionInfo';
+
 /***
  * OrderTransactionInfo fetches and hold all the necessary information about
  * a transaction and its order that has been posted through a market contract.
  *
+ * On top of following the transaction, it reads the fill, cancel and Error events of the block it
+ * was mined in.
  */
-export class OrderTransactionInfo {
+export class OrderTransactionInfo extends TransactionInfo {
   // region Members
   // *****************************************************************
   // ****                     Members                             ****
@@ -16,12 +21,8 @@ export class OrderTransactionInfo {
   static readonly ORDER_EXPIRED_CODE = '0';
   static readonly ORDER_DEAD_CODE = '1';
 
-  readonly txHash: string;
-
   private readonly _marketContract: MarketContract;
   private readonly _order: Order;
-  private _fromBlockNumber?: number = 0;
-  private _toBlockNumber?: number | string;
 
   // endregion // Members
 
@@ -31,23 +32,25 @@ export class OrderTransactionInfo {
   // *****************************************************************
   /***
    * Creates a OrderTransactionInfo object with the specified params
+   * @param {Web3} web3                       Web3 instance the transaction was sent through
    * @param {MarketContract} marketContract   MarketContract for order
    * @param {Order} order                     Order with info to be tracked
    * @param {string} txHash                   Hash of transaction in question
-   * @param {number} blockNumber              blockNumber to filter events on
+   * @param {number} pollingIntervalMs        How often to poll the node while waiting
+   * @param {number} droppedAfterMs           How long the node must not know the transaction
+   *                                          before it is taken as dropped
    */
   public constructor(
+    web3: Web3,
     marketContract: MarketContract,
     order: Order,
     txHash: string,
-    blockNumber?: number
+    pollingIntervalMs?: number,
+    droppedAfterMs?: number
   ) {
+    super(web3, txHash, pollingIntervalMs, droppedAfterMs);
     this._marketContract = marketContract;
     this._order = order;
-    this.txHash = txHash;
-    // TODO: setup watcher for blockNumber based on txHash
-    this._fromBlockNumber = blockNumber ? blockNumber : 0;
-    this._toBlockNumber = blockNumber ? blockNumber : 'latest';
   }
 
   // endregion // Constructors
@@ -58,164 +61,67 @@ export class OrderTransactionInfo {
   // *****************************************************************
 
   /***
-   * Fetches filled quantity for this order.
+   * Fetches filled quantity for this order, from the block the transaction was mined in.
+   * Rejects when the transaction reverted, was not mined or the contract emitted an Error event.
    * @returns {Promise<BigNumber>}
    */
   get filledQtyAsync(): Promise<BigNumber> {
     return (async () => {
-      let stopEventWatcher = async () => {
-        return;
-      }; // pre-initialized to prevent NPE checks :)
-
-      try {
-        const fillQty = await Promise.race([
-          this._fetchOrWatchForFilledQty(stopEventWatcher),
-          this._watchForError()
-        ]);
-        return fillQty;
-      } catch (err) {
-        await stopEventWatcher(); // cleanup, prevent further watching
-        return Promise.reject(err);
-      }
+      const blockNumber = await this._getExecutedBlockNumberAsync();
+      const eventLogs = await this._marketContract
+        .OrderFilledEvent({ maker: this._order.maker })
+        .get({ fromBlock: blockNumber, toBlock: blockNumber });
+      const foundEvent = eventLogs.find(eventLog => eventLog.transactionHash === this.txHash);
+      return new BigNumber(foundEvent ? foundEvent.args.filledQty : 0);
     })();
   }
 
   /***
-   * Fetches cancelled quantity for this order
+   * Fetches cancelled quantity for this order, from the block the transaction was mined in.
+   * Rejects when the transaction reverted, was not mined or the contract emitted an Error event.
    * @returns {Promise<BigNumber>}
    */
   get cancelledQtyAsync(): Promise<BigNumber> {
     return (async () => {
-      let stopEventWatcher = async () => {
-        return;
-      }; // pre-initialized to prevent NPE checks :)
-
-      try {
-        const cancelledQty = await Promise.race([
-          this._fetchOrWatchForCancelledQty(stopEventWatcher),
-          this._watchForError()
-        ]);
-        return cancelledQty;
-      } catch (err) {
-        await stopEventWatcher(); // cleanup, prevent further watching
-        return Promise.reject(err);
-      }
+      const blockNumber = await this._getExecutedBlockNumberAsync();
+      // TODO: we can further filter the below event by orderHash!
+      const eventLogs = await this._marketContract
+        .OrderCancelledEvent({ maker: this._order.maker })
+        .get({ fromBlock: blockNumber, toBlock: blockNumber });
+      const foundEvent = eventLogs.find(eventLog => eventLog.transactionHash === this.txHash);
+      return new BigNumber(foundEvent ? foundEvent.args.cancelledQty : 0);
     })();
   }
 
   // endregion // Public Methods
-  // region Private Methods
+  // region Protected Methods
   // *****************************************************************
-  // ****                     Private Methods                     ****
+  // ****                     Protected Methods                   ****
   // *****************************************************************
 
   /***
-   * Tries to fetch filledQty for this Order.
-   * If nothing found, watches for when it is found.
-   *
-   * @param {() => Promise<void>} stopWatcher stop watching for filled Qty
-   * @returns {Promise<BigNumber>}
-   * @private
+   * Finds the Error event the MarketContract emitted for the transaction.
+   * @param {number} blockNumber   block the transaction was mined in
+   * @returns {Promise<MarketError | null>}
+   * @protected
    */
-  private _fetchOrWatchForFilledQty(stopWatcher: () => Promise<void>): Promise<BigNumber> {
-    return new Promise<BigNumber>(async (resolve, reject) => {
-      const watchFilter = { fromBlock: this._fromBlockNumber, toBlock: this._toBlockNumber };
-      const orderEvent = this._marketContract.OrderFilledEvent({ maker: this._order.maker });
-
-      // try fetching event
-      const eventLogs = await orderEvent.get(watchFilter);
-      let foundEvent = eventLogs.find(eventLog => eventLog.transactionHash === this.txHash);
-      if (foundEvent) {
-        resolve(new BigNumber(foundEvent.args.filledQty));
-        return;
-      }
-
-      // watch for event
-      stopWatcher = orderEvent.watch(watchFilter, (err, eventLog) => {
-        if (err) {
-          console.log(err);
-        }
-
-        if (eventLog.transactionHash === this.txHash) {
-          stopWatcher()
-            .then(function() {
-              return resolve(new BigNumber(eventLog.args.filledQty));
-            })
-            .catch(reject);
-        }
-      });
-    });
-  }
-
-  /***
-   * Tries to fetch cancelled for this Order. If nothing found, watches for when it is found.
-   * @param {() => Promise<void>} stopWatcher stop watching for cancelled Qty
-   * @returns {Promise<BigNumber>}
-   * @private
-   */
-  private _fetchOrWatchForCancelledQty(stopWatcher: () => Promise<void>): Promise<BigNumber> {
-    return new Promise<BigNumber>(async (resolve, reject) => {
-      const watchFilter = { fromBlock: this._fromBlockNumber, toBlock: this._toBlockNumber };
-      // TODO: we can further filter the below event by orderHash!
-      const orderEvent = this._marketContract.OrderCancelledEvent({ maker: this._order.maker });
-
-      // try fetching event
-      const eventLogs = await orderEvent.get(watchFilter);
-      let foundEvent = eventLogs.find(eventLog => eventLog.transactionHash === this.txHash);
-      if (foundEvent) {
-        resolve(new BigNumber(foundEvent.args.cancelledQty));
-        return;
-      }
-
-      // watch for event
-      stopWatcher = orderEvent.watch(watchFilter, (err, eventLog) => {
-        if (err) {
-          console.log(err);
-        }
-
-        if (eventLog.transactionHash === this.txHash) {
-          stopWatcher()
-            .then(function() {
-              return resolve(new BigNumber(eventLog.args.cancelledQty));
-            })
-            .catch(reject);
-        }
-      });
-    });
-  }
-
-  /***
-   * Error event watcher
-   * @returns {Promise<BigNumber>}
-   * @private
-   */
-  private _watchForError(): Promise<BigNumber> {
-    return new Promise((_, reject) => {
-      const errorEvent = this._marketContract.ErrorEvent({});
-
-      const stopErrorEventWatcher = errorEvent.watch(
-        { fromBlock: this._fromBlockNumber, toBlock: this._toBlockNumber },
-        (err, eventLog) => {
-          if (err) {
-            console.log(err);
-          }
-
-          if (eventLog.transactionHash === this.txHash) {
-            stopErrorEventWatcher()
-              .then(() => {
-                switch (eventLog.args.errorCode.toString()) {
-                  case OrderTransactionInfo.ORDER_EXPIRED_CODE:
-                    return reject(new Error(MarketError.OrderExpired));
-                  case OrderTransactionInfo.ORDER_DEAD_CODE:
-                    return reject(new Error(MarketError.OrderDead));
-                  default:
-                    return reject(new Error(MarketError.UnknownOrderError));
-                }
-              })
-              .catch(reject);
-          }
-        }
-      );
-    });
+  protected async _getErrorEventAsync(blockNumber: number): Promise<MarketError | null> {
+    const eventLogs = await this._marketContract
+      .ErrorEvent({})
+      .get({ fromBlock: blockNumber, toBlock: blockNumber });
+    const foundEvent = eventLogs.find(eventLog => eventLog.transactionHash === this.txHash);
+    if (!foundEvent) {
+      return null;
+    }
+
+    switch (foundEvent.args.errorCode.toString()) {
+      case OrderTransactionInfo.ORDER_EXPIRED_CODE:
+        return MarketError.OrderExpired;
+      case OrderTransactionInfo.ORDER_DEAD_CODE:
+        return MarketError.OrderDead;
+      default:
+        return MarketError.UnknownOrderError;
+    }
   }
+  // endregion // Protected Methods
 }
@@ -0,0 +1,310 @@
+import BigNumber from 'bignumber.js';
+import Web3 from 'web3';
+
+import { promisify } from '@marketprotocol/types';
+import { MarketError, TransactionOutcome, TransactionStatus } from '../types';
+
+import { Utils } from './Utils';
+
+const DEFAULT_POLLING_INTERVAL_MS = 1000;
+const DEFAULT_DROPPED_AFTER_MS = 2 * 60 * 1000;
+
+/***
+ * TransactionInfo follows a sent transaction until it is mined, dropped or replaced, and counts
+ * its confirmations.
+ */
+export class TransactionInfo {
+  // region Members
+  // *****************************************************************
+  // ****                     Members                             ****
+  // *****************************************************************
+  readonly txHash: string;
+
+  private readonly _web3: Web3;
+  private readonly _pollingIntervalMs: number;
+  private readonly _droppedAfterMs: number;
+  private _transaction: Web3.Transaction | null = null;
+  private _receipt: Web3.TransactionReceipt | null = null;
+  private _lastKnownMs: number;
+
+  // endregion // Members
+
+  // region Constructors
+  // *****************************************************************
+  // ****                     Constructors                        ****
+  // *****************************************************************
+  /***
+   * Creates a TransactionInfo object with the specified params
+   * @param {Web3} web3                  Web3 instance the transaction was sent through
+   * @param {string} txHash              Hash of transaction in question
+   * @param {number} pollingIntervalMs   How often to poll the node while waiting
+   * @param {number} droppedAfterMs      How long the node must not know the transaction before it
+   *                                     is taken as dropped
+   */
+  public constructor(
+    web3: Web3,
+    txHash: string,
+    pollingIntervalMs: number = DEFAULT_POLLING_INTERVAL_MS,
+    droppedAfterMs: number = DEFAULT_DROPPED_AFTER_MS
+  ) {
+    this._web3 = web3;
+    this.txHash = txHash;
+    this._pollingIntervalMs = pollingIntervalMs;
+    this._droppedAfterMs = droppedAfterMs;
+    // a transaction that was just sent may not have reached the node yet.
+    this._lastKnownMs = Date.now();
+  }
+
+  // endregion // Constructors
+
+  // region Public Methods
+  // *****************************************************************
+  // ****                     Public Methods                      ****
+  // *****************************************************************
+
+  /***
+   * Waits for the receipt of the transaction.
+   * Rejects when the transaction is dropped or replaced instead of mined.
+   * @returns {Promise<Web3.TransactionReceipt>}
+   */
+  get receiptAsync(): Promise<Web3.TransactionReceipt> {
+    return (async () => {
+      const status = await this._waitUntilNotPendingAsync();
+      if (status === TransactionStatus.Dropped) {
+        return Promise.reject(new Error(MarketError.TransactionDropped));
+      }
+      if (status === TransactionStatus.Replaced) {
+        return Promise.reject(new Error(MarketError.TransactionReplaced));
+      }
+      return this._receipt as Web3.TransactionReceipt;
+    })();
+  }
+
+  /***
+   * Gets the current status of the transaction without waiting.
+   * Nodes behind a load balancer may not know a pending transaction on every request, so it is
+   * only taken as dropped once the node did not know it for `droppedAfterMs`, whether it was seen
+   * before or never.
+   * @returns {Promise<TransactionStatus>}
+   */
+  public async getStatusAsync(): Promise<TransactionStatus> {
+    if (await this._fetchReceiptAsync()) {
+      return this._getMinedStatus();
+    }
+
+    const transaction: Web3.Transaction | null = await promisify(this._web3.eth.getTransaction, [
+      this.txHash
+    ]);
+    if (transaction) {
+      this._transaction = transaction;
+      this._lastKnownMs = Date.now();
+    }
+    const isDropped = !transaction && Date.now() - this._lastKnownMs >= this._droppedAfterMs;
+    if (!this._transaction) {
+      // never seen, the node might not have received it yet.
+      return isDropped ? TransactionStatus.Dropped : TransactionStatus.Pending;
+    }
+
+    const minedNonce = Number(
+      await promisify(this._web3.eth.getTransactionCount, [this._transaction.from, 'latest'])
+    );
+    if (minedNonce > this._transaction.nonce) {
+      // the nonce might have been used by this very transaction since its receipt was fetched.
+      if (await this._fetchReceiptAsync()) {
+        return this._getMinedStatus();
+      }
+      return TransactionStatus.Replaced;
+    }
+    return isDropped ? TransactionStatus.Dropped : TransactionStatus.Pending;
+  }
+
+  /***
+   * Gets the number of blocks mined on top of the block of the transaction, that block included.
+   * @returns {Promise<number>}   0 while the transaction is not mined
+   */
+  public async getConfirmationsAsync(): Promise<number> {
+    const receipt = await this._fetchReceiptAsync();
+    if (!receipt) {
+      return 0;
+    }
+    const latestBlockNumber = Number(await promisify(this._web3.eth.getBlockNumber, []));
+    return Math.max(latestBlockNumber - receipt.blockNumber + 1, 0);
+  }
+
+  /***
+   * Waits until the transaction is mined and confirmed by a number of blocks, or until it is
+   * dropped or replaced.
+   * @param {number} confirmations   Number of blocks to wait for, the block of the transaction included
+   * @returns {Promise<TransactionOutcome>}
+   */
+  public async waitForConfirmationsAsync(confirmations: number = 1): Promise<TransactionOutcome> {
+    while (true) {
+      const status = await this._waitUntilNotPendingAsync();
+      if (
+        status === TransactionStatus.Dropped ||
+        status === TransactionStatus.Replaced ||
+        (await this.getConfirmationsAsync()) >= confirmations
+      ) {
+        return this.getOutcomeAsync();
+      }
+      await this._sleepAsync();
+    }
+  }
+
+  /***
+   * Waits until the transaction is no longer pending and describes what became of it: whether it
+   * was mined or reverted, the gas it used and the error the contract reported, if any.
+   * @returns {Promise<TransactionOutcome>}
+   */
+  public async getOutcomeAsync(): Promise<TransactionOutcome> {
+    const status = await this._waitUntilNotPendingAsync();
+    if (status === TransactionStatus.Dropped || status === TransactionStatus.Replaced) {
+      return { txHash: this.txHash, status, confirmations: 0 };
+    }
+
+    const receipt = this._receipt as Web3.TransactionReceipt;
+    const outcome: TransactionOutcome = {
+      txHash: this.txHash,
+      status,
+      blockNumber: receipt.blockNumber,
+      confirmations: await this.getConfirmationsAsync(),
+      gasUsed: new BigNumber(receipt.gasUsed)
+    };
+    if (status === TransactionStatus.Reverted) {
+      const revertReason = await this._getRevertReasonAsync(receipt);
+      if (revertReason) {
+        outcome.revertReason = revertReason;
+      }
+    } else {
+      const error = await this._getErrorEventAsync(receipt.blockNumber);
+      if (error) {
+        outcome.error = error;
+      }
+    }
+    return outcome;
+  }
+
+  // endregion // Public Methods
+  // region Protected Methods
+  // *****************************************************************
+  // ****                     Protected Methods                   ****
+  // *****************************************************************
+
+  /***
+   * Waits for the transaction to be mined and checks it was executed without errors.
+   * @returns {Promise<number>}   the block the transaction was mined in
+   * @protected
+   */
+  protected async _getExecutedBlockNumberAsync(): Promise<number> {
+    const receipt = await this.receiptAsync;
+    if (this._getMinedStatus() === TransactionStatus.Reverted) {
+      return Promise.reject(new Error(MarketError.TransactionReverted));
+    }
+    const error = await this._getErrorEventAsync(receipt.blockNumber);
+    if (error) {
+      return Promise.reject(new Error(error));
+    }
+    return receipt.blockNumber;
+  }
+
+  /***
+   * Finds the error the contract reported for the executed transaction, none by default.
+   * @param {number} blockNumber   block the transaction was mined in
+   * @returns {Promise<MarketError | null>}
+   * @protected
+   */
+  protected async _getErrorEventAsync(blockNumber: number): Promise<MarketError | null> {
+    return null;
+  }
+
+  // endregion // Protected Methods
+  // region Private Methods
+  // *****************************************************************
+  // ****                     Private Methods                     ****
+  // *****************************************************************
+
+  /***
+   * Polls the status of the transaction until it is no longer pending.
+   * @returns {Promise<TransactionStatus>}
+   * @private
+   */
+  private async _waitUntilNotPendingAsync(): Promise<TransactionStatus> {
+    let status = await this.getStatusAsync();
+    while (status === TransactionStatus.Pending) {
+      await this._sleepAsync();
+      status = await this.getStatusAsync();
+    }
+    return status;
+  }
+
+  /***
+   * Fetches the receipt of the transaction and keeps it, null while it is not mined.
+   * @returns {Promise<Web3.TransactionReceipt | null>}
+   * @private
+   */
+  private async _fetchReceiptAsync(): Promise<Web3.TransactionReceipt | null> {
+    const receipt: Web3.TransactionReceipt | null = await promisify(
+      this._web3.eth.getTransactionReceipt,
+      [this.txHash]
+    );
+    // a receipt can vanish again when its block is reorganized away.
+    this._receipt = receipt && receipt.blockNumber !== null ? receipt : null;
+    return this._receipt;
+  }
+
+  /***
+   * Replays a reverted transaction with eth_call to read its revert reason. The call runs on the
+   * state the block of the transaction started with, which is the state the transaction ran on
+   * unless an earlier transaction of the same block changed it.
+   * @param {Web3.TransactionReceipt} receipt
+   * @returns {Promise<string | null>}
+   * @private
+   */
+  private async _getRevertReasonAsync(receipt: Web3.TransactionReceipt): Promise<string | null> {
+    const transaction: Web3.Transaction | null =
+      this._transaction || (await promisify(this._web3.eth.getTransaction, [this.txHash]));
+    if (!transaction) {
+      return null;
+    }
+
+    const callData = {
+      from: transaction.from,
+      to: transaction.to,
+      data: transaction.input,
+      value: transaction.value,
+      gas: transaction.gas,
+      gasPrice: transaction.gasPrice
+    };
+    try {
+      const result: string = await promisify(this._web3.eth.call, [
+        callData,
+        receipt.blockNumber - 1
+      ]);
+      return Utils.decodeRevertReason(result);
+    } catch (err) {
+      return Utils.decodeRevertReason(err.message);
+    }
+  }
+
+  /***
+   * Status of the transaction of the fetched receipt. Receipts from before Byzantium have no
+   * status, their transactions are taken as executed.
+   * @returns {TransactionStatus}
+   * @private
+   */
+  private _getMinedStatus(): TransactionStatus {
+    const receiptStatus = (this._receipt as Web3.TransactionReceipt).status;
+    return receiptStatus !== null && receiptStatus !== undefined && Number(receiptStatus) === 0
+      ? TransactionStatus.Reverted
+      : TransactionStatus.Mined;
+  }
+
+  /***
+   * Waits for one polling interval.
+   * @returns {Promise<void>}
+   * @private
+   */
+  private _sleepAsync(): Promise<void> {
+    return new Promise<void>(resolve => setTimeout(resolve, this._pollingIntervalMs));
+  }
+}
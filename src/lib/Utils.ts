@@ -10,33 +10,62 @@ import { ParsedContractName } from '../types';
 
 export const Utils = {
   /**
-   * Signs a message.
+   * Signs a message with eth_sign.
    *
    * @param web3
    * @param address
    * @param message
-   * @return {[*,*,*]}
+   * @return {Promise<ECSignature>}   rejects with the error of the node, if any
    */
   signMessage(web3: Web3, address: string, message: string): Promise<ECSignature> {
     return new Promise<ECSignature>((resolve, reject) => {
       web3.eth.sign(address, message, (err, signature) => {
-        // Log errors, if any
-        // TODO: Handle error
         if (err) {
-          console.error(err);
+          reject(err);
+        } else if (!signature) {
+          reject(new Error('No signature returned'));
+        } else {
+          resolve(Utils.parseSignatureHex(signature));
         }
+      });
+    });
+  },
 
-        const r = signature.slice(0, 66);
-        const s = `0x${signature.slice(66, 130)}`;
-        let v = web3.toDecimal(`0x${signature.slice(130, 132)}`);
+  /**
+   * Splits a hex encoded signature, as returned by eth_sign and eth_signTypedData, into its
+   * elliptic curve signature parameters.
+   * @param {string} signature    hex encoded r, s and v
+   * @return {ECSignature}
+   */
+  parseSignatureHex(signature: string): ECSignature {
+    const r = signature.slice(0, 66);
+    const s = `0x${signature.slice(66, 130)}`;
+    let v = parseInt(signature.slice(130, 132), 16);
 
-        if (v !== 27 && v !== 28) {
-          v += 27;
-        }
+    if (v !== 27 && v !== 28) {
+      v += 27;
+    }
 
-        resolve({ v, r, s });
-      });
-    });
+    return { v, r, s };
+  },
+
+  /**
+   * Decodes the reason of a revert, either from the `Error(string)` data a reverted eth_call
+   * returns or from the message of the error a node returns for it instead.
+   * @param {string} revertData   hex encoded return data or error message of the node
+   * @return {string | null}      the reason, null when the revert has none
+   */
+  decodeRevertReason(revertData: string): string | null {
+    if (revertData.startsWith(constants.REVERT_REASON_SELECTOR)) {
+      // selector, then the offset and the length of the string, each one 32 bytes.
+      const encodedReason = revertData.slice(constants.REVERT_REASON_SELECTOR.length);
+      const length = parseInt(encodedReason.slice(64, 128), 16);
+      const reason = Buffer.from(encodedReason.slice(128, 128 + length * 2), 'hex').toString();
+      return reason || null;
+    }
+
+    const match = /revert\s*(.*)$/.exec(revertData);
+    return match && match[1] ? match[1].trim() : null;
   },
 
   /**
@@ -0,0 +1,6 @@
+// Entry point for Node, with the modules that need Node's built-ins on top of the package entry.
+import { JSONFileEventIndexStorage } from './event_indexer/JSONFileEventIndexStorage';
+import { ReferenceRelayerServer } from './relayer/ReferenceRelayerServer';
+
+export * from './index';
+export { JSONFileEventIndexStorage, ReferenceRelayerServer };
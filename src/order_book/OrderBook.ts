@@ -0,0 +1,402 @@
+import BigNumber from 'bignumber.js';
+import * as _ from 'lodash';
+
+// Types
+import { SignedOrder } from '@marketprotocol/types';
+import { MarketError, OrderBookDepth, OrderBookEntry, OrderBookLevel } from '../types';
+
+import { assert } from '../assert';
+import { serializeOrder } from '../lib/Order';
+import { Utils } from '../lib/Utils';
+import { Market } from '../Market';
+import { OrderFilledCancelledLazyStore } from '../OrderFilledCancelledLazyStore';
+import { ExpirationWatcher } from '../order_watcher/ExpirationWatcher';
+import { schemas } from '../schemas';
+
+interface SequencedOrderBookEntry extends OrderBookEntry {
+  sequence: number;
+}
+
+interface MarketOrderBook {
+  bids: SequencedOrderBookEntry[];
+  asks: SequencedOrderBookEntry[];
+}
+
+/**
+ * In-memory order book of signed orders, keyed by MarketContract address. Orders with a positive
+ * qty are bids and orders with a negative qty are asks, each side is kept in price-time priority.
+ * Expired orders are pruned by an `ExpirationWatcher` once subscribed and remaining quantities are
+ * read from the `OrderFilledCancelledLazyStore`.
+ */
+export class OrderBook {
+  // region Members
+  // *****************************************************************
+  // ****                     Members                             ****
+  // *****************************************************************
+  private readonly _market: Market;
+  private readonly _expirationWatcher: ExpirationWatcher;
+  private readonly _orderFilledCancelledLazyStore: OrderFilledCancelledLazyStore;
+  private _bookByMarketContractAddress: { [marketContractAddress: string]: MarketOrderBook } = {};
+  private _marketContractAddressByOrderHash: { [orderHash: string]: string } = {};
+  private _nextSequence: number = 0;
+  private _callbackIfExists?: (orderHash: string) => void;
+  // endregion // members
+
+  // region Constructors
+  // *****************************************************************
+  // ****                     Constructors                        ****
+  // *****************************************************************
+  /**
+   * Instantiates a new OrderBook
+   * @param {Market} market                                 Market instance used to validate orders
+   * @param {number} expirationMarginMs                     Time before expiry at which orders are pruned
+   * @param {number} orderExpirationCheckingIntervalMs      How often to check for expired orders
+   */
+  constructor(
+    market: Market,
+    expirationMarginMs?: number,
+    orderExpirationCheckingIntervalMs?: number
+  ) {
+    this._market = market;
+    this._expirationWatcher = new ExpirationWatcher(
+      expirationMarginMs,
+      orderExpirationCheckingIntervalMs
+    );
+    this._orderFilledCancelledLazyStore = new OrderFilledCancelledLazyStore(
+      market.marketContractWrapper
+    );
+  }
+  // endregion//Constructors
+
+  // region Public Methods
+  // *****************************************************************
+  // ****                     Public Methods                      ****
+  // *****************************************************************
+  /**
+   * Validates a signed order and adds it to the book of its MarketContract. Adding an order that
+   * is already in the book is a no-op.
+   * @param {SignedOrder} signedOrder   The order to add
+   * @returns {Promise<string>}         The hash of the order
+   */
+  public async addOrderAsync(signedOrder: SignedOrder): Promise<string> {
+    assert.isSchemaValid('signedOrder', serializeOrder(signedOrder), schemas.SignedOrderSchema);
+
+    const orderHash = await this._market.createOrderHashAsync(signedOrder);
+    if (!_.isUndefined(this._marketContractAddressByOrderHash[orderHash])) {
+      return orderHash;
+    }
+
+    const isValidSignature = await this._market.isValidSignatureAsync(signedOrder, orderHash);
+    if (!isValidSignature) {
+      return Promise.reject(new Error(MarketError.InvalidSignature));
+    }
+    if (signedOrder.expirationTimestamp.isLessThan(Utils.getCurrentUnixTimestampSec())) {
+      return Promise.reject(new Error(MarketError.OrderExpired));
+    }
+
+    const marketContractAddress = signedOrder.contractAddress.toLowerCase();
+    const remainingQty = await this._getRemainingQtyAsync(
+      marketContractAddress,
+      orderHash,
+      signedOrder
+    );
+    if (remainingQty.isZero()) {
+      return Promise.reject(new Error(MarketError.OrderFilledOrCancelled));
+    }
+
+    const entry: SequencedOrderBookEntry = {
+      orderHash,
+      signedOrder,
+      remainingQty,
+      sequence: this._nextSequence++
+    };
+    const side = this._getSide(this._getBook(marketContractAddress), signedOrder.orderQty);
+    const index = _.findIndex(side, other => this._hasPriority(entry, other));
+    side.splice(index === -1 ? side.length : index, 0, entry);
+
+    this._marketContractAddressByOrderHash[orderHash] = marketContractAddress;
+    this._expirationWatcher.addOrder(orderHash, signedOrder.expirationTimestamp.times(1000));
+    return orderHash;
+  }
+
+  /**
+   * Removes an order from the book. Removing an order that is not in the book is a no-op.
+   * @param {string} orderHash   Hash of the order to remove
+   */
+  public removeOrder(orderHash: string): void {
+    if (_.isUndefined(this._marketContractAddressByOrderHash[orderHash])) {
+      return;
+    }
+    this._expirationWatcher.removeOrder(orderHash);
+    this._forgetOrder(orderHash);
+  }
+
+  /**
+   * Re-reads the filled or cancelled qty of every order of a MarketContract's book and removes the
+   * orders that have no qty left.
+   * @param {string} marketContractAddress   Address of the MarketContract
+   * @returns {Promise<void>}
+   */
+  public async updateRemainingQtysAsync(marketContractAddress: string): Promise<void> {
+    const book = this._getBook(marketContractAddress.toLowerCase());
+    for (const entry of [...book.bids, ...book.asks]) {
+      this._orderFilledCancelledLazyStore.deleteQtyFilledOrCancelled(
+        marketContractAddress.toLowerCase(),
+        entry.orderHash
+      );
+      entry.remainingQty = await this._getRemainingQtyAsync(
+        marketContractAddress.toLowerCase(),
+        entry.orderHash,
+        entry.signedOrder
+      );
+      if (entry.remainingQty.isZero()) {
+        this.removeOrder(entry.orderHash);
+      }
+    }
+  }
+
+  /**
+   * Gets the bid with the highest price, the earliest one if several share that price.
+   * @param {string} marketContractAddress   Address of the MarketContract
+   * @returns {OrderBookEntry | undefined}   The best bid, undefined if there is no bid
+   */
+  public getBestBid(marketContractAddress: string): OrderBookEntry | undefined {
+    return this._toEntry(this._getBook(marketContractAddress.toLowerCase()).bids[0]);
+  }
+
+  /**
+   * Gets the ask with the lowest price, the earliest one if several share that price.
+   * @param {string} marketContractAddress   Address of the MarketContract
+   * @returns {OrderBookEntry | undefined}   The best ask, undefined if there is no ask
+   */
+  public getBestAsk(marketContractAddress: string): OrderBookEntry | undefined {
+    return this._toEntry(this._getBook(marketContractAddress.toLowerCase()).asks[0]);
+  }
+
+  /**
+   * Gets an order of the book by its hash.
+   * @param {string} orderHash               Hash of the order
+   * @returns {OrderBookEntry | undefined}   The order, undefined if it is not in the book
+   */
+  public getOrder(orderHash: string): OrderBookEntry | undefined {
+    const marketContractAddress = this._marketContractAddressByOrderHash[orderHash];
+    if (_.isUndefined(marketContractAddress)) {
+      return undefined;
+    }
+    const book = this._getBook(marketContractAddress);
+    return this._toEntry(_.find([...book.bids, ...book.asks], { orderHash }));
+  }
+
+  /**
+   * Gets every order of a MarketContract's book.
+   * @param {string} marketContractAddress   Address of the MarketContract
+   * @returns {{bids: OrderBookEntry[], asks: OrderBookEntry[]}}   Each side in price-time priority
+   */
+  public getOrders(
+    marketContractAddress: string
+  ): { bids: OrderBookEntry[]; asks: OrderBookEntry[] } {
+    const book = this._getBook(marketContractAddress.toLowerCase());
+    return {
+      bids: book.bids.map(entry => this._toEntry(entry) as OrderBookEntry),
+      asks: book.asks.map(entry => this._toEntry(entry) as OrderBookEntry)
+    };
+  }
+
+  /**
+   * Gets the difference between the best ask and the best bid prices.
+   * @param {string} marketContractAddress   Address of the MarketContract
+   * @returns {BigNumber | undefined}        The spread, undefined if either side is empty
+   */
+  public getSpread(marketContractAddress: string): BigNumber | undefined {
+    const bestBid = this.getBestBid(marketContractAddress);
+    const bestAsk = this.getBestAsk(marketContractAddress);
+    if (_.isUndefined(bestBid) || _.isUndefined(bestAsk)) {
+      return undefined;
+    }
+    return bestAsk.signedOrder.price.minus(bestBid.signedOrder.price);
+  }
+
+  /**
+   * Gets a snapshot of the book aggregated by price level.
+   * @param {string} marketContractAddress   Address of the MarketContract
+   * @param {number} levels                  Maximum number of levels per side, all when omitted
+   * @returns {OrderBookDepth}               The bid and ask levels, best first
+   */
+  public getDepth(marketContractAddress: string, levels?: number): OrderBookDepth {
+    const book = this._getBook(marketContractAddress.toLowerCase());
+    return {
+      marketContractAddress,
+      bids: _.take(this._aggregateLevels(book.bids), levels || book.bids.length),
+      asks: _.take(this._aggregateLevels(book.asks), levels || book.asks.length)
+    };
+  }
+
+  /**
+   * Starts pruning expired orders from the book.
+   * @param {(orderHash: string) => void} callback   Called with the hash of every pruned order
+   */
+  public subscribe(callback: (orderHash: string) => void): void {
+    if (!_.isUndefined(this._callbackIfExists)) {
+      throw new Error(MarketError.SubscriptionAlreadyPresent);
+    }
+    this._callbackIfExists = callback;
+    this._expirationWatcher.subscribe(this._onOrderExpired.bind(this));
+  }
+
+  /**
+   * Stops pruning expired orders from the book.
+   */
+  public unsubscribe(): void {
+    if (_.isUndefined(this._callbackIfExists)) {
+      throw new Error(MarketError.SubscriptionNotFound);
+    }
+    this._expirationWatcher.unsubscribe();
+    delete this._callbackIfExists;
+  }
+  // endregion //Public Methods
+
+  // region Private Methods
+  // *****************************************************************
+  // ****                     Private Methods                     ****
+  // *****************************************************************
+  /**
+   * Gets the book of a MarketContract, creating it when missing.
+   * @param {string} marketContractAddress   Lowercase address of the MarketContract
+   * @returns {MarketOrderBook}
+   * @private
+   */
+  private _getBook(marketContractAddress: string): MarketOrderBook {
+    if (_.isUndefined(this._bookByMarketContractAddress[marketContractAddress])) {
+      this._bookByMarketContractAddress[marketContractAddress] = { bids: [], asks: [] };
+    }
+    return this._bookByMarketContractAddress[marketContractAddress];
+  }
+
+  /**
+   * Gets the side of the book an order belongs to.
+   * @param {MarketOrderBook} book   The book of the order's MarketContract
+   * @param {BigNumber} orderQty     Qty of the order (+ bid / - ask)
+   * @returns {SequencedOrderBookEntry[]}
+   * @private
+   */
+  private _getSide(book: MarketOrderBook, orderQty: BigNumber): SequencedOrderBookEntry[] {
+    return orderQty.isPositive() ? book.bids : book.asks;
+  }
+
+  /**
+   * Whether an entry comes before another one of the same side in price-time priority.
+   * @param {SequencedOrderBookEntry} entry
+   * @param {SequencedOrderBookEntry} other
+   * @returns {boolean}
+   * @private
+   */
+  private _hasPriority(entry: SequencedOrderBookEntry, other: SequencedOrderBookEntry): boolean {
+    const isBid = entry.signedOrder.orderQty.isPositive();
+    const priceComparison = entry.signedOrder.price.comparedTo(other.signedOrder.price);
+    if (priceComparison !== 0) {
+      return isBid ? priceComparison > 0 : priceComparison < 0;
+    }
+    return entry.sequence < other.sequence;
+  }
+
+  /**
+   * Computes the qty of an order that is neither filled nor cancelled.
+   * @param {string} marketContractAddress   Lowercase address of the MarketContract
+   * @param {string} orderHash               Hash of the order
+   * @param {SignedOrder} signedOrder        The order
+   * @returns {Promise<BigNumber>}           Remaining qty, with the sign of the order qty
+   * @private
+   */
+  private async _getRemainingQtyAsync(
+    marketContractAddress: string,
+    orderHash: string,
+    signedOrder: SignedOrder
+  ): Promise<BigNumber> {
+    const qtyFilledOrCancelled = new BigNumber(
+      await this._orderFilledCancelledLazyStore.getQtyFilledOrCancelledAsync(
+        marketContractAddress,
+        orderHash
+      )
+    );
+    return signedOrder.orderQty.minus(qtyFilledOrCancelled);
+  }
+
+  /**
+   * Aggregates the entries of one side of the book by price.
+   * @param {SequencedOrderBookEntry[]} side   Entries in price-time priority
+   * @returns {OrderBookLevel[]}               Levels in the same order as the entries
+   * @private
+   */
+  private _aggregateLevels(side: SequencedOrderBookEntry[]): OrderBookLevel[] {
+    const levels: OrderBookLevel[] = [];
+    for (const entry of side) {
+      const lastLevel = _.last(levels);
+      if (!_.isUndefined(lastLevel) && lastLevel.price.isEqualTo(entry.signedOrder.price)) {
+        lastLevel.qty = lastLevel.qty.plus(entry.remainingQty.absoluteValue());
+        lastLevel.orderCount++;
+      } else {
+        levels.push({
+          price: entry.signedOrder.price,
+          qty: entry.remainingQty.absoluteValue(),
+          orderCount: 1
+        });
+      }
+    }
+    return levels;
+  }
+
+  /**
+   * Strips the internal sequence number from an entry.
+   * @param {SequencedOrderBookEntry} entry
+   * @returns {OrderBookEntry | undefined}
+   * @private
+   */
+  private _toEntry(entry?: SequencedOrderBookEntry): OrderBookEntry | undefined {
+    if (_.isUndefined(entry)) {
+      return undefined;
+    }
+    return {
+      orderHash: entry.orderHash,
+      signedOrder: entry.signedOrder,
+      remainingQty: entry.remainingQty
+    };
+  }
+
+  /**
+   * Removes every trace of an order, except from the expiration watcher.
+   * @param {string} orderHash
+   * @private
+   */
+  private _forgetOrder(orderHash: string): void {
+    const marketContractAddress = this._marketContractAddressByOrderHash[orderHash];
+    const book = this._getBook(marketContractAddress);
+    book.bids = book.bids.filter(entry => entry.orderHash !== orderHash);
+    book.asks = book.asks.filter(entry => entry.orderHash !== orderHash);
+    this._orderFilledCancelledLazyStore.deleteQtyFilledOrCancelled(
+      marketContractAddress,
+      orderHash
+    );
+    delete this._marketContractAddressByOrderHash[orderHash];
+  }
+  // endregion //Private Methods
+
+  // region Event Handlers
+  // *****************************************************************
+  // ****                     Event Handlers                      ****
+  // *****************************************************************
+  /**
+   * Prunes an expired order, the expiration watcher has already dropped it.
+   * @param {string} orderHash
+   * @private
+   */
+  private _onOrderExpired(orderHash: string): void {
+    if (_.isUndefined(this._marketContractAddressByOrderHash[orderHash])) {
+      return;
+    }
+    this._forgetOrder(orderHash);
+    if (!_.isUndefined(this._callbackIfExists)) {
+      this._callbackIfExists(orderHash);
+    }
+  }
+  // endregion // Event Handlers
+}
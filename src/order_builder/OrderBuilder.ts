@@ -0,0 +1,308 @@
+import BigNumber from 'bignumber.js';
+
+// Types
+import { Order, SignedOrder } from '@marketprotocol/types';
+import { ContractMetaData, MarketError, SignatureScheme } from '../types';
+
+import { assert } from '../assert';
+import { constants } from '../constants';
+import { Utils } from '../lib/Utils';
+import { Market } from '../Market';
+
+const DEFAULT_EXPIRATION_SECONDS = 60 * 60 * 24;
+
+/**
+ * Builds orders of a MarketContract from human prices, like 1.2345, and quantities of contracts.
+ * Prices are scaled by the PRICE_DECIMAL_PLACES of the contract and checked against its floor
+ * and cap. Taker and fee recipient default to the null address, fees to 0, the salt to a random
+ * one and the expiration to one day from the time the order is built.
+ *
+ *   const signedOrder = await market
+ *     .createOrderBuilder(marketContractAddress)
+ *     .setMaker(maker)
+ *     .buy(2)
+ *     .atPrice('1.2345')
+ *     .signAsync();
+ */
+export class OrderBuilder {
+  // region Members
+  // *****************************************************************
+  // ****                     Members                             ****
+  // *****************************************************************
+  private readonly _market: Market;
+  private readonly _marketContractAddress: string;
+  private _maker: string | null = null;
+  private _qty: BigNumber | null = null;
+  private _price: BigNumber | null = null;
+  private _taker: string = constants.NULL_ADDRESS;
+  private _feeRecipient: string = constants.NULL_ADDRESS;
+  private _makerFee: BigNumber = new BigNumber(0);
+  private _takerFee: BigNumber = new BigNumber(0);
+  private _expirationTimestamp: BigNumber | null = null;
+  private _expirationSeconds: number = DEFAULT_EXPIRATION_SECONDS;
+  private _salt: BigNumber | null = null;
+  private _signatureScheme: SignatureScheme = SignatureScheme.EthSign;
+  private _shouldAddPersonalMessagePrefix: boolean = false;
+  // endregion // members
+
+  // region Constructors
+  // *****************************************************************
+  // ****                     Constructors                        ****
+  // *****************************************************************
+  /**
+   * Instantiates a new OrderBuilder
+   * @param {Market} market                   Market instance used to read the contract and sign
+   * @param {string} marketContractAddress    Address of the MarketContract the order is for
+   */
+  constructor(market: Market, marketContractAddress: string) {
+    assert.isETHAddressHex('marketContractAddress', marketContractAddress);
+    this._market = market;
+    this._marketContractAddress = marketContractAddress;
+  }
+  // endregion//Constructors
+
+  // region Public Methods
+  // *****************************************************************
+  // ****                     Public Methods                      ****
+  // *****************************************************************
+  /**
+   * Sets the account that makes and signs the order.
+   * @param {string} maker
+   * @returns {OrderBuilder}
+   */
+  public setMaker(maker: string): OrderBuilder {
+    assert.isETHAddressHex('maker', maker);
+    this._maker = maker;
+    return this;
+  }
+
+  /**
+   * Makes the order a buy of a number of contracts.
+   * @param {BigNumber.Value} qty   Number of contracts, a positive whole number
+   * @returns {OrderBuilder}
+   */
+  public buy(qty: BigNumber.Value): OrderBuilder {
+    this._qty = this._toContractQty(qty);
+    return this;
+  }
+
+  /**
+   * Makes the order a sell of a number of contracts.
+   * @param {BigNumber.Value} qty   Number of contracts, a positive whole number
+   * @returns {OrderBuilder}
+   */
+  public sell(qty: BigNumber.Value): OrderBuilder {
+    this._qty = this._toContractQty(qty).negated();
+    return this;
+  }
+
+  /**
+   * Sets the price of the order.
+   * @param {BigNumber.Value} price   Human price, with at most PRICE_DECIMAL_PLACES decimals
+   * @returns {OrderBuilder}
+   */
+  public atPrice(price: BigNumber.Value): OrderBuilder {
+    const humanPrice = new BigNumber(price);
+    assert.assert(humanPrice.isFinite(), `Expected price to be a number, encountered ${price}`);
+    this._price = humanPrice;
+    return this;
+  }
+
+  /**
+   * Restricts the order to a single taker.
+   * @param {string} taker
+   * @returns {OrderBuilder}
+   */
+  public setTaker(taker: string): OrderBuilder {
+    assert.isETHAddressHex('taker', taker);
+    this._taker = taker;
+    return this;
+  }
+
+  /**
+   * Sets the account that receives the fees.
+   * @param {string} feeRecipient
+   * @returns {OrderBuilder}
+   */
+  public setFeeRecipient(feeRecipient: string): OrderBuilder {
+    assert.isETHAddressHex('feeRecipient', feeRecipient);
+    this._feeRecipient = feeRecipient;
+    return this;
+  }
+
+  /**
+   * Sets the fee the maker pays.
+   * @param {BigNumber} makerFee   Fee in MKT base units
+   * @returns {OrderBuilder}
+   */
+  public setMakerFee(makerFee: BigNumber): OrderBuilder {
+    assert.isValidBaseUnitAmount('makerFee', makerFee);
+    this._makerFee = makerFee;
+    return this;
+  }
+
+  /**
+   * Sets the fee the taker pays.
+   * @param {BigNumber} takerFee   Fee in MKT base units
+   * @returns {OrderBuilder}
+   */
+  public setTakerFee(takerFee: BigNumber): OrderBuilder {
+    assert.isValidBaseUnitAmount('takerFee', takerFee);
+    this._takerFee = takerFee;
+    return this;
+  }
+
+  /**
+   * Makes the order expire a number of seconds after it is built.
+   * @param {number} seconds
+   * @returns {OrderBuilder}
+   */
+  public expiresIn(seconds: number): OrderBuilder {
+    assert.assert(seconds > 0, `seconds must be positive, got ${seconds}`);
+    this._expirationSeconds = seconds;
+    this._expirationTimestamp = null;
+    return this;
+  }
+
+  /**
+   * Makes the order expire at a unix timestamp.
+   * @param {BigNumber} expirationTimestamp   unix timestamp in seconds
+   * @returns {OrderBuilder}
+   */
+  public expiresAt(expirationTimestamp: BigNumber): OrderBuilder {
+    assert.isBigNumber('expirationTimestamp', expirationTimestamp);
+    this._expirationTimestamp = expirationTimestamp;
+    return this;
+  }
+
+  /**
+   * Sets the salt of the order.
+   * @param {BigNumber} salt
+   * @returns {OrderBuilder}
+   */
+  public setSalt(salt: BigNumber): OrderBuilder {
+    assert.isBigNumber('salt', salt);
+    this._salt = salt;
+    return this;
+  }
+
+  /**
+   * Sets the scheme the order is signed with.
+   * @param {SignatureScheme} signatureScheme
+   * @returns {OrderBuilder}
+   */
+  public setSignatureScheme(signatureScheme: SignatureScheme): OrderBuilder {
+    this._signatureScheme = signatureScheme;
+    return this;
+  }
+
+  /**
+   * Sets whether the personal message prefix is added to the orderHash before it is sent to the
+   * signer, see `Market.signOrderHashAsync`.
+   * @param {boolean} shouldAddPersonalMessagePrefix
+   * @returns {OrderBuilder}
+   */
+  public setShouldAddPersonalMessagePrefix(shouldAddPersonalMessagePrefix: boolean): OrderBuilder {
+    this._shouldAddPersonalMessagePrefix = shouldAddPersonalMessagePrefix;
+    return this;
+  }
+
+  /**
+   * Builds the order in contract units without signing it.
+   * @returns {Promise<Order>}
+   */
+  public async buildAsync(): Promise<Order> {
+    assert.assert(this._maker !== null, 'maker is required, call setMaker');
+    assert.assert(this._qty !== null, 'qty is required, call buy or sell');
+    assert.assert(this._price !== null, 'price is required, call atPrice');
+
+    const metaData: ContractMetaData = await this._market.getContractMetaDataAsync(
+      this._marketContractAddress
+    );
+    const price = this._toContractPrice(this._price as BigNumber, metaData);
+    if (
+      price.isLessThan(new BigNumber(metaData.priceFloor)) ||
+      price.isGreaterThan(new BigNumber(metaData.priceCap))
+    ) {
+      return Promise.reject(new Error(MarketError.OrderPriceOutOfRange));
+    }
+
+    const qty = this._qty as BigNumber;
+    return {
+      contractAddress: this._marketContractAddress,
+      expirationTimestamp:
+        this._expirationTimestamp ||
+        Utils.getCurrentUnixTimestampSec()
+          .plus(this._expirationSeconds)
+          .integerValue(BigNumber.ROUND_FLOOR),
+      feeRecipient: this._feeRecipient,
+      maker: this._maker as string,
+      makerFee: this._makerFee,
+      orderQty: qty,
+      price,
+      remainingQty: qty,
+      salt: this._salt || Utils.generatePseudoRandomSalt(),
+      taker: this._taker,
+      takerFee: this._takerFee
+    };
+  }
+
+  /**
+   * Builds the order and signs it with the maker.
+   * @returns {Promise<SignedOrder>}
+   */
+  public async signAsync(): Promise<SignedOrder> {
+    const order = await this.buildAsync();
+    return this._market.createSignedOrderAsync(
+      order.contractAddress,
+      order.expirationTimestamp,
+      order.feeRecipient,
+      order.maker,
+      order.makerFee,
+      order.taker,
+      order.takerFee,
+      order.orderQty,
+      order.price,
+      order.salt,
+      this._shouldAddPersonalMessagePrefix,
+      this._signatureScheme
+    );
+  }
+  // endregion //Public Methods
+
+  // region Private Methods
+  // *****************************************************************
+  // ****                     Private Methods                     ****
+  // *****************************************************************
+  /**
+   * Checks a number of contracts is a positive whole number.
+   * @param {BigNumber.Value} qty
+   * @returns {BigNumber}
+   * @private
+   */
+  private _toContractQty(qty: BigNumber.Value): BigNumber {
+    const contractQty = new BigNumber(qty);
+    assert.assert(
+      contractQty.isInteger() && contractQty.isPositive() && !contractQty.isZero(),
+      `qty must be a positive whole number of contracts, got ${qty}`
+    );
+    return contractQty;
+  }
+
+  /**
+   * Scales a human price by the PRICE_DECIMAL_PLACES of the contract.
+   * @param {BigNumber} price
+   * @param {ContractMetaData} metaData
+   * @returns {BigNumber}
+   * @private
+   */
+  private _toContractPrice(price: BigNumber, metaData: ContractMetaData): BigNumber {
+    const priceDecimalPlaces = new BigNumber(metaData.priceDecimalPlaces).toNumber();
+    assert.assert(
+      price.decimalPlaces() <= priceDecimalPlaces,
+      `price can have at most ${priceDecimalPlaces} decimal places, got ${price.toFixed()}`
+    );
+    return price.shiftedBy(priceDecimalPlaces);
+  }
+  // endregion //Private Methods
+}
@@ -0,0 +1,271 @@
+import BigNumber from 'bignumber.js';
+import * as _ from 'lodash';
+
+// Types
+import { ITxParams, SignedOrder } from '@marketprotocol/types';
+import {
+  ContractMetaData,
+  OrderCancellationResult,
+  OrderCancellationStatus,
+  QuoteLadder,
+  QuoteLadderParams,
+  QuoteLadderRequote
+} from '../types';
+
+import { assert } from '../assert';
+import { constants } from '../constants';
+import { Utils } from '../lib/Utils';
+import { Market } from '../Market';
+
+const DEFAULT_EXPIRATION_SECONDS = 60 * 60 * 24;
+
+/**
+ * Generates and signs ladders of bid and ask quotes around a mid price for market makers, and
+ * replaces them when the mid moves.
+ */
+export class QuoteLadderGenerator {
+  // region Members
+  // *****************************************************************
+  // ****                     Members                             ****
+  // *****************************************************************
+  private readonly _market: Market;
+  // endregion // members
+
+  // region Constructors
+  // *****************************************************************
+  // ****                     Constructors                        ****
+  // *****************************************************************
+  /**
+   * Instantiates a new QuoteLadderGenerator
+   * @param {Market} market   Market instance used to read contract meta data, sign and cancel
+   */
+  constructor(market: Market) {
+    this._market = market;
+  }
+  // endregion//Constructors
+
+  // region Public Methods
+  // *****************************************************************
+  // ****                     Public Methods                      ****
+  // *****************************************************************
+  /**
+   * Signs the quotes of a ladder. The best bid is quoted half the spread below the mid and the
+   * best ask half the spread above it, rounded away from the mid to whole price units.
+   * @param {string} marketContractAddress   Address of the MarketContract
+   * @param {QuoteLadderParams} params       Shape of the ladder
+   * @returns {Promise<QuoteLadder>}
+   */
+  public async createLadderAsync(
+    marketContractAddress: string,
+    params: QuoteLadderParams
+  ): Promise<QuoteLadder> {
+    assert.isETHAddressHex('marketContractAddress', marketContractAddress);
+    assert.isETHAddressHex('maker', params.maker);
+    assert.assert(
+      Number.isInteger(params.levels) && params.levels > 0,
+      `levels must be a positive integer, got ${params.levels}`
+    );
+    assert.assert(
+      params.qtyPerLevel.isInteger() && params.qtyPerLevel.isGreaterThan(0),
+      `qtyPerLevel must be a positive whole number of contracts, got ${params.qtyPerLevel}`
+    );
+    assert.assert(!params.spread.isNegative(), `spread can't be negative, got ${params.spread}`);
+    // a smaller step would round neighbouring levels to the same price.
+    assert.assert(
+      params.step.isInteger() && params.step.isGreaterThanOrEqualTo(1),
+      `step must be a positive whole number of price units, got ${params.step}`
+    );
+
+    const metaData: ContractMetaData = await this._market.getContractMetaDataAsync(
+      marketContractAddress
+    );
+    const priceFloor = new BigNumber(metaData.priceFloor);
+    const priceCap = new BigNumber(metaData.priceCap);
+    const isWithinBounds = (price: BigNumber) =>
+      price.isGreaterThanOrEqualTo(priceFloor) && price.isLessThanOrEqualTo(priceCap);
+
+    const bidPrices = this.getLevelPrices(params, true).filter(isWithinBounds);
+    const askPrices = this.getLevelPrices(params, false).filter(isWithinBounds);
+    const expirationTimestamp =
+      params.expirationTimestamp ||
+      Utils.getCurrentUnixTimestampSec()
+        .plus(DEFAULT_EXPIRATION_SECONDS)
+        .integerValue(BigNumber.ROUND_FLOOR);
+
+    // signed one after the other, signers prompting a user can't handle concurrent requests.
+    const bids: SignedOrder[] = [];
+    for (const price of bidPrices) {
+      bids.push(
+        await this._signQuoteAsync(
+          marketContractAddress,
+          params.maker,
+          params.qtyPerLevel,
+          price,
+          expirationTimestamp
+        )
+      );
+    }
+    const asks: SignedOrder[] = [];
+    for (const price of askPrices) {
+      asks.push(
+        await this._signQuoteAsync(
+          marketContractAddress,
+          params.maker,
+          params.qtyPerLevel.negated(),
+          price,
+          expirationTimestamp
+        )
+      );
+    }
+
+    const neededCollateral = [...bids, ...asks].reduce(
+      (sum, order) =>
+        sum.plus(
+          Utils.calculateNeededCollateral(
+            priceFloor,
+            priceCap,
+            new BigNumber(metaData.qtyMultiplier),
+            order.orderQty,
+            order.price
+          )
+        ),
+      new BigNumber(0)
+    );
+
+    return { marketContractAddress, params, bids, asks, neededCollateral };
+  }
+
+  /**
+   * Cancels the remaining qty of the quotes of a ladder and quotes a new ladder of the same shape
+   * around a new mid, when the mid moved by more than `minMidMove`. Other orders of the maker are
+   * left alone. Rejects without quoting a new ladder when a cancellation can't be submitted, the
+   * quotes of the ladder may then still be live.
+   * @param {QuoteLadder} ladder         The ladder currently quoted
+   * @param {BigNumber} midPrice         The new mid price
+   * @param {BigNumber} minMidMove       Moves of the mid up to this distance keep the ladder
+   * @param {ITxParams} txParams         Transaction params of the cancellations, sent from the maker
+   * @returns {Promise<QuoteLadderRequote>}
+   */
+  public async requoteAsync(
+    ladder: QuoteLadder,
+    midPrice: BigNumber,
+    minMidMove: BigNumber = new BigNumber(0),
+    txParams: ITxParams = {}
+  ): Promise<QuoteLadderRequote> {
+    if (
+      midPrice
+        .minus(ladder.params.midPrice)
+        .absoluteValue()
+        .isLessThanOrEqualTo(minMidMove)
+    ) {
+      return { ladder, cancellations: [] };
+    }
+
+    const cancellations: OrderCancellationResult[] = [];
+    const outstandingQuotes: SignedOrder[] = [];
+    const remainingQtys: BigNumber[] = [];
+    for (const quote of [...ladder.bids, ...ladder.asks]) {
+      const orderHash = await this._market.createOrderHashAsync(quote);
+      const remainingQty = quote.orderQty.minus(
+        await this._market.getQtyFilledOrCancelledFromOrderAsync(
+          ladder.marketContractAddress,
+          orderHash
+        )
+      );
+      if (remainingQty.isZero()) {
+        cancellations.push({
+          orderHash,
+          status: OrderCancellationStatus.FilledOrCancelled,
+          cancelledQty: new BigNumber(0)
+        });
+      } else if (quote.expirationTimestamp.isLessThan(Utils.getCurrentUnixTimestampSec())) {
+        cancellations.push({
+          orderHash,
+          status: OrderCancellationStatus.Expired,
+          cancelledQty: new BigNumber(0)
+        });
+      } else {
+        cancellations.push({
+          orderHash,
+          status: OrderCancellationStatus.Submitted,
+          cancelledQty: remainingQty
+        });
+        outstandingQuotes.push(quote);
+        remainingQtys.push(remainingQty);
+      }
+    }
+
+    const orderTransactionInfos = await this._market.batchCancelOrdersAsync(
+      outstandingQuotes,
+      remainingQtys,
+      { ...txParams, from: ladder.params.maker }
+    );
+    const submittedCancellations = cancellations.filter(
+      cancellation => cancellation.status === OrderCancellationStatus.Submitted
+    );
+    for (let i = 0; i < submittedCancellations.length; i++) {
+      submittedCancellations[i].orderTransactionInfo = orderTransactionInfos[i];
+    }
+
+    const newLadder = await this.createLadderAsync(ladder.marketContractAddress, {
+      ...ladder.params,
+      midPrice
+    });
+    return { ladder: newLadder, cancellations };
+  }
+
+  /**
+   * Prices of the levels of one side of a ladder, best first, before they are bounded by the
+   * price floor and cap.
+   * @param {QuoteLadderParams} params   Shape of the ladder
+   * @param {boolean} isBid              Whether to price the bid or the ask side
+   * @returns {BigNumber[]}
+   */
+  public getLevelPrices(params: QuoteLadderParams, isBid: boolean): BigNumber[] {
+    const halfSpread = params.spread.dividedBy(2);
+    return _.range(params.levels).map(level => {
+      const distance = halfSpread.plus(params.step.times(level));
+      return isBid
+        ? params.midPrice.minus(distance).integerValue(BigNumber.ROUND_FLOOR)
+        : params.midPrice.plus(distance).integerValue(BigNumber.ROUND_CEIL);
+    });
+  }
+  // endregion //Public Methods
+
+  // region Private Methods
+  // *****************************************************************
+  // ****                     Private Methods                     ****
+  // *****************************************************************
+  /**
+   * Signs a single quote open to any taker and without fees.
+   * @param {string} marketContractAddress
+   * @param {string} maker
+   * @param {BigNumber} orderQty
+   * @param {BigNumber} price
+   * @param {BigNumber} expirationTimestamp
+   * @returns {Promise<SignedOrder>}
+   * @private
+   */
+  private async _signQuoteAsync(
+    marketContractAddress: string,
+    maker: string,
+    orderQty: BigNumber,
+    price: BigNumber,
+    expirationTimestamp: BigNumber
+  ): Promise<SignedOrder> {
+    return this._market.createSignedOrderAsync(
+      marketContractAddress,
+      expirationTimestamp,
+      constants.NULL_ADDRESS,
+      maker,
+      new BigNumber(0),
+      constants.NULL_ADDRESS,
+      new BigNumber(0),
+      orderQty,
+      price,
+      Utils.generatePseudoRandomSalt(),
+      false
+    );
+  }
+  // endregion //Private Methods
+}
@@ -0,0 +1,125 @@
+import { BigNumber } from 'bignumber.js';
+
+// Types
+import { ERC20, SignedOrder } from '@marketprotocol/types';
+
+import { assert } from '../assert';
+import { constants } from '../constants';
+import { Market } from '../Market';
+import { RemainingFillableCalculator } from './RemainingFillableCalc';
+
+/**
+ * Calculates the remaining fillable amount of many orders at once. The open orders of a maker all
+ * draw on the same collateral balance and MKT, so checking them one by one overstates what can
+ * be filled.
+ */
+export class BatchRemainingFillableCalculator {
+  // region Members
+  // *****************************************************************
+  // ****                     Members                             ****
+  // *****************************************************************
+  private readonly _market: Market;
+  // endregion // members
+
+  // region Constructors
+  // *****************************************************************
+  // ****                     Constructors                        ****
+  // *****************************************************************
+  /**
+   * Instantiates a new BatchRemainingFillableCalculator
+   * @param {Market} market   Market instance used to read balances and filled quantities
+   */
+  constructor(market: Market) {
+    this._market = market;
+  }
+  // endregion//Constructors
+
+  // region Public Methods
+  // *****************************************************************
+  // ****                     Public Methods                      ****
+  // *****************************************************************
+  /**
+   * Computes the qty each maker can still fill of their orders, in the direction of each order.
+   * Orders are served in the order given: each one takes the collateral and MKT left over by the
+   * previous orders of the same maker. An order whose maker fee can't be paid from what is left
+   * gets 0.
+   * @param {SignedOrder[]} signedOrders   Orders to compute, the first ones are served first
+   * @param {string[]} orderHashes         Hash of each order
+   * @returns {Promise<BigNumber[]>}       Remaining fillable qty of each order
+   */
+  public async computeRemainingMakerFillablesAsync(
+    signedOrders: SignedOrder[],
+    orderHashes: string[]
+  ): Promise<BigNumber[]> {
+    assert.assert(
+      signedOrders.length === orderHashes.length,
+      'signedOrders and orderHashes must have the same length'
+    );
+
+    const mktToken: ERC20 = await this._market.marketContractWrapper.getERC20TokenContractAsync(
+      this._market.mktTokenContract.address
+    );
+    const availableCollateral: { [contractAndMaker: string]: BigNumber } = {};
+    const availableMktBalance: { [maker: string]: BigNumber } = {};
+    const availableMktAllowance: { [makerAndFeeRecipient: string]: BigNumber } = {};
+
+    const fillableQtys: BigNumber[] = [];
+    for (let i = 0; i < signedOrders.length; i++) {
+      const signedOrder = signedOrders[i];
+      const maker = signedOrder.maker.toLowerCase();
+      const collateralKey = `${signedOrder.contractAddress.toLowerCase()}:${maker}`;
+      const allowanceKey = `${maker}:${signedOrder.feeRecipient.toLowerCase()}`;
+      const fee =
+        signedOrder.feeRecipient === constants.NULL_ADDRESS
+          ? new BigNumber(0)
+          : signedOrder.makerFee;
+
+      if (!fee.isZero()) {
+        if (!availableMktBalance[maker]) {
+          availableMktBalance[maker] = new BigNumber(await mktToken.balanceOf(maker));
+        }
+        if (!availableMktAllowance[allowanceKey]) {
+          availableMktAllowance[allowanceKey] = new BigNumber(
+            await mktToken.allowance(maker, signedOrder.feeRecipient)
+          );
+        }
+        if (
+          availableMktBalance[maker].isLessThan(fee) ||
+          availableMktAllowance[allowanceKey].isLessThan(fee)
+        ) {
+          fillableQtys.push(new BigNumber(0));
+          continue;
+        }
+      }
+
+      if (!availableCollateral[collateralKey]) {
+        availableCollateral[collateralKey] =
+          (await this._market.getUserAccountBalanceAsync(signedOrder.contractAddress, maker)) ||
+          new BigNumber(0);
+      }
+
+      const calculator = new RemainingFillableCalculator(this._market, signedOrder, orderHashes[i]);
+      const neededCollateralPerQty = await calculator.getNeededCollateralPerQtyAsync(false);
+      const fillableQty = calculator.getFillableQty(
+        availableCollateral[collateralKey],
+        neededCollateralPerQty,
+        await calculator.getRemainingQtyAsync()
+      );
+      if (fillableQty.isZero()) {
+        fillableQtys.push(fillableQty);
+        continue;
+      }
+
+      availableCollateral[collateralKey] = availableCollateral[collateralKey].minus(
+        fillableQty.times(neededCollateralPerQty)
+      );
+      if (!fee.isZero()) {
+        availableMktBalance[maker] = availableMktBalance[maker].minus(fee);
+        availableMktAllowance[allowanceKey] = availableMktAllowance[allowanceKey].minus(fee);
+      }
+      fillableQtys.push(signedOrder.orderQty.isNegative() ? fillableQty.negated() : fillableQty);
+    }
+    return fillableQtys;
+  }
+  // endregion //Public Methods
+}
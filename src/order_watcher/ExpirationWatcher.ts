@@ -38,9 +38,11 @@ export class ExpirationWatcher {
   ) {
     this._expirationMarginMs = expirationMarginIfExistsMs || DEFAULT_EXPIRATION_MARGIN_MS;
     this._orderExpirationCheckingIntervalMs =
-      expirationMarginIfExistsMs || DEFAULT_ORDER_EXPIRATION_CHECKING_INTERVAL_MS;
+      orderExpirationCheckingIntervalIfExistsMs || DEFAULT_ORDER_EXPIRATION_CHECKING_INTERVAL_MS;
     const scoreFunction = (orderHash: string) => this._expiration[orderHash].toNumber();
-    const comparator = (lhs: string, rhs: string) => scoreFunction(lhs) - scoreFunction(rhs);
+    // tie-break on hash so orders expiring at the same time are not dropped as duplicates
+    const comparator = (lhs: string, rhs: string) =>
+      scoreFunction(lhs) - scoreFunction(rhs) || lhs.localeCompare(rhs);
     this._orderHashByExpirationRBTree = new RBTree(comparator);
   }
   //
@@ -0,0 +1,564 @@
+import BigNumber from 'bignumber.js';
+import * as _ from 'lodash';
+import Web3 from 'web3';
+
+// Types
+import {
+  ERC20,
+  MarketCollateralPool,
+  MarketContract,
+  promisify,
+  SignedOrder
+} from '@marketprotocol/types';
+import {
+  BlockParamLiteral,
+  MarketError,
+  OnOrderStateChangeCallback,
+  OrderState,
+  OrderStateWatcherConfig
+} from '../types';
+
+import { ContractSet } from '../contract_wrappers/ContractSet';
+import { IntervalUtils } from '../lib/Utils';
+import { Market } from '../Market';
+import { OrderFilledCancelledLazyStore } from '../OrderFilledCancelledLazyStore';
+import { BatchRemainingFillableCalculator } from './BatchRemainingFillableCalc';
+import { ExpirationWatcher } from './ExpirationWatcher';
+import { RemainingFillableCalculator } from './RemainingFillableCalc';
+
+const DEFAULT_EVENT_POLLING_INTERVAL_MS = 200;
+const DEFAULT_CLEANUP_JOB_INTERVAL_MS = 1000 * 60 * 60; // 1h
+
+/**
+ * This class watches a set of signed orders and emits an `OrderState` every time the state of one of
+ * them changes. It combines the `ExpirationWatcher`, the `BatchRemainingFillableCalculator` and the
+ * `OrderFilledCancelledLazyStore` and re-validates orders when OrderFilled, OrderCancelled,
+ * UpdatedUserBalance or ERC20 Transfer / Approval events affecting them are observed.
+ * The watched orders of a maker share its collateral and MKT, they are served in the order they
+ * were added.
+ */
+export class OrderStateWatcher {
+  // region Members
+  // *****************************************************************
+  // ****                     Members                             ****
+  // *****************************************************************
+  private readonly _web3: Web3;
+  private readonly _market: Market;
+  private readonly _expirationWatcher: ExpirationWatcher;
+  private readonly _orderFilledCancelledLazyStore: OrderFilledCancelledLazyStore;
+  private readonly _batchRemainingFillableCalculator: BatchRemainingFillableCalculator;
+  private readonly _eventPollingIntervalMs: number;
+  private readonly _cleanupJobIntervalMs: number;
+  private readonly _stateLayer: BlockParamLiteral;
+  private _orderByOrderHash: { [orderHash: string]: SignedOrder } = {};
+  private _orderStateByOrderHashCache: { [orderHash: string]: OrderState } = {};
+  private _contractSetByMarketContractAddress: { [address: string]: ContractSet } = {};
+  private _callbackIfExists?: OnOrderStateChangeCallback;
+  private _eventPollingIntervalIdIfExists?: NodeJS.Timer;
+  private _cleanupJobIntervalIdIfExists?: NodeJS.Timer;
+  private _lastPolledBlockNumber?: number;
+  // endregion // members
+
+  // region Constructors
+  // *****************************************************************
+  // ****                     Constructors                        ****
+  // *****************************************************************
+  /**
+   * Instantiates a new OrderStateWatcher
+   * @param {Web3} web3                         Web3 instance used to poll for events
+   * @param {Market} market                     Market instance used to validate orders
+   * @param {OrderStateWatcherConfig} config    Optional watcher config
+   */
+  constructor(web3: Web3, market: Market, config?: OrderStateWatcherConfig) {
+    this._web3 = web3;
+    this._market = market;
+
+    const watcherConfig: Partial<OrderStateWatcherConfig> = config || {};
+    this._eventPollingIntervalMs =
+      watcherConfig.eventPollingIntervalMs || DEFAULT_EVENT_POLLING_INTERVAL_MS;
+    this._cleanupJobIntervalMs =
+      watcherConfig.cleanupJobIntervalMs || DEFAULT_CLEANUP_JOB_INTERVAL_MS;
+    this._stateLayer = watcherConfig.stateLayer || BlockParamLiteral.Latest;
+
+    this._expirationWatcher = new ExpirationWatcher(
+      watcherConfig.expirationMarginMs,
+      watcherConfig.orderExpirationCheckingIntervalMs
+    );
+    this._orderFilledCancelledLazyStore = new OrderFilledCancelledLazyStore(
+      market.marketContractWrapper
+    );
+    this._batchRemainingFillableCalculator = new BatchRemainingFillableCalculator(market);
+  }
+  // endregion//Constructors
+
+  // region Public Methods
+  // *****************************************************************
+  // ****                     Public Methods                      ****
+  // *****************************************************************
+  /**
+   * Adds an order to the set of orders being watched. The order signature is verified before the
+   * order is added.
+   * @param {SignedOrder} signedOrder   The order to start watching
+   * @returns {Promise<string>}         The hash of the watched order
+   */
+  public async addOrderAsync(signedOrder: SignedOrder): Promise<string> {
+    const orderHash = await this._market.createOrderHashAsync(signedOrder);
+    const isValidSignature = await this._market.isValidSignatureAsync(signedOrder, orderHash);
+    if (!isValidSignature) {
+      return Promise.reject(new Error(MarketError.InvalidSignature));
+    }
+
+    await this._getContractSetAsync(signedOrder.contractAddress);
+    this._orderByOrderHash[orderHash] = signedOrder;
+    this._expirationWatcher.addOrder(orderHash, signedOrder.expirationTimestamp.times(1000));
+    return orderHash;
+  }
+
+  /**
+   * Removes an order from the set of orders being watched. Removing an order that is not watched
+   * is a no-op.
+   * @param {string} orderHash   Hash of the order to stop watching
+   */
+  public removeOrder(orderHash: string): void {
+    if (_.isUndefined(this._orderByOrderHash[orderHash])) {
+      return;
+    }
+    this._expirationWatcher.removeOrder(orderHash);
+    this._forgetOrder(orderHash);
+  }
+
+  /**
+   * Starts watching for events and emits an `OrderState` to the callback every time the state of a
+   * watched order changes.
+   * @param {OnOrderStateChangeCallback} callback   Callback receiving order state changes
+   */
+  public subscribe(callback: OnOrderStateChangeCallback): void {
+    if (!_.isUndefined(this._callbackIfExists)) {
+      throw new Error(MarketError.SubscriptionAlreadyPresent);
+    }
+    this._callbackIfExists = callback;
+
+    this._expirationWatcher.subscribe(this._onOrderExpired.bind(this));
+    this._eventPollingIntervalIdIfExists = IntervalUtils.setAsyncExcludingInterval(
+      this._pollForEventsAsync.bind(this),
+      this._eventPollingIntervalMs,
+      this._onError.bind(this)
+    );
+    this._cleanupJobIntervalIdIfExists = IntervalUtils.setAsyncExcludingInterval(
+      this._cleanupAsync.bind(this),
+      this._cleanupJobIntervalMs,
+      this._onError.bind(this)
+    );
+  }
+
+  /**
+   * Stops watching for events and order expirations.
+   */
+  public unsubscribe(): void {
+    if (_.isUndefined(this._callbackIfExists)) {
+      throw new Error(MarketError.SubscriptionNotFound);
+    }
+    delete this._callbackIfExists;
+    delete this._lastPolledBlockNumber;
+
+    this._expirationWatcher.unsubscribe();
+    if (!_.isUndefined(this._eventPollingIntervalIdIfExists)) {
+      IntervalUtils.clearAsyncExcludingInterval(this._eventPollingIntervalIdIfExists);
+      delete this._eventPollingIntervalIdIfExists;
+    }
+    if (!_.isUndefined(this._cleanupJobIntervalIdIfExists)) {
+      IntervalUtils.clearAsyncExcludingInterval(this._cleanupJobIntervalIdIfExists);
+      delete this._cleanupJobIntervalIdIfExists;
+    }
+  }
+
+  /**
+   * Computes the current state of a watched order.
+   * @param {string} orderHash          Hash of a watched order
+   * @returns {Promise<OrderState>}     The current state of the order
+   */
+  public async getOrderStateAsync(orderHash: string): Promise<OrderState> {
+    if (_.isUndefined(this._orderByOrderHash[orderHash])) {
+      return Promise.reject(new Error(MarketError.OrderNotWatched));
+    }
+    return (await this._computeOrderStatesAsync([orderHash]))[0];
+  }
+  // endregion //Public Methods
+
+  // region Private Methods
+  // *****************************************************************
+  // ****                     Private Methods                     ****
+  // *****************************************************************
+  /**
+   * Computes the state of watched orders. The remaining fillable qty of an open order is what is
+   * left of its maker's collateral and MKT after the maker's watched orders added before it.
+   * @param {string[]} orderHashes      Hashes of watched orders
+   * @returns {Promise<OrderState[]>}   State of each order
+   * @private
+   */
+  private async _computeOrderStatesAsync(orderHashes: string[]): Promise<OrderState[]> {
+    const orderStateByOrderHash: { [orderHash: string]: OrderState } = {};
+    const openOrderHashes: string[] = [];
+    const makers = orderHashes.map(orderHash => this._orderByOrderHash[orderHash].maker);
+    // orders can expire and be forgotten while their state is computed.
+    const orderByOrderHash = _.pick(this._orderByOrderHash, this._getOrderHashesOfMakers(makers));
+    for (const orderHash of Object.keys(orderByOrderHash)) {
+      const closedOrderState = await this._getClosedOrderStateAsync(
+        orderByOrderHash[orderHash],
+        orderHash
+      );
+      if (closedOrderState) {
+        orderStateByOrderHash[orderHash] = closedOrderState;
+      } else {
+        openOrderHashes.push(orderHash);
+      }
+    }
+
+    let remainingFillableQtys: BigNumber[];
+    try {
+      remainingFillableQtys = await this._batchRemainingFillableCalculator.computeRemainingMakerFillablesAsync(
+        openOrderHashes.map(orderHash => orderByOrderHash[orderHash]),
+        openOrderHashes
+      );
+    } catch (err) {
+      const error = this._toMarketError(err);
+      return orderHashes.map(
+        orderHash => orderStateByOrderHash[orderHash] || { isValid: false, orderHash, error }
+      );
+    }
+
+    for (let i = 0; i < openOrderHashes.length; i++) {
+      const orderHash = openOrderHashes[i];
+      if (!_.includes(orderHashes, orderHash)) {
+        continue;
+      }
+      orderStateByOrderHash[orderHash] = remainingFillableQtys[i].isZero()
+        ? {
+            isValid: false,
+            orderHash,
+            error: await this._getUnfillableErrorAsync(orderByOrderHash[orderHash], orderHash)
+          }
+        : { isValid: true, orderHash, remainingFillableQty: remainingFillableQtys[i] };
+    }
+    return orderHashes.map(orderHash => orderStateByOrderHash[orderHash]);
+  }
+
+  /**
+   * Gets the state of an order that can no longer be filled whatever its maker holds.
+   * @param {SignedOrder} signedOrder
+   * @param {string} orderHash
+   * @returns {Promise<OrderState | undefined>}   undefined while the order is open
+   * @private
+   */
+  private async _getClosedOrderStateAsync(
+    signedOrder: SignedOrder,
+    orderHash: string
+  ): Promise<OrderState | undefined> {
+    const contractSet = await this._getContractSetAsync(signedOrder.contractAddress);
+
+    if (await contractSet.marketContract.isSettled) {
+      return { isValid: false, orderHash, error: MarketError.ContractAlreadySettled };
+    }
+
+    const filledOrCancelledQty = await this._orderFilledCancelledLazyStore.getQtyFilledOrCancelledAsync(
+      signedOrder.contractAddress,
+      orderHash
+    );
+    if (
+      new BigNumber(filledOrCancelledQty)
+        .absoluteValue()
+        .isGreaterThanOrEqualTo(signedOrder.orderQty.absoluteValue())
+    ) {
+      return { isValid: false, orderHash, error: MarketError.OrderFilledOrCancelled };
+    }
+    return undefined;
+  }
+
+  /**
+   * Tells why the maker of an open order can't fill any of it: it can't pay the maker fee, or it
+   * lacks the collateral.
+   * @param {SignedOrder} signedOrder
+   * @param {string} orderHash
+   * @returns {Promise<MarketError>}
+   * @private
+   */
+  private async _getUnfillableErrorAsync(
+    signedOrder: SignedOrder,
+    orderHash: string
+  ): Promise<MarketError> {
+    const calculator = new RemainingFillableCalculator(this._market, signedOrder, orderHash);
+    try {
+      await calculator.assertSufficientFundsForFeeAsync(signedOrder.maker, signedOrder.makerFee);
+    } catch (err) {
+      return this._toMarketError(err);
+    }
+    return MarketError.InsufficientCollateralBalance;
+  }
+
+  /**
+   * Re-validates the supplied orders and emits their state if it changed. The other watched orders
+   * of their makers are re-validated too, as what is left for them may have changed.
+   * @param {string[]} orderHashes
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async _emitAndCacheOrderStatesAsync(orderHashes: string[]): Promise<void> {
+    const makers = orderHashes
+      .filter(orderHash => !_.isUndefined(this._orderByOrderHash[orderHash]))
+      .map(orderHash => this._orderByOrderHash[orderHash].maker);
+    const makerOrderHashes = this._getOrderHashesOfMakers(makers);
+    if (makerOrderHashes.length === 0) {
+      return;
+    }
+
+    for (const orderState of await this._computeOrderStatesAsync(makerOrderHashes)) {
+      this._emitIfChanged(orderState);
+    }
+  }
+
+  /**
+   * Caches the supplied order state and calls the subscriber if it differs from the cached one.
+   * @param {OrderState} orderState
+   * @private
+   */
+  private _emitIfChanged(orderState: OrderState): void {
+    const cachedOrderState = this._orderStateByOrderHashCache[orderState.orderHash];
+    if (!_.isUndefined(cachedOrderState) && _.isEqual(cachedOrderState, orderState)) {
+      return;
+    }
+    this._orderStateByOrderHashCache[orderState.orderHash] = orderState;
+    if (!_.isUndefined(this._callbackIfExists)) {
+      this._callbackIfExists(null, orderState);
+    }
+  }
+
+  /**
+   * Fetches all relevant events since the last poll and re-validates the orders they affect.
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async _pollForEventsAsync(): Promise<void> {
+    const latestBlockNumber = Number(await promisify(this._web3.eth.getBlockNumber, []));
+    if (_.isUndefined(this._lastPolledBlockNumber)) {
+      this._lastPolledBlockNumber = latestBlockNumber;
+      return;
+    }
+    if (
+      this._stateLayer === BlockParamLiteral.Latest &&
+      latestBlockNumber <= this._lastPolledBlockNumber
+    ) {
+      return;
+    }
+
+    const blockRange = {
+      fromBlock: this._lastPolledBlockNumber + 1,
+      toBlock: this._stateLayer === BlockParamLiteral.Pending ? this._stateLayer : latestBlockNumber
+    };
+    this._lastPolledBlockNumber = latestBlockNumber;
+
+    for (const marketContractAddress of Object.keys(this._contractSetByMarketContractAddress)) {
+      const orderHashes = await this._getOrderHashesAffectedByEventsAsync(
+        this._contractSetByMarketContractAddress[marketContractAddress],
+        blockRange
+      );
+      await this._emitAndCacheOrderStatesAsync(orderHashes);
+    }
+  }
+
+  /**
+   * Finds all the watched orders of a MarketContract that are affected by events in a block range.
+   * @param {ContractSet} contractSet
+   * @param {{}} blockRange
+   * @returns {Promise<string[]>}
+   * @private
+   */
+  private async _getOrderHashesAffectedByEventsAsync(
+    contractSet: ContractSet,
+    blockRange: { fromBlock: number; toBlock: number | string }
+  ): Promise<string[]> {
+    const marketContractAddress = contractSet.marketContract.address;
+    const mktToken: ERC20 = await this._market.marketContractWrapper.getERC20TokenContractAsync(
+      this._market.mktTokenContract.address
+    );
+    const affectedOrderHashes: string[] = [];
+    const affectedUsers: string[] = [];
+
+    const fillLogs = await contractSet.marketContract.OrderFilledEvent({}).get(blockRange);
+    for (const log of fillLogs) {
+      this._deleteQtyFilledOrCancelled(marketContractAddress, log.args.orderHash);
+      affectedOrderHashes.push(log.args.orderHash);
+      affectedUsers.push(log.args.maker, log.args.taker);
+    }
+
+    const cancelLogs = await contractSet.marketContract.OrderCancelledEvent({}).get(blockRange);
+    for (const log of cancelLogs) {
+      this._deleteQtyFilledOrCancelled(marketContractAddress, log.args.orderHash);
+      affectedOrderHashes.push(log.args.orderHash);
+    }
+
+    const balanceLogs = await contractSet.marketCollateralPool
+      .UpdatedUserBalanceEvent({})
+      .get(blockRange);
+    for (const log of balanceLogs) {
+      affectedUsers.push(log.args.user);
+    }
+
+    for (const token of [contractSet.collateralToken, mktToken]) {
+      const transferLogs = await token.TransferEvent({}).get(blockRange);
+      for (const log of transferLogs) {
+        affectedUsers.push(log.args.from, log.args.to);
+      }
+      const approvalLogs = await token.ApprovalEvent({}).get(blockRange);
+      for (const log of approvalLogs) {
+        affectedUsers.push(log.args.owner);
+      }
+    }
+
+    return affectedOrderHashes.concat(
+      this._getOrderHashesByMakers(marketContractAddress, affectedUsers)
+    );
+  }
+
+  /**
+   * Returns the hashes of all watched orders of a MarketContract made by one of the supplied makers.
+   * @param {string} marketContractAddress
+   * @param {string[]} makers
+   * @returns {string[]}
+   * @private
+   */
+  private _getOrderHashesByMakers(marketContractAddress: string, makers: string[]): string[] {
+    const normalizedMakers = makers.map(maker => String(maker).toLowerCase());
+    return Object.keys(this._orderByOrderHash).filter(orderHash => {
+      const signedOrder = this._orderByOrderHash[orderHash];
+      return (
+        signedOrder.contractAddress.toLowerCase() === marketContractAddress.toLowerCase() &&
+        _.includes(normalizedMakers, signedOrder.maker.toLowerCase())
+      );
+    });
+  }
+
+  /**
+   * Returns the hashes of all watched orders made by one of the supplied makers, in the order they
+   * were added.
+   * @param {string[]} makers
+   * @returns {string[]}
+   * @private
+   */
+  private _getOrderHashesOfMakers(makers: string[]): string[] {
+    const normalizedMakers = makers.map(maker => maker.toLowerCase());
+    return Object.keys(this._orderByOrderHash).filter(orderHash =>
+      _.includes(normalizedMakers, this._orderByOrderHash[orderHash].maker.toLowerCase())
+    );
+  }
+
+  /**
+   * Re-validates every watched order. Clears the filled / cancelled store so that missed events
+   * don't leave stale quantities behind.
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async _cleanupAsync(): Promise<void> {
+    this._orderFilledCancelledLazyStore.deleteAll();
+    await this._emitAndCacheOrderStatesAsync(Object.keys(this._orderByOrderHash));
+  }
+
+  /**
+   * Returns the contract set of a MarketContract, creating it if it doesn't exist yet.
+   * @param {string} marketContractAddress
+   * @returns {Promise<ContractSet>}
+   * @private
+   */
+  private async _getContractSetAsync(marketContractAddress: string): Promise<ContractSet> {
+    const normalizedMarketAddress = marketContractAddress.toLowerCase();
+    let contractSet = this._contractSetByMarketContractAddress[normalizedMarketAddress];
+    if (!_.isUndefined(contractSet)) {
+      return contractSet;
+    }
+
+    const marketContract: MarketContract = new MarketContract(this._web3, marketContractAddress);
+    const marketCollateralPool: MarketCollateralPool = new MarketCollateralPool(
+      this._web3,
+      await marketContract.MARKET_COLLATERAL_POOL_ADDRESS
+    );
+    const collateralToken: ERC20 = await this._market.marketContractWrapper.getERC20TokenContractAsync(
+      await marketContract.COLLATERAL_TOKEN_ADDRESS
+    );
+
+    contractSet = new ContractSet(marketContract, marketCollateralPool, collateralToken);
+    this._contractSetByMarketContractAddress[normalizedMarketAddress] = contractSet;
+    return contractSet;
+  }
+
+  /**
+   * Drops all the state kept for an order.
+   * @param {string} orderHash
+   * @private
+   */
+  private _forgetOrder(orderHash: string): void {
+    const signedOrder = this._orderByOrderHash[orderHash];
+    delete this._orderByOrderHash[orderHash];
+    delete this._orderStateByOrderHashCache[orderHash];
+    this._deleteQtyFilledOrCancelled(signedOrder.contractAddress, orderHash);
+  }
+
+  /**
+   * Removes an order from the filled / cancelled store, if the store knows about its contract.
+   * @param {string} marketContractAddress
+   * @param {string} orderHash
+   * @private
+   */
+  private _deleteQtyFilledOrCancelled(marketContractAddress: string, orderHash: string): void {
+    try {
+      this._orderFilledCancelledLazyStore.deleteQtyFilledOrCancelled(
+        marketContractAddress,
+        orderHash
+      );
+    } catch (err) {
+      // nothing has been stored for this contract yet.
+    }
+  }
+
+  /**
+   * Maps an error thrown while validating an order to a MarketError.
+   * @param {Error} err
+   * @returns {MarketError}
+   * @private
+   */
+  private _toMarketError(err: Error): MarketError {
+    const marketErrors: string[] = _.values(MarketError);
+    return _.includes(marketErrors, err.message)
+      ? (err.message as MarketError)
+      : MarketError.UnhandledError;
+  }
+  // endregion //Private Methods
+
+  // region Event Handlers
+  // *****************************************************************
+  // ****                     Event Handlers                     ****
+  // *****************************************************************
+  /**
+   * Called by the ExpirationWatcher when a watched order expires.
+   * @param {string} orderHash
+   * @private
+   */
+  private _onOrderExpired(orderHash: string): void {
+    if (_.isUndefined(this._orderByOrderHash[orderHash])) {
+      return;
+    }
+    // the ExpirationWatcher has already stopped tracking this order.
+    this._emitIfChanged({ isValid: false, orderHash, error: MarketError.OrderExpired });
+    this._forgetOrder(orderHash);
+  }
+
+  /**
+   * Forwards errors raised while polling or cleaning up to the subscriber.
+   * @param {Error} err
+   * @private
+   */
+  private _onError(err: Error): void {
+    if (!_.isUndefined(this._callbackIfExists)) {
+      this._callbackIfExists(err);
+    }
+  }
+  // endregion //Event Handlers
+}
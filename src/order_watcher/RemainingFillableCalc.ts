@@ -2,12 +2,16 @@ import { BigNumber } from 'bignumber.js';
 
 // Types
 import { MarketError } from '../types';
-import { SignedOrder } from '@marketprotocol/types';
+import { ERC20, SignedOrder } from '@marketprotocol/types';
+
+import { assert } from '../assert';
+import { constants } from '../constants';
 import { Market } from '../Market';
 
 /**
  * This class includes the functionality to calculate remaining fillable amount of the order.
- * Amount fillable depends on order, a new one or partially filled and amount of collateral.
+ * Amount fillable depends on order, a new one or partially filled, the collateral of each side
+ * and the MKT each side holds for its fee.
  */
 export class RemainingFillableCalculator {
   // region Members
@@ -18,8 +22,6 @@ export class RemainingFillableCalculator {
   private _market: Market;
   private _signedOrder: SignedOrder;
   private _signedOrderHash: string;
-  private _collateralPoolAddress: string;
-  private _collateralTokenAddress: string;
 
   // endregion // members
 
@@ -28,16 +30,8 @@ export class RemainingFillableCalculator {
   // ****                     Constructors                        ****
   // *****************************************************************
   //
-  constructor(
-    market: Market,
-    collateralPoolAddress: string,
-    collateralTokenAddress: string,
-    signedOrder: SignedOrder,
-    signedOrderHash: string
-  ) {
+  constructor(market: Market, signedOrder: SignedOrder, signedOrderHash: string) {
     this._market = market;
-    this._collateralTokenAddress = collateralTokenAddress;
-    this._collateralPoolAddress = collateralPoolAddress;
     this._signedOrder = signedOrder;
     this._signedOrderHash = signedOrderHash;
   }
@@ -50,103 +44,136 @@ export class RemainingFillableCalculator {
   // ****                     Public Methods                      ****
   // *****************************************************************
 
+  /**
+   * Computes the qty of the order the maker can still fill, in the direction of the order.
+   * Rejects when the maker can't pay the maker fee in MKT.
+   * @returns {Promise<BigNumber>}
+   */
   public async computeRemainingMakerFillable(): Promise<BigNumber> {
-    let fillableQty: BigNumber;
-    const hasAvailableFeeFunds: boolean = await this._hasMakerSufficientFundsForFee();
-
-    if (!hasAvailableFeeFunds) {
-      return Promise.reject<BigNumber>(new Error(MarketError.InsufficientBalanceForTransfer));
-    }
+    await this.assertSufficientFundsForFeeAsync(
+      this._signedOrder.maker,
+      this._signedOrder.makerFee
+    );
 
+    const remainingQty = await this.getRemainingQtyAsync();
     const makerAvailableCollateral = await this._getAvailableCollateral(this._signedOrder.maker);
-    const neededCollateral = await this._market.calculateNeededCollateralAsync(
-      this._signedOrder.contractAddress,
-      this._signedOrder.orderQty,
-      this._signedOrder.price
+    const neededCollateralPerQty = await this.getNeededCollateralPerQtyAsync(false);
+
+    return this._toOrderDirection(
+      this.getFillableQty(makerAvailableCollateral, neededCollateralPerQty, remainingQty)
+    );
+  }
+
+  /**
+   * Computes the qty of the order a taker can fill, in the direction of the order. The taker
+   * takes the opposite side of the order, so its collateral is checked against the collateral
+   * that side needs. Rejects when either side can't pay its fee in MKT.
+   * @param {string} taker   Address of the taker, defaults to the taker of the order
+   * @returns {Promise<BigNumber>}
+   */
+  public async computeRemainingTakerFillable(
+    taker: string = this._signedOrder.taker
+  ): Promise<BigNumber> {
+    assert.assert(taker !== constants.NULL_ADDRESS, 'taker is required for an open order');
+    assert.isETHAddressHex('taker', taker);
+
+    const makerFillable = (await this.computeRemainingMakerFillable()).absoluteValue();
+    await this.assertSufficientFundsForFeeAsync(taker, this._signedOrder.takerFee);
+
+    const takerAvailableCollateral = await this._getAvailableCollateral(taker);
+    const neededCollateralPerQty = await this.getNeededCollateralPerQtyAsync(true);
+
+    return this._toOrderDirection(
+      this.getFillableQty(takerAvailableCollateral, neededCollateralPerQty, makerFillable)
     );
+  }
 
+  /**
+   * Gets the qty of the order that is neither filled nor cancelled, as a positive number.
+   * @returns {Promise<BigNumber>}
+   */
+  public async getRemainingQtyAsync(): Promise<BigNumber> {
     const alreadyFilledOrCancelled = await this._market.getQtyFilledOrCancelledFromOrderAsync(
       this._signedOrder.contractAddress,
       this._signedOrderHash
     );
-
-    const remainingToFill = this._signedOrder.orderQty.minus(alreadyFilledOrCancelled);
-
-    fillableQty = makerAvailableCollateral
-      .dividedBy(neededCollateral)
-      .times(this._signedOrder.orderQty);
-
-    return BigNumber.min(fillableQty, remainingToFill);
+    return BigNumber.max(
+      this._signedOrder.orderQty.minus(alreadyFilledOrCancelled).absoluteValue(),
+      0
+    );
   }
 
-  public async computeRemainingTakerFillable(): Promise<BigNumber> {
-    const makerFillable = await this.computeRemainingMakerFillable();
-    const takerAvailableCollateral = await this._getAvailableCollateral(this._signedOrder.taker);
-    const hasAvailableFeeFunds: boolean = await this._hasTakerSufficientFundsForFee();
-
-    if (!hasAvailableFeeFunds) {
-      return Promise.reject<BigNumber>(new Error(MarketError.InsufficientBalanceForTransfer));
-    }
-
+  /**
+   * Gets the collateral one side of the order needs per contract filled. Collateral is linear in
+   * the qty, so the need of the whole order is split evenly.
+   * @param {boolean} isTaker   Whether to compute the need of the taker, who takes the opposite
+   *                            side of the order
+   * @returns {Promise<BigNumber>}
+   */
+  public async getNeededCollateralPerQtyAsync(isTaker: boolean): Promise<BigNumber> {
     const neededCollateral = await this._market.calculateNeededCollateralAsync(
       this._signedOrder.contractAddress,
-      this._signedOrder.orderQty,
+      // opposite direction of the order sign! If i fill a buy order, I am selling / short.
+      isTaker ? this._signedOrder.orderQty.times(-1) : this._signedOrder.orderQty,
       this._signedOrder.price
     );
-
-    let takerFillable = takerAvailableCollateral
-      .dividedBy(neededCollateral)
-      .times(this._signedOrder.orderQty);
-
-    return BigNumber.min(makerFillable, takerFillable);
+    return neededCollateral.dividedBy(this._signedOrder.orderQty.absoluteValue());
   }
 
-  // endregion // Public Methods
-
-  // region Private Methods
-  // *****************************************************************
-  // ****                     Private Methods                     ****
-  // *****************************************************************
-
-  private async _hasMakerSufficientFundsForFee(): Promise<boolean> {
-    const makerMktBalance = await this._getAvailableFeeFunds(this._signedOrder.maker);
-    const makerFeeNeeded = this._signedOrder.makerFee;
-
-    return makerMktBalance.gte(makerFeeNeeded);
+  /**
+   * Computes how many whole contracts, up to a maximum, an amount of collateral covers.
+   * @param {BigNumber} availableCollateral      Collateral available to the side
+   * @param {BigNumber} neededCollateralPerQty   Collateral the side needs per contract
+   * @param {BigNumber} maxQty                   Qty that can be filled at most, positive
+   * @returns {BigNumber}                        Fillable qty, positive
+   */
+  public getFillableQty(
+    availableCollateral: BigNumber,
+    neededCollateralPerQty: BigNumber,
+    maxQty: BigNumber
+  ): BigNumber {
+    if (neededCollateralPerQty.isZero()) {
+      // filling at the price bound of the side locks no collateral.
+      return maxQty;
+    }
+    return BigNumber.min(availableCollateral.dividedToIntegerBy(neededCollateralPerQty), maxQty);
   }
 
-  private async _hasTakerSufficientFundsForFee(): Promise<boolean> {
-    const takerMktBalance = await this._getAvailableFeeFunds(this._signedOrder.taker);
-    const takerFeeNeeded = this._signedOrder.takerFee;
-
-    return takerMktBalance.gte(takerFeeNeeded);
-  }
+  /**
+   * Rejects when an account hasn't enough MKT, or hasn't allowed enough MKT to the fee recipient
+   * of the order, to pay a fee. Orders without a fee recipient pay no fees.
+   * @param {string} account   Address of the account paying the fee
+   * @param {BigNumber} fee    Fee in MKT base units
+   * @returns {Promise<void>}
+   */
+  public async assertSufficientFundsForFeeAsync(account: string, fee: BigNumber): Promise<void> {
+    if (fee.isZero() || this._signedOrder.feeRecipient === constants.NULL_ADDRESS) {
+      return;
+    }
 
-  private async _getAvailableFeeFunds(accountAddress: string): Promise<BigNumber> {
+    const mktToken: ERC20 = await this._market.marketContractWrapper.getERC20TokenContractAsync(
+      this._market.mktTokenContract.address
+    );
     const allowance = new BigNumber(
-      await this._market.marketContractWrapper.getAllowanceAsync(
-        this._collateralTokenAddress,
-        accountAddress,
-        this._signedOrder.feeRecipient
-      )
+      await mktToken.allowance(account, this._signedOrder.feeRecipient)
     );
-
-    if (
-      (accountAddress === this._signedOrder.maker &&
-        allowance.isLessThan(this._signedOrder.makerFee)) ||
-      (accountAddress === this._signedOrder.taker &&
-        allowance.isLessThan(this._signedOrder.takerFee))
-    ) {
-      return Promise.reject<BigNumber>(new Error(MarketError.InsufficientAllowanceForTransfer));
+    if (allowance.isLessThan(fee)) {
+      return Promise.reject<void>(new Error(MarketError.InsufficientAllowanceForTransfer));
     }
 
-    const funds = await this._market.marketContractWrapper.getBalanceAsync(
-      this._collateralTokenAddress,
-      accountAddress
-    );
-    return funds;
+    const balance = new BigNumber(await mktToken.balanceOf(account));
+    if (balance.isLessThan(fee)) {
+      return Promise.reject<void>(new Error(MarketError.InsufficientBalanceForTransfer));
+    }
   }
 
+  // endregion // Public Methods
+
+  // region Private Methods
+  // *****************************************************************
+  // ****                     Private Methods                     ****
+  // *****************************************************************
+
   private async _getAvailableCollateral(accountAddress: string): Promise<BigNumber> {
     const balance = await this._market.getUserAccountBalanceAsync(
       this._signedOrder.contractAddress,
@@ -154,5 +181,9 @@ export class RemainingFillableCalculator {
     );
     return balance || new BigNumber(0);
   }
+
+  private _toOrderDirection(qty: BigNumber): BigNumber {
+    return this._signedOrder.orderQty.isNegative() && !qty.isZero() ? qty.negated() : qty;
+  }
   // endregion // Private Methods
 }
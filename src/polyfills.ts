@@ -0,0 +1,11 @@
+/**
+ * Polyfills the library needs on the runtimes it supports, loaded once by the package entry point.
+ *
+ * Node 8 does not define Symbol.asyncIterator, which async iteration (e.g. iterateContractFills)
+ * is compiled against. It is only defined when missing, as the registered
+ * `Symbol.for('Symbol.asyncIterator')` that other polyfills use, so runtimes that have it are left
+ * untouched.
+ */
+if (!Symbol.asyncIterator) {
+  (Symbol as { asyncIterator?: symbol }).asyncIterator = Symbol.for('Symbol.asyncIterator');
+}
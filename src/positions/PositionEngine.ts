@@ -0,0 +1,448 @@
+import BigNumber from 'bignumber.js';
+import * as _ from 'lodash';
+
+// Types
+import {
+  ContractMetaData,
+  ContractPortfolio,
+  MarketError,
+  OrderFilledEvent,
+  PnL,
+  Portfolio,
+  PortfolioTotal,
+  Position,
+  PositionLots,
+  SettlementPayout
+} from '../types';
+
+import { assert } from '../assert';
+import { Utils } from '../lib/Utils';
+import { Market } from '../Market';
+
+/**
+ * Builds typed positions from the positions held in a MarketCollateralPool and rebuilds the lots
+ * of a user from the fill history. All math is done on BigNumbers, so base unit prices and
+ * quantities of any size are kept exact.
+ */
+export class PositionEngine {
+  // region Members
+  // *****************************************************************
+  // ****                     Members                             ****
+  // *****************************************************************
+  private readonly _market: Market;
+  // endregion // members
+
+  // region Constructors
+  // *****************************************************************
+  // ****                     Constructors                        ****
+  // *****************************************************************
+  /**
+   * Instantiates a new PositionEngine
+   * @param {Market} market   Market instance used to read positions and contract meta data
+   */
+  constructor(market: Market) {
+    this._market = market;
+  }
+  // endregion//Constructors
+
+  // region Public Methods
+  // *****************************************************************
+  // ****                     Public Methods                      ****
+  // *****************************************************************
+  /**
+   * Gets the positions a user holds in the collateral pool of a MarketContract.
+   * @param {string} marketContractAddress   Address of the MarketContract
+   * @param {string} userAddress             Address of the user
+   * @param {boolean} consolidate            Merge positions with the same price
+   * @returns {Promise<Position[]>}          The positions, sorted by price
+   */
+  public async getPositionsAsync(
+    marketContractAddress: string,
+    userAddress: string,
+    consolidate: boolean = false
+  ): Promise<Position[]> {
+    assert.isETHAddressHex('marketContractAddress', marketContractAddress);
+    assert.isETHAddressHex('userAddress', userAddress);
+
+    const positions = await this._getPositionsAsync(
+      marketContractAddress,
+      userAddress,
+      await this._market.getContractMetaDataAsync(marketContractAddress)
+    );
+    return consolidate ? this.consolidatePositions(positions) : this._sortByPrice(positions);
+  }
+
+  /**
+   * Merges positions with the same price and side, summing their qty and locked collateral.
+   * @param {Position[]} positions   Positions to merge
+   * @returns {Position[]}           The merged positions, sorted by price
+   */
+  public consolidatePositions(positions: Position[]): Position[] {
+    const positionGroups = _.groupBy(
+      positions,
+      position => `${position.side}:${position.price.toFixed()}`
+    );
+    return this._sortByPrice(
+      _.values(positionGroups).map(group => ({
+        price: group[0].price,
+        qty: group.reduce((sum, position) => sum.plus(position.qty), new BigNumber(0)),
+        side: group[0].side,
+        lockedCollateral: group.reduce(
+          (sum, position) => sum.plus(position.lockedCollateral),
+          new BigNumber(0)
+        )
+      }))
+    );
+  }
+
+  /**
+   * Calculates the volume-weighted average entry price of positions or lots.
+   * @param {Array<{price: BigNumber, qty: BigNumber}>} positions   Positions or lots
+   * @returns {BigNumber | null}   The average entry price, null when the total qty is zero
+   */
+  public getAverageEntryPrice(
+    positions: Array<{ price: BigNumber; qty: BigNumber }>
+  ): BigNumber | null {
+    const totalQty = positions.reduce(
+      (sum, position) => sum.plus(position.qty.absoluteValue()),
+      new BigNumber(0)
+    );
+    if (totalQty.isZero()) {
+      return null;
+    }
+    const totalValue = positions.reduce(
+      (sum, position) => sum.plus(position.price.times(position.qty.absoluteValue())),
+      new BigNumber(0)
+    );
+    return totalValue.dividedBy(totalQty);
+  }
+
+  /**
+   * Calculates the PnL of a user in a MarketContract from its fill history. Closed lots are
+   * matched FIFO, open lots are marked to the last price or, once settled, to the settlement price.
+   * @param {string} marketContractAddress   Address of the MarketContract
+   * @param {string} userAddress             Address of the user
+   * @returns {Promise<PnL>}
+   */
+  public async getPnLAsync(marketContractAddress: string, userAddress: string): Promise<PnL> {
+    assert.isETHAddressHex('marketContractAddress', marketContractAddress);
+    assert.isETHAddressHex('userAddress', userAddress);
+
+    return this._getPnLAsync(
+      marketContractAddress,
+      userAddress,
+      await this._market.getContractMetaDataAsync(marketContractAddress)
+    );
+  }
+
+  /**
+   * Gets the collateral, positions and PnL of a user across MarketContracts.
+   * @param {string} userAddress                 Address of the user
+   * @param {string[]} marketContractAddresses   Addresses of the MarketContracts, defaults to
+   *                                             every whitelisted contract
+   * @returns {Promise<Portfolio>}
+   */
+  public async getPortfolioAsync(
+    userAddress: string,
+    marketContractAddresses?: string[]
+  ): Promise<Portfolio> {
+    assert.isETHAddressHex('userAddress', userAddress);
+    const contractAddresses =
+      marketContractAddresses || (await this._market.getAddressWhiteListAsync());
+
+    const contracts: ContractPortfolio[] = [];
+    for (const marketContractAddress of contractAddresses) {
+      assert.isETHAddressHex('marketContractAddress', marketContractAddress);
+      const metaData = await this._market.getContractMetaDataAsync(marketContractAddress);
+      const positions = await this._getPositionsAsync(marketContractAddress, userAddress, metaData);
+
+      contracts.push({
+        marketContractAddress,
+        collateralTokenAddress: metaData.collateralTokenAddress,
+        freeCollateral: new BigNumber(
+          await this._market.getUserAccountBalanceAsync(marketContractAddress, userAddress)
+        ),
+        lockedCollateral: positions.reduce(
+          (sum, position) => sum.plus(position.lockedCollateral),
+          new BigNumber(0)
+        ),
+        netPosition: new BigNumber(
+          await this._market.getUserNetPositionAsync(marketContractAddress, userAddress)
+        ),
+        pnl: await this._getPnLAsync(marketContractAddress, userAddress, metaData),
+        expirationTimeStamp: new BigNumber(metaData.expirationTimeStamp),
+        isExpired: Utils.getCurrentUnixTimestampSec().isGreaterThanOrEqualTo(
+          metaData.expirationTimeStamp
+        ),
+        isSettled: metaData.isSettled
+      });
+    }
+
+    const totals: PortfolioTotal[] = _.values(
+      _.groupBy(contracts, contract => contract.collateralTokenAddress.toLowerCase())
+    ).map(group => ({
+      collateralTokenAddress: group[0].collateralTokenAddress,
+      freeCollateral: group.reduce(
+        (sum, contract) => sum.plus(contract.freeCollateral),
+        new BigNumber(0)
+      ),
+      lockedCollateral: group.reduce(
+        (sum, contract) => sum.plus(contract.lockedCollateral),
+        new BigNumber(0)
+      ),
+      totalPnL: group.reduce((sum, contract) => sum.plus(contract.pnl.totalPnL), new BigNumber(0))
+    }));
+
+    return { userAddress, contracts, totals };
+  }
+
+  /**
+   * Estimates what a user gets back from settleAndClose: the unallocated balance plus the
+   * collateral released by closing every position at the settlement price.
+   * @param {string} marketContractAddress   Address of the MarketContract
+   * @param {string} userAddress             Address of the user
+   * @param {BigNumber} price                Hypothetical settlement price, clamped to the price
+   *                                         floor and cap. Defaults to the contract's settlement
+   *                                         price, which requires the contract to be settled.
+   * @returns {Promise<SettlementPayout>}
+   */
+  public async estimateSettlementPayoutAsync(
+    marketContractAddress: string,
+    userAddress: string,
+    price?: BigNumber
+  ): Promise<SettlementPayout> {
+    assert.isETHAddressHex('marketContractAddress', marketContractAddress);
+    assert.isETHAddressHex('userAddress', userAddress);
+
+    const metaData = await this._market.getContractMetaDataAsync(marketContractAddress);
+    if (_.isUndefined(price) && !metaData.isSettled) {
+      return Promise.reject(new Error(MarketError.ContractNotSettled));
+    }
+    const settlementPrice = BigNumber.min(
+      BigNumber.max(
+        _.isUndefined(price) ? new BigNumber(metaData.settlementPrice) : price,
+        metaData.priceFloor
+      ),
+      metaData.priceCap
+    );
+
+    const positions = await this._getPositionsAsync(marketContractAddress, userAddress, metaData);
+    const positionPayout = positions.reduce(
+      (sum, position) =>
+        sum.plus(
+          Utils.calculateNeededCollateral(
+            metaData.priceFloor,
+            metaData.priceCap,
+            metaData.qtyMultiplier,
+            position.qty,
+            settlementPrice
+          )
+        ),
+      new BigNumber(0)
+    );
+    const freeCollateral = new BigNumber(
+      await this._market.getUserAccountBalanceAsync(marketContractAddress, userAddress)
+    );
+
+    return {
+      marketContractAddress,
+      userAddress,
+      settlementPrice,
+      isHypotheticalPrice: !_.isUndefined(price),
+      freeCollateral,
+      positionPayout,
+      totalPayout: freeCollateral.plus(positionPayout)
+    };
+  }
+
+  /**
+   * Rebuilds the lots of a user from the fills of a MarketContract. Reducing fills close the oldest
+   * open lots first (FIFO).
+   * @param {OrderFilledEvent[]} fills   Fills of the MarketContract, in block order
+   * @param {string} userAddress         Address of the user
+   * @returns {PositionLots}             The open lots and the closed parts of lots
+   */
+  public getLotsFromFills(fills: OrderFilledEvent[], userAddress: string): PositionLots {
+    const normalizedUserAddress = userAddress.toLowerCase();
+    let lots: PositionLots = { openLots: [], closedLots: [] };
+
+    for (const fill of fills) {
+      const filledQty = new BigNumber(fill.filledQty);
+      const price = new BigNumber(fill.price);
+      // the maker's position moves by the filled qty, the taker's by the opposite qty.
+      if (String(fill.maker).toLowerCase() === normalizedUserAddress) {
+        lots = this.applyFill(lots, price, filledQty, fill.txHash, fill.blockNumber);
+      }
+      if (String(fill.taker).toLowerCase() === normalizedUserAddress) {
+        lots = this.applyFill(lots, price, filledQty.negated(), fill.txHash, fill.blockNumber);
+      }
+    }
+    return lots;
+  }
+
+  /**
+   * Applies a fill to a set of lots. A fill on the side of the open lots opens a new lot, a fill on
+   * the other side closes the oldest open lots first (FIFO) and opens a lot with any qty left.
+   * @param {PositionLots} lots            The current lots
+   * @param {BigNumber} price              Price of the fill
+   * @param {BigNumber} qty                Signed qty of the fill for the lots' owner
+   * @param {string} txHash                Hash of the transaction of the fill
+   * @param {number | null} blockNumber    Block of the fill
+   * @returns {PositionLots}               The updated lots
+   */
+  public applyFill(
+    lots: PositionLots,
+    price: BigNumber,
+    qty: BigNumber,
+    txHash: string,
+    blockNumber: number | null
+  ): PositionLots {
+    const openLots = [...lots.openLots];
+    const closedLots = [...lots.closedLots];
+
+    let remainingQty = qty;
+    while (
+      openLots.length > 0 &&
+      !remainingQty.isZero() &&
+      openLots[0].qty.isNegative() !== remainingQty.isNegative()
+    ) {
+      const oldestLot = openLots[0];
+      const closedQty = BigNumber.min(
+        oldestLot.qty.absoluteValue(),
+        remainingQty.absoluteValue()
+      ).times(oldestLot.qty.isNegative() ? -1 : 1);
+
+      closedLots.push({
+        entryPrice: oldestLot.price,
+        exitPrice: price,
+        qty: closedQty,
+        txHash,
+        blockNumber
+      });
+      remainingQty = remainingQty.plus(closedQty);
+      if (closedQty.isEqualTo(oldestLot.qty)) {
+        openLots.shift();
+      } else {
+        openLots[0] = { ...oldestLot, qty: oldestLot.qty.minus(closedQty) };
+      }
+    }
+
+    if (!remainingQty.isZero()) {
+      openLots.push({ price, qty: remainingQty, txHash, blockNumber });
+    }
+    return { openLots, closedLots };
+  }
+  // endregion //Public Methods
+
+  // region Private Methods
+  // *****************************************************************
+  // ****                     Private Methods                     ****
+  // *****************************************************************
+  /**
+   * Reads the positions of a user from the collateral pool of a MarketContract.
+   * @param {string} marketContractAddress   Address of the MarketContract
+   * @param {string} userAddress             Address of the user
+   * @param {ContractMetaData} metaData      Meta data of the MarketContract
+   * @returns {Promise<Position[]>}          The positions, in the order of the pool
+   * @private
+   */
+  private async _getPositionsAsync(
+    marketContractAddress: string,
+    userAddress: string,
+    metaData: ContractMetaData
+  ): Promise<Position[]> {
+    const contractWrapper = this._market.marketContractWrapper;
+    const positionCount = new BigNumber(
+      await contractWrapper.getPositionCountAsync(marketContractAddress, userAddress)
+    );
+
+    const positions: Position[] = [];
+    for (let i = 0; i < positionCount.toNumber(); i++) {
+      const [price, qty] = await contractWrapper.getUserPositionAsync(
+        marketContractAddress,
+        userAddress,
+        i
+      );
+      positions.push({
+        price: new BigNumber(price),
+        qty: new BigNumber(qty),
+        side: new BigNumber(qty).isNegative() ? 'short' : 'long',
+        lockedCollateral: Utils.calculateNeededCollateral(
+          metaData.priceFloor,
+          metaData.priceCap,
+          metaData.qtyMultiplier,
+          new BigNumber(qty),
+          new BigNumber(price)
+        )
+      });
+    }
+
+    return positions;
+  }
+
+  /**
+   * Calculates the PnL of a user in a MarketContract from its fill history.
+   * @param {string} marketContractAddress   Address of the MarketContract
+   * @param {string} userAddress             Address of the user
+   * @param {ContractMetaData} metaData      Meta data of the MarketContract
+   * @returns {Promise<PnL>}
+   * @private
+   */
+  private async _getPnLAsync(
+    marketContractAddress: string,
+    userAddress: string,
+    metaData: ContractMetaData
+  ): Promise<PnL> {
+    const fills = await this._market.getContractFillsAsync(
+      marketContractAddress,
+      '0x0',
+      'latest',
+      userAddress,
+      'any'
+    );
+    const lots = this.getLotsFromFills(fills, userAddress);
+    const priceDivisor = new BigNumber(10).pow(metaData.priceDecimalPlaces.toNumber());
+    const lotPnL = (entryPrice: BigNumber, exitPrice: BigNumber, qty: BigNumber): BigNumber =>
+      exitPrice
+        .minus(entryPrice)
+        .times(qty)
+        .times(metaData.qtyMultiplier);
+
+    const realizedPnL = lots.closedLots.reduce(
+      (sum, lot) => sum.plus(lotPnL(lot.entryPrice, lot.exitPrice, lot.qty)),
+      new BigNumber(0)
+    );
+    const markPrice = new BigNumber(
+      metaData.isSettled ? metaData.settlementPrice : metaData.lastPrice
+    );
+    const openPnL = lots.openLots.reduce(
+      (sum, lot) => sum.plus(lotPnL(lot.price, markPrice, lot.qty)),
+      new BigNumber(0)
+    );
+    const averageEntryPrice = this.getAverageEntryPrice(lots.openLots);
+
+    return {
+      marketContractAddress,
+      userAddress,
+      netPosition: lots.openLots.reduce((sum, lot) => sum.plus(lot.qty), new BigNumber(0)),
+      averageEntryPrice: averageEntryPrice && averageEntryPrice.dividedBy(priceDivisor),
+      markPrice: markPrice.dividedBy(priceDivisor),
+      realizedPnL,
+      unrealizedPnL: metaData.isSettled ? new BigNumber(0) : openPnL,
+      settlementPnL: metaData.isSettled ? openPnL : null,
+      totalPnL: realizedPnL.plus(openPnL),
+      isSettled: metaData.isSettled
+    };
+  }
+
+  /**
+   * Sorts positions by price.
+   * @param {Position[]} positions
+   * @returns {Position[]}
+   * @private
+   */
+  private _sortByPrice(positions: Position[]): Position[] {
+    return [...positions].sort((a, b) => a.price.comparedTo(b.price));
+  }
+  // endregion //Private Methods
+}
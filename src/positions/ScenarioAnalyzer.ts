@@ -0,0 +1,184 @@
+import BigNumber from 'bignumber.js';
+import * as _ from 'lodash';
+
+// Types
+import { ContractScenario, Position, ScenarioPoint, ScenarioReport, ScenarioTotal } from '../types';
+
+import { assert } from '../assert';
+import { Market } from '../Market';
+
+const DEFAULT_PRICE_STEPS = 10;
+
+/**
+ * Values the open positions of a user at a grid of hypothetical reference prices spanning the
+ * PRICE_FLOOR to PRICE_CAP range of each MarketContract, to find the worst case loss and the
+ * break-even prices.
+ */
+export class ScenarioAnalyzer {
+  // region Members
+  // *****************************************************************
+  // ****                     Members                             ****
+  // *****************************************************************
+  private readonly _market: Market;
+  // endregion // members
+
+  // region Constructors
+  // *****************************************************************
+  // ****                     Constructors                        ****
+  // *****************************************************************
+  /**
+   * Instantiates a new ScenarioAnalyzer
+   * @param {Market} market   Market instance used to read positions and contract meta data
+   */
+  constructor(market: Market) {
+    this._market = market;
+  }
+  // endregion//Constructors
+
+  // region Public Methods
+  // *****************************************************************
+  // ****                     Public Methods                      ****
+  // *****************************************************************
+  /**
+   * Values the open positions of a user across MarketContracts.
+   * @param {string} userAddress                 Address of the user
+   * @param {string[]} marketContractAddresses   Addresses of the MarketContracts, defaults to
+   *                                             every whitelisted contract
+   * @param {number} priceSteps                  Number of intervals the price range is split in
+   * @returns {Promise<ScenarioReport>}
+   */
+  public async analyzeAsync(
+    userAddress: string,
+    marketContractAddresses?: string[],
+    priceSteps: number = DEFAULT_PRICE_STEPS
+  ): Promise<ScenarioReport> {
+    assert.isETHAddressHex('userAddress', userAddress);
+    assert.assert(
+      Number.isInteger(priceSteps) && priceSteps > 0,
+      `priceSteps must be a positive integer, got ${priceSteps}`
+    );
+    const contractAddresses =
+      marketContractAddresses || (await this._market.getAddressWhiteListAsync());
+
+    const contracts: ContractScenario[] = [];
+    for (const marketContractAddress of contractAddresses) {
+      const metaData = await this._market.getContractMetaDataAsync(marketContractAddress);
+      const positions = await this._market.positionEngine.getPositionsAsync(
+        marketContractAddress,
+        userAddress
+      );
+      const priceFloor = new BigNumber(metaData.priceFloor);
+      const priceCap = new BigNumber(metaData.priceCap);
+      const pnlCurve = this.getPnLCurve(
+        positions,
+        priceFloor,
+        priceCap,
+        new BigNumber(metaData.qtyMultiplier),
+        priceSteps
+      );
+
+      contracts.push({
+        marketContractAddress,
+        collateralTokenAddress: metaData.collateralTokenAddress,
+        netPosition: positions.reduce((sum, position) => sum.plus(position.qty), new BigNumber(0)),
+        priceFloor,
+        priceCap,
+        pnlCurve,
+        worstCase: _.reduce(
+          pnlCurve,
+          (worst, point) => (point.pnl.isLessThan(worst.pnl) ? point : worst),
+          pnlCurve[0]
+        ),
+        breakEvenPrices: this.getBreakEvenPrices(pnlCurve)
+      });
+    }
+
+    const totals: ScenarioTotal[] = _.values(
+      _.groupBy(contracts, contract => contract.collateralTokenAddress.toLowerCase())
+    ).map(group => ({
+      collateralTokenAddress: group[0].collateralTokenAddress,
+      worstCasePnL: group.reduce(
+        (sum, contract) => sum.plus(contract.worstCase.pnl),
+        new BigNumber(0)
+      )
+    }));
+
+    return { userAddress, contracts, totals };
+  }
+
+  /**
+   * Values positions at evenly spaced prices from the price floor to the price cap, both included.
+   * Prices between the two bounds are rounded down to whole contract price units.
+   * @param {Position[]} positions       Positions to value
+   * @param {BigNumber} priceFloor       PRICE_FLOOR of the MarketContract
+   * @param {BigNumber} priceCap         PRICE_CAP of the MarketContract
+   * @param {BigNumber} qtyMultiplier    QTY_MULTIPLIER of the MarketContract
+   * @param {number} priceSteps          Number of intervals the price range is split in
+   * @returns {ScenarioPoint[]}          PnL at each price, from floor to cap
+   */
+  public getPnLCurve(
+    positions: Position[],
+    priceFloor: BigNumber,
+    priceCap: BigNumber,
+    qtyMultiplier: BigNumber,
+    priceSteps: number = DEFAULT_PRICE_STEPS
+  ): ScenarioPoint[] {
+    const priceStep = priceCap.minus(priceFloor).dividedBy(priceSteps);
+    return _.range(priceSteps + 1).map(step => {
+      const price =
+        step === priceSteps
+          ? priceCap
+          : priceFloor.plus(priceStep.times(step)).integerValue(BigNumber.ROUND_FLOOR);
+      return {
+        price,
+        pnl: positions.reduce(
+          (sum, position) =>
+            sum.plus(
+              price
+                .minus(position.price)
+                .times(position.qty)
+                .times(qtyMultiplier)
+            ),
+          new BigNumber(0)
+        )
+      };
+    });
+  }
+
+  /**
+   * Finds the prices at which a PnL curve crosses zero. The PnL of positions in one contract is
+   * linear in the price, so interpolating between two points of the curve is exact.
+   * @param {ScenarioPoint[]} pnlCurve   PnL curve, sorted by price
+   * @returns {BigNumber[]}              Break-even prices, empty when the PnL never crosses zero
+   */
+  public getBreakEvenPrices(pnlCurve: ScenarioPoint[]): BigNumber[] {
+    const breakEvenPrices: BigNumber[] = [];
+    pnlCurve.forEach((point, i) => {
+      if (point.pnl.isZero()) {
+        breakEvenPrices.push(point.price);
+        return;
+      }
+      const nextPoint = pnlCurve[i + 1];
+      if (
+        _.isUndefined(nextPoint) ||
+        nextPoint.pnl.isZero() ||
+        point.pnl.isNegative() === nextPoint.pnl.isNegative()
+      ) {
+        return;
+      }
+      const pnlRange = nextPoint.pnl.minus(point.pnl);
+      breakEvenPrices.push(
+        point.price.plus(
+          nextPoint.price
+            .minus(point.price)
+            .times(point.pnl.negated())
+            .dividedBy(pnlRange)
+        )
+      );
+    });
+
+    // a flat curve at zero breaks even everywhere, which is no useful price.
+    return breakEvenPrices.length === pnlCurve.length ? [] : breakEvenPrices;
+  }
+  // endregion //Public Methods
+}
@@ -0,0 +1,229 @@
+import * as http from 'http';
+import * as _ from 'lodash';
+import * as url from 'url';
+
+// Types
+import { SignedOrder } from '@marketprotocol/types';
+import {
+  OrderBookEntry,
+  RelayerServerConfig,
+  SerializedRelayerOrderBook,
+  SerializedSignedOrder
+} from '../types';
+
+import { constants } from '../constants';
+import { deserializeOrder, serializeOrder } from '../lib/Order';
+import { Market } from '../Market';
+import { OrderBook } from '../order_book/OrderBook';
+
+/**
+ * Minimal relayer serving the API `RelayerClient` talks to, from an in-memory `OrderBook`. Posted
+ * orders go through the validation of `OrderBook.addOrderAsync`. Meant for integration tests and
+ * as a reference for relayer implementations, not for production.
+ */
+export class ReferenceRelayerServer {
+  // region Members
+  // *****************************************************************
+  // ****                     Members                             ****
+  // *****************************************************************
+  public readonly orderBook: OrderBook;
+  private readonly _port: number;
+  private readonly _feeRecipients: string[];
+  private _server: http.Server | null = null;
+  // endregion // members
+
+  // region Constructors
+  // *****************************************************************
+  // ****                     Constructors                        ****
+  // *****************************************************************
+  /**
+   * Instantiates a new ReferenceRelayerServer
+   * @param {Market} market                   Market instance used to validate orders
+   * @param {RelayerServerConfig} config      Optional server config
+   */
+  constructor(market: Market, config?: RelayerServerConfig) {
+    const serverConfig: RelayerServerConfig = config || {};
+    this.orderBook = new OrderBook(market);
+    this._port = serverConfig.port || 0;
+    this._feeRecipients = serverConfig.feeRecipients || [constants.NULL_ADDRESS];
+  }
+  // endregion//Constructors
+
+  // region Public Methods
+  // *****************************************************************
+  // ****                     Public Methods                      ****
+  // *****************************************************************
+  /**
+   * Starts listening.
+   * @returns {Promise<string>}   Base url of the server
+   */
+  public async startAsync(): Promise<string> {
+    if (this._server) {
+      return Promise.reject(new Error('Relayer server is already started'));
+    }
+    const server = http.createServer((request, response) => {
+      this._handleRequestAsync(request, response).catch(err =>
+        this._respond(response, 500, { error: err.message })
+      );
+    });
+    this._server = server;
+    return new Promise<string>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this._port, '127.0.0.1', () => {
+        resolve(`http://127.0.0.1:${(server.address() as { port: number }).port}`);
+      });
+    });
+  }
+
+  /**
+   * Stops listening.
+   * @returns {Promise<void>}
+   */
+  public async stopAsync(): Promise<void> {
+    const server = this._server;
+    if (!server) {
+      return;
+    }
+    this._server = null;
+    return new Promise<void>(resolve => server.close(() => resolve()));
+  }
+  // endregion //Public Methods
+
+  // region Private Methods
+  // *****************************************************************
+  // ****                     Private Methods                     ****
+  // *****************************************************************
+  /**
+   * Routes a request to its endpoint.
+   * @param {http.IncomingMessage} request
+   * @param {http.ServerResponse} response
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async _handleRequestAsync(
+    request: http.IncomingMessage,
+    response: http.ServerResponse
+  ): Promise<void> {
+    const requestUrl = url.parse(request.url || '', true);
+    const pathname = requestUrl.pathname || '';
+
+    if (request.method === 'POST' && pathname === '/v0/order') {
+      let signedOrder: SignedOrder;
+      try {
+        signedOrder = deserializeOrder(
+          JSON.parse(await this._readBodyAsync(request)) as SerializedSignedOrder
+        );
+      } catch (err) {
+        this._respond(response, 400, { error: err.message });
+        return;
+      }
+      if (!this._isAcceptedFeeRecipient(signedOrder.feeRecipient)) {
+        this._respond(response, 400, { error: 'Fee recipient is not accepted by this relayer' });
+        return;
+      }
+      try {
+        this._respond(response, 201, {
+          orderHash: await this.orderBook.addOrderAsync(signedOrder)
+        });
+      } catch (err) {
+        this._respond(response, 400, { error: err.message });
+      }
+      return;
+    }
+
+    if (request.method === 'GET' && pathname === '/v0/orderbook') {
+      const marketContractAddress = requestUrl.query.marketContractAddress;
+      if (
+        !_.isString(marketContractAddress) ||
+        !/^0x[0-9a-fA-F]{40}$/.test(marketContractAddress)
+      ) {
+        this._respond(response, 400, { error: 'marketContractAddress is required' });
+        return;
+      }
+      // drop the orders filled or cancelled since they were posted.
+      await this.orderBook.updateRemainingQtysAsync(marketContractAddress);
+      const orders = this.orderBook.getOrders(marketContractAddress);
+      const orderBook: SerializedRelayerOrderBook = {
+        marketContractAddress,
+        bids: orders.bids.map(entry => this._serializeEntry(entry)),
+        asks: orders.asks.map(entry => this._serializeEntry(entry))
+      };
+      this._respond(response, 200, orderBook);
+      return;
+    }
+
+    const orderPathMatch = /^\/v0\/order\/(0x[0-9a-fA-F]{64})$/.exec(pathname);
+    if (request.method === 'GET' && orderPathMatch) {
+      const entry = this.orderBook.getOrder(orderPathMatch[1]);
+      if (_.isUndefined(entry)) {
+        this._respond(response, 404, { error: 'Order not found' });
+        return;
+      }
+      this._respond(response, 200, this._serializeEntry(entry));
+      return;
+    }
+
+    if (request.method === 'GET' && pathname === '/v0/fee_recipients') {
+      this._respond(response, 200, this._feeRecipients);
+      return;
+    }
+
+    this._respond(response, 404, { error: 'Not found' });
+  }
+
+  /**
+   * Whether orders paying fees to an address are accepted.
+   * @param {string} feeRecipient
+   * @returns {boolean}
+   * @private
+   */
+  private _isAcceptedFeeRecipient(feeRecipient: string): boolean {
+    return _.some(
+      this._feeRecipients,
+      accepted => accepted.toLowerCase() === feeRecipient.toLowerCase()
+    );
+  }
+
+  /**
+   * Serializes an order of the book with the qty still fillable as remainingQty.
+   * @param {OrderBookEntry} entry
+   * @returns {SerializedSignedOrder}
+   * @private
+   */
+  private _serializeEntry(entry: OrderBookEntry): SerializedSignedOrder {
+    return serializeOrder({ ...entry.signedOrder, remainingQty: entry.remainingQty });
+  }
+
+  /**
+   * Reads the body of a request.
+   * @param {http.IncomingMessage} request
+   * @returns {Promise<string>}
+   * @private
+   */
+  private async _readBodyAsync(request: http.IncomingMessage): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+      let body = '';
+      request.setEncoding('utf8');
+      request.on('data', (chunk: string) => (body += chunk));
+      request.on('end', () => resolve(body));
+      request.on('error', reject);
+    });
+  }
+
+  /**
+   * Sends a JSON response.
+   * @param {http.ServerResponse} response
+   * @param {number} statusCode
+   * @param {{}} body
+   * @private
+   */
+  private _respond(response: http.ServerResponse, statusCode: number, body: {}): void {
+    const payload = JSON.stringify(body);
+    response.writeHead(statusCode, {
+      'Content-Type': 'application/json',
+      'Content-Length': Buffer.byteLength(payload)
+    });
+    response.end(payload);
+  }
+  // endregion //Private Methods
+}
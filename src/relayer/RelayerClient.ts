@@ -0,0 +1,168 @@
+import * as http from 'http';
+import * as https from 'https';
+import * as _ from 'lodash';
+import * as url from 'url';
+
+// Types
+import { SignedOrder } from '@marketprotocol/types';
+import { RelayerOrderBook, SerializedRelayerOrderBook, SerializedSignedOrder } from '../types';
+
+import { assert } from '../assert';
+import { deserializeOrder, serializeOrder } from '../lib/Order';
+
+/**
+ * Client of the HTTP API of a relayer, like the `ReferenceRelayerServer`. Orders travel in the
+ * serialized order format.
+ *
+ *   POST /v0/order                                       publishes an order
+ *   GET  /v0/orderbook?marketContractAddress=<address>   gets the book of a MarketContract
+ *   GET  /v0/order/<orderHash>                           gets an order
+ *   GET  /v0/fee_recipients                              lists the accepted fee recipients
+ *
+ * Errors are returned as `{ error: string }`, with the MarketError of a rejected order.
+ */
+export class RelayerClient {
+  // region Members
+  // *****************************************************************
+  // ****                     Members                             ****
+  // *****************************************************************
+  private readonly _relayerUrl: string;
+  // endregion // members
+
+  // region Constructors
+  // *****************************************************************
+  // ****                     Constructors                        ****
+  // *****************************************************************
+  /**
+   * Instantiates a new RelayerClient
+   * @param {string} relayerUrl   Base url of the relayer, e.g http://localhost:3000
+   */
+  constructor(relayerUrl: string) {
+    assert.assert(/^https?:\/\//.test(relayerUrl), `Expected an http(s) url, got ${relayerUrl}`);
+    this._relayerUrl = _.trimEnd(relayerUrl, '/');
+  }
+  // endregion//Constructors
+
+  // region Public Methods
+  // *****************************************************************
+  // ****                     Public Methods                      ****
+  // *****************************************************************
+  /**
+   * Publishes a signed order. The relayer validates it before adding it to its book.
+   * @param {SignedOrder} signedOrder   The order to publish
+   * @returns {Promise<string>}         The hash of the order
+   */
+  public async postOrderAsync(signedOrder: SignedOrder): Promise<string> {
+    const response = await this._requestAsync('POST', '/v0/order', serializeOrder(signedOrder));
+    return (response.body as { orderHash: string }).orderHash;
+  }
+
+  /**
+   * Gets the orders the relayer holds for a MarketContract.
+   * @param {string} marketContractAddress   Address of the MarketContract
+   * @returns {Promise<RelayerOrderBook>}
+   */
+  public async getOrderBookAsync(marketContractAddress: string): Promise<RelayerOrderBook> {
+    assert.isETHAddressHex('marketContractAddress', marketContractAddress);
+    const response = await this._requestAsync(
+      'GET',
+      `/v0/orderbook?marketContractAddress=${marketContractAddress}`
+    );
+    const orderBook = response.body as SerializedRelayerOrderBook;
+    return {
+      marketContractAddress: orderBook.marketContractAddress,
+      bids: orderBook.bids.map(order => deserializeOrder(order)),
+      asks: orderBook.asks.map(order => deserializeOrder(order))
+    };
+  }
+
+  /**
+   * Gets an order by its hash.
+   * @param {string} orderHash              Hash of the order
+   * @returns {Promise<SignedOrder | null>} The order, null if the relayer doesn't hold it
+   */
+  public async getOrderAsync(orderHash: string): Promise<SignedOrder | null> {
+    const response = await this._requestAsync('GET', `/v0/order/${orderHash}`, undefined, [404]);
+    if (response.statusCode === 404) {
+      return null;
+    }
+    return deserializeOrder(response.body as SerializedSignedOrder);
+  }
+
+  /**
+   * Lists the fee recipients the relayer accepts orders for.
+   * @returns {Promise<string[]>}
+   */
+  public async getFeeRecipientsAsync(): Promise<string[]> {
+    const response = await this._requestAsync('GET', '/v0/fee_recipients');
+    return response.body as string[];
+  }
+  // endregion //Public Methods
+
+  // region Private Methods
+  // *****************************************************************
+  // ****                     Private Methods                     ****
+  // *****************************************************************
+  /**
+   * Sends a request to the relayer and parses its JSON response. Rejects with the error of the
+   * relayer on any status other than 2xx or an allowed one.
+   * @param {string} method                 HTTP method
+   * @param {string} path                   Path and query of the endpoint
+   * @param {{}} body                       Body to send as JSON
+   * @param {number[]} allowedStatusCodes   Non 2xx status codes that resolve
+   * @returns {Promise<{statusCode: number, body: {}}>}
+   * @private
+   */
+  private async _requestAsync(
+    method: string,
+    path: string,
+    body?: {},
+    allowedStatusCodes: number[] = []
+  ): Promise<{ statusCode: number; body: {} }> {
+    const requestUrl = url.parse(`${this._relayerUrl}${path}`);
+    const payload = _.isUndefined(body) ? undefined : JSON.stringify(body);
+    const transport = requestUrl.protocol === 'https:' ? https : http;
+
+    return new Promise<{ statusCode: number; body: {} }>((resolve, reject) => {
+      const request = transport.request(
+        {
+          ...requestUrl,
+          method,
+          headers: _.isUndefined(payload)
+            ? {}
+            : {
+                'Content-Type': 'application/json',
+                'Content-Length': Buffer.byteLength(payload)
+              }
+        },
+        (response: http.IncomingMessage) => {
+          let responseBody = '';
+          response.setEncoding('utf8');
+          response.on('data', (chunk: string) => (responseBody += chunk));
+          response.on('end', () => {
+            let parsedBody: { error?: string };
+            try {
+              parsedBody = responseBody ? JSON.parse(responseBody) : {};
+            } catch (err) {
+              reject(new Error(`Relayer responded with invalid JSON: ${responseBody}`));
+              return;
+            }
+            const statusCode = response.statusCode || 0;
+            const isSuccess = statusCode >= 200 && statusCode < 300;
+            if (!isSuccess && !_.includes(allowedStatusCodes, statusCode)) {
+              reject(new Error(parsedBody.error || `Relayer responded with status ${statusCode}`));
+              return;
+            }
+            resolve({ statusCode, body: parsedBody });
+          });
+        }
+      );
+      request.on('error', reject);
+      if (!_.isUndefined(payload)) {
+        request.write(payload);
+      }
+      request.end();
+    });
+  }
+  // endregion //Private Methods
+}
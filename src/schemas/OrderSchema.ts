@@ -1,6 +1,9 @@
+import { constants } from '../constants';
+
 export const OrderSchema = {
   id: '/Order',
   properties: {
+    version: { enum: [constants.ORDER_SERIALIZATION_VERSION] },
     contractAddress: { $ref: '/Address' },
     expirationTimestamp: { $ref: '/Number' },
     feeRecipient: { $ref: '/Address' },
@@ -14,6 +17,7 @@ export const OrderSchema = {
     takerFee: { $ref: '/Number' }
   },
   required: [
+    'version',
     'contractAddress',
     'expirationTimestamp',
     'feeRecipient',
@@ -34,7 +38,8 @@ export const SignedOrderSchema = {
     { $ref: '/Order' },
     {
       properties: {
-        ecSignature: { $ref: '/ECSignature' }
+        ecSignature: { $ref: '/ECSignature' },
+        signatureScheme: { enum: ['ETH_SIGN', 'EIP712'] }
       },
       required: ['ecSignature']
     }
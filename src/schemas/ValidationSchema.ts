@@ -25,8 +25,9 @@ export const ECSignatureSchema = {
   type: 'object'
 };
 
+// BigNumbers are validated in their serialized form, a base 10 string without exponent.
 export const NumberSchema = {
   id: '/Number',
-  type: 'number',
-  pattern: '^\\d+(\\.\\d+)?$'
+  type: 'string',
+  pattern: '^-?\\d+(\\.\\d+)?$'
 };
@@ -0,0 +1,85 @@
+// Types
+import { ECSignature } from '@marketprotocol/types';
+import { EIP712TypedData, Signer } from '../types';
+
+import { assert } from '../assert';
+import { hashEIP712TypedData } from '../lib/Order';
+
+let ethUtil = require('ethereumjs-util');
+
+/**
+ * Signs locally with a private key, without a node or wallet.
+ */
+export class PrivateKeySigner implements Signer {
+  // region Members
+  // *****************************************************************
+  // ****                     Members                             ****
+  // *****************************************************************
+  private readonly _privateKey: Buffer;
+  private readonly _address: string;
+  // endregion // members
+
+  // region Constructors
+  // *****************************************************************
+  // ****                     Constructors                        ****
+  // *****************************************************************
+  /**
+   * Instantiates a new PrivateKeySigner
+   * @param {string} privateKey   Hex encoded 32 bytes private key
+   */
+  constructor(privateKey: string) {
+    const privateKeyBuff: Buffer = ethUtil.toBuffer(privateKey);
+    assert.assert(ethUtil.isValidPrivate(privateKeyBuff), 'privateKey is not a valid private key');
+    this._privateKey = privateKeyBuff;
+    this._address = ethUtil.bufferToHex(ethUtil.privateToAddress(privateKeyBuff));
+  }
+  // endregion//Constructors
+
+  // region Public Methods
+  // *****************************************************************
+  // ****                     Public Methods                      ****
+  // *****************************************************************
+  /**
+   * Gets the address of the private key.
+   * @returns {Promise<string>}
+   */
+  public async getAddressAsync(): Promise<string> {
+    return this._address;
+  }
+
+  /**
+   * Signs a hex encoded message like eth_sign, the personal message prefix is added before the
+   * message is hashed.
+   * @param {string} message              Hex encoded message
+   * @returns {Promise<ECSignature>}
+   */
+  public async signMessageAsync(message: string): Promise<ECSignature> {
+    return this._sign(ethUtil.hashPersonalMessage(ethUtil.toBuffer(message)));
+  }
+
+  /**
+   * Signs EIP712 typed data like eth_signTypedData.
+   * @param {EIP712TypedData} typedData   Typed data to sign
+   * @returns {Promise<ECSignature>}
+   */
+  public async signTypedDataAsync(typedData: EIP712TypedData): Promise<ECSignature> {
+    return this._sign(ethUtil.toBuffer(hashEIP712TypedData(typedData)));
+  }
+  // endregion //Public Methods
+
+  // region Private Methods
+  // *****************************************************************
+  // ****                     Private Methods                     ****
+  // *****************************************************************
+  /**
+   * Signs a 32 bytes hash.
+   * @param {Buffer} hash
+   * @returns {ECSignature}
+   * @private
+   */
+  private _sign(hash: Buffer): ECSignature {
+    const { v, r, s } = ethUtil.ecsign(hash, this._privateKey);
+    return { v, r: ethUtil.bufferToHex(r), s: ethUtil.bufferToHex(s) };
+  }
+  // endregion //Private Methods
+}
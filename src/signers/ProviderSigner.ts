@@ -0,0 +1,90 @@
+import Web3 from 'web3';
+
+// Types
+import { Provider } from '@0xproject/types';
+import { ECSignature } from '@marketprotocol/types';
+import { EIP712TypedData, Signer } from '../types';
+
+import { assert } from '../assert';
+import { Utils } from '../lib/Utils';
+
+/**
+ * Signs with an account available via a Web3 provider, like a node's unlocked account or a
+ * browser wallet.
+ */
+export class ProviderSigner implements Signer {
+  // region Members
+  // *****************************************************************
+  // ****                     Members                             ****
+  // *****************************************************************
+  private readonly _web3: Web3;
+  private readonly _address: string;
+  // endregion // members
+
+  // region Constructors
+  // *****************************************************************
+  // ****                     Constructors                        ****
+  // *****************************************************************
+  /**
+   * Instantiates a new ProviderSigner
+   * @param {Provider} provider   Web3 provider the account is available via
+   * @param {string} address      Address of the account
+   */
+  constructor(provider: Provider, address: string) {
+    assert.isETHAddressHex('address', address);
+    this._web3 = new Web3();
+    this._web3.setProvider(provider);
+    this._address = address;
+  }
+  // endregion//Constructors
+
+  // region Public Methods
+  // *****************************************************************
+  // ****                     Public Methods                      ****
+  // *****************************************************************
+  /**
+   * Gets the address of the account that signs.
+   * @returns {Promise<string>}
+   */
+  public async getAddressAsync(): Promise<string> {
+    return this._address;
+  }
+
+  /**
+   * Signs a hex encoded message with eth_sign. Whether the node adds the personal message prefix
+   * depends on the node.
+   * @param {string} message              Hex encoded message
+   * @returns {Promise<ECSignature>}
+   */
+  public async signMessageAsync(message: string): Promise<ECSignature> {
+    return Utils.signMessage(this._web3, this._address, message);
+  }
+
+  /**
+   * Signs EIP712 typed data with eth_signTypedData.
+   * @param {EIP712TypedData} typedData   Typed data to sign
+   * @returns {Promise<ECSignature>}
+   */
+  public async signTypedDataAsync(typedData: EIP712TypedData): Promise<ECSignature> {
+    return new Promise<ECSignature>((resolve, reject) => {
+      this._web3.currentProvider.sendAsync(
+        {
+          jsonrpc: '2.0',
+          id: Date.now(),
+          method: 'eth_signTypedData',
+          params: [this._address, typedData]
+        },
+        (err: Error | null, response: { error?: { message: string }; result?: string }) => {
+          if (err) {
+            reject(err);
+          } else if (response.error || !response.result) {
+            reject(new Error(response.error ? response.error.message : 'No signature returned'));
+          } else {
+            resolve(Utils.parseSignatureHex(response.result));
+          }
+        }
+      );
+    });
+  }
+  // endregion //Public Methods
+}
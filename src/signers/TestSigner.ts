@@ -0,0 +1,67 @@
+// Types
+import { ECSignature } from '@marketprotocol/types';
+import { EIP712TypedData } from '../types';
+
+import { PrivateKeySigner } from './PrivateKeySigner';
+
+// well known key, never use it to hold funds.
+const TEST_PRIVATE_KEY = '0x0707070707070707070707070707070707070707070707070707070707070707';
+
+/**
+ * PrivateKeySigner for tests. Records what it is asked to sign and rejects every request while
+ * `error` is set.
+ */
+export class TestSigner extends PrivateKeySigner {
+  // region Members
+  // *****************************************************************
+  // ****                     Members                             ****
+  // *****************************************************************
+  public signedMessages: string[] = [];
+  public signedTypedData: EIP712TypedData[] = [];
+  public error: Error | null = null;
+  // endregion // members
+
+  // region Constructors
+  // *****************************************************************
+  // ****                     Constructors                        ****
+  // *****************************************************************
+  /**
+   * Instantiates a new TestSigner
+   * @param {string} privateKey   Hex encoded private key, a well known test key by default
+   */
+  constructor(privateKey: string = TEST_PRIVATE_KEY) {
+    super(privateKey);
+  }
+  // endregion//Constructors
+
+  // region Public Methods
+  // *****************************************************************
+  // ****                     Public Methods                      ****
+  // *****************************************************************
+  /**
+   * Records and signs a hex encoded message like eth_sign.
+   * @param {string} message              Hex encoded message
+   * @returns {Promise<ECSignature>}
+   */
+  public async signMessageAsync(message: string): Promise<ECSignature> {
+    this.signedMessages.push(message);
+    if (this.error) {
+      return Promise.reject(this.error);
+    }
+    return super.signMessageAsync(message);
+  }
+
+  /**
+   * Records and signs EIP712 typed data like eth_signTypedData.
+   * @param {EIP712TypedData} typedData   Typed data to sign
+   * @returns {Promise<ECSignature>}
+   */
+  public async signTypedDataAsync(typedData: EIP712TypedData): Promise<ECSignature> {
+    this.signedTypedData.push(typedData);
+    if (this.error) {
+      return Promise.reject(this.error);
+    }
+    return super.signTypedDataAsync(typedData);
+  }
+  // endregion //Public Methods
+}
@@ -0,0 +1,47 @@
+import BigNumber from 'bignumber.js';
+import Web3 from 'web3';
+
+// Types
+import { GasPriceStrategy } from '../types';
+
+import { assert } from '../assert';
+
+/**
+ * Sends every transaction with the same gas price.
+ */
+export class FixedGasPriceStrategy implements GasPriceStrategy {
+  // region Members
+  // *****************************************************************
+  // ****                     Members                             ****
+  // *****************************************************************
+  private readonly _gasPrice: BigNumber;
+  // endregion // members
+
+  // region Constructors
+  // *****************************************************************
+  // ****                     Constructors                        ****
+  // *****************************************************************
+  /**
+   * Instantiates a new FixedGasPriceStrategy
+   * @param {BigNumber} gasPrice   Gas price in wei
+   */
+  constructor(gasPrice: BigNumber) {
+    assert.isValidBaseUnitAmount('gasPrice', gasPrice);
+    this._gasPrice = gasPrice;
+  }
+  // endregion//Constructors
+
+  // region Public Methods
+  // *****************************************************************
+  // ****                     Public Methods                      ****
+  // *****************************************************************
+  /**
+   * Gets the fixed gas price.
+   * @param {Web3} web3
+   * @returns {Promise<BigNumber>}
+   */
+  public async getGasPriceAsync(web3: Web3): Promise<BigNumber> {
+    return this._gasPrice;
+  }
+  // endregion //Public Methods
+}
@@ -0,0 +1,102 @@
+import BigNumber from 'bignumber.js';
+import * as _ from 'lodash';
+import Web3 from 'web3';
+
+// Types
+import { promisify } from '@marketprotocol/types';
+import { GasPriceStrategy } from '../types';
+
+import { assert } from '../assert';
+
+const DEFAULT_PERCENTILE = 60;
+const DEFAULT_BLOCK_COUNT = 20;
+
+/**
+ * Sends transactions with a percentile of the gas prices paid by the transactions of the latest
+ * blocks, e.g the 60th percentile outbids 60% of recent transactions. Falls back to the gas price
+ * the node suggests when those blocks hold no transactions.
+ */
+export class PercentileGasPriceStrategy implements GasPriceStrategy {
+  // region Members
+  // *****************************************************************
+  // ****                     Members                             ****
+  // *****************************************************************
+  private readonly _percentile: number;
+  private readonly _blockCount: number;
+  // the gas price only changes with new blocks
+  private _gasPriceByLatestBlockNumber: { [blockNumber: number]: BigNumber } = {};
+  // endregion // members
+
+  // region Constructors
+  // *****************************************************************
+  // ****                     Constructors                        ****
+  // *****************************************************************
+  /**
+   * Instantiates a new PercentileGasPriceStrategy
+   * @param {number} percentile   Percentile of the recent gas prices, from 0 to 100
+   * @param {number} blockCount   Number of latest blocks the gas prices are read from
+   */
+  constructor(percentile: number = DEFAULT_PERCENTILE, blockCount: number = DEFAULT_BLOCK_COUNT) {
+    assert.assert(
+      percentile >= 0 && percentile <= 100,
+      `percentile must be between 0 and 100, got ${percentile}`
+    );
+    assert.assert(
+      Number.isInteger(blockCount) && blockCount > 0,
+      `blockCount must be a positive integer, got ${blockCount}`
+    );
+    this._percentile = percentile;
+    this._blockCount = blockCount;
+  }
+  // endregion//Constructors
+
+  // region Public Methods
+  // *****************************************************************
+  // ****                     Public Methods                      ****
+  // *****************************************************************
+  /**
+   * Gets the percentile of the gas prices of the transactions of the latest blocks.
+   * @param {Web3} web3
+   * @returns {Promise<BigNumber>}
+   */
+  public async getGasPriceAsync(web3: Web3): Promise<BigNumber> {
+    const latestBlockNumber = Number(await promisify(web3.eth.getBlockNumber, []));
+    const cachedGasPrice = this._gasPriceByLatestBlockNumber[latestBlockNumber];
+    if (!_.isUndefined(cachedGasPrice)) {
+      return cachedGasPrice;
+    }
+
+    const gasPrices: BigNumber[] = [];
+    const firstBlockNumber = Math.max(latestBlockNumber - this._blockCount + 1, 0);
+    for (let blockNumber = firstBlockNumber; blockNumber <= latestBlockNumber; blockNumber++) {
+      const block: Web3.BlockWithTransactionData = await promisify(web3.eth.getBlock, [
+        blockNumber,
+        true
+      ]);
+      if (block) {
+        block.transactions.forEach(transaction =>
+          gasPrices.push(new BigNumber(transaction.gasPrice))
+        );
+      }
+    }
+
+    const gasPrice =
+      gasPrices.length === 0
+        ? new BigNumber(await promisify(web3.eth.getGasPrice, []))
+        : this.getPercentile(gasPrices);
+    this._gasPriceByLatestBlockNumber = { [latestBlockNumber]: gasPrice };
+    return gasPrice;
+  }
+
+  /**
+   * Picks the percentile of gas prices, with the nearest-rank method.
+   * @param {BigNumber[]} gasPrices   Gas prices, at least one
+   * @returns {BigNumber}
+   */
+  public getPercentile(gasPrices: BigNumber[]): BigNumber {
+    const sortedGasPrices = [...gasPrices].sort((a, b) => a.comparedTo(b));
+    const rank = Math.max(Math.ceil((this._percentile / 100) * sortedGasPrices.length), 1);
+    return sortedGasPrices[rank - 1];
+  }
+  // endregion //Public Methods
+}
@@ -0,0 +1,52 @@
+import BigNumber from 'bignumber.js';
+import Web3 from 'web3';
+
+// Types
+import { promisify } from '@marketprotocol/types';
+import { GasPriceStrategy } from '../types';
+
+import { assert } from '../assert';
+
+/**
+ * Sends transactions with the gas price the node suggests through eth_gasPrice, optionally
+ * raised to get mined faster.
+ */
+export class ProviderGasPriceStrategy implements GasPriceStrategy {
+  // region Members
+  // *****************************************************************
+  // ****                     Members                             ****
+  // *****************************************************************
+  private readonly _multiplier: number;
+  // endregion // members
+
+  // region Constructors
+  // *****************************************************************
+  // ****                     Constructors                        ****
+  // *****************************************************************
+  /**
+   * Instantiates a new ProviderGasPriceStrategy
+   * @param {number} multiplier   Factor the suggested gas price is multiplied with
+   */
+  constructor(multiplier: number = 1) {
+    assert.assert(multiplier > 0, `multiplier must be positive, got ${multiplier}`);
+    this._multiplier = multiplier;
+  }
+  // endregion//Constructors
+
+  // region Public Methods
+  // *****************************************************************
+  // ****                     Public Methods                      ****
+  // *****************************************************************
+  /**
+   * Gets the gas price the node suggests, times the multiplier.
+   * @param {Web3} web3
+   * @returns {Promise<BigNumber>}
+   */
+  public async getGasPriceAsync(web3: Web3): Promise<BigNumber> {
+    const suggestedGasPrice = await promisify(web3.eth.getGasPrice, []);
+    return new BigNumber(suggestedGasPrice)
+      .times(this._multiplier)
+      .integerValue(BigNumber.ROUND_CEIL);
+  }
+  // endregion //Public Methods
+}
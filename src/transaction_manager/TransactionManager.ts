@@ -0,0 +1,537 @@
+import BigNumber from 'bignumber.js';
+import * as _ from 'lodash';
+import Web3 from 'web3';
+
+// Types
+import { ITxParams, promisify } from '@marketprotocol/types';
+import {
+  ContractCall,
+  GasEstimate,
+  GasPriceStrategy,
+  ManagedTxParams,
+  MarketError,
+  OnTransactionEventCallback,
+  TransactionEvent,
+  TransactionManagerConfig,
+  TransactionSimulation,
+  TransactionStatus
+} from '../types';
+
+import { assert } from '../assert';
+import { constants } from '../constants';
+import { TransactionInfo } from '../lib/TransactionInfo';
+import { IntervalUtils, Utils } from '../lib/Utils';
+
+const DEFAULT_POLLING_INTERVAL_MS = 1000;
+const DEFAULT_REPLACEMENT_GAS_PRICE_MULTIPLIER = 1.125;
+// without a subscriber nothing stops following settled transactions, so only the latest are kept.
+const MAX_FOLLOWED_TRANSACTIONS = 1000;
+
+/**
+ * A transaction sent through the manager, with what is needed to send a replacement for it.
+ */
+interface ManagedTransaction {
+  info: TransactionInfo;
+  from: string;
+  nonce: number;
+  gasPrice?: BigNumber;
+  status: TransactionStatus;
+  replacedTxHash?: string;
+  txParams: ManagedTxParams;
+  send: (txParams: ManagedTxParams) => Promise<string>;
+}
+
+/**
+ * Sends every transaction of a Market. Nonces are allocated locally per sender, so that many
+ * transactions can be sent at once without reusing a nonce, and gas prices are picked by a
+ * pluggable `GasPriceStrategy`. Pending transactions can be sped up or cancelled by sending a
+ * replacement with the same nonce and a higher gas price, and subscribers are told every time the
+ * status of a transaction changes.
+ */
+export class TransactionManager {
+  // region Members
+  // *****************************************************************
+  // ****                     Members                             ****
+  // *****************************************************************
+  private readonly _web3: Web3;
+  private readonly _gasPriceStrategyIfExists?: GasPriceStrategy;
+  private readonly _pollingIntervalMs: number;
+  private readonly _droppedAfterMs?: number;
+  private readonly _replacementGasPriceMultiplier: number;
+  // last nonce allocated to each sender, allocations of a sender run one after the other
+  private _lastNonceBySender: { [sender: string]: Promise<number | null> } = {};
+  private _transactionByTxHash: { [txHash: string]: ManagedTransaction } = {};
+  private _callbackIfExists?: OnTransactionEventCallback;
+  private _pollingIntervalIdIfExists?: NodeJS.Timer;
+  // endregion // members
+
+  // region Constructors
+  // *****************************************************************
+  // ****                     Constructors                        ****
+  // *****************************************************************
+  /**
+   * Instantiates a new TransactionManager
+   * @param {Web3} web3                                 Web3 instance transactions are sent through
+   * @param {TransactionManagerConfig} managerConfig    Configs of the manager
+   */
+  constructor(web3: Web3, managerConfig: TransactionManagerConfig = {}) {
+    this._web3 = web3;
+    this._gasPriceStrategyIfExists = managerConfig.gasPriceStrategy;
+    this._pollingIntervalMs = managerConfig.pollingIntervalMs || DEFAULT_POLLING_INTERVAL_MS;
+    this._droppedAfterMs = managerConfig.droppedAfterMs;
+    this._replacementGasPriceMultiplier =
+      managerConfig.replacementGasPriceMultiplier || DEFAULT_REPLACEMENT_GAS_PRICE_MULTIPLIER;
+    assert.assert(
+      this._replacementGasPriceMultiplier > 1,
+      `replacementGasPriceMultiplier must be greater than 1, got ${this._replacementGasPriceMultiplier}`
+    );
+  }
+  // endregion//Constructors
+
+  // region Public Methods
+  // *****************************************************************
+  // ****                     Public Methods                      ****
+  // *****************************************************************
+  /**
+   * Sends a transaction with the next nonce of its sender and a gas price from the strategy,
+   * unless the params already set them. A nonce the node rejects, e.g because another wallet
+   * sent from the same account, is read again from the node and the transaction sent once more.
+   * Transactions without a sender, in the params or as the default account, are sent as is.
+   * @param {ITxParams} txParams                                    Transaction params of web3
+   * @param {(txParams: ManagedTxParams) => Promise<string>} send   Sends the transaction
+   * @returns {Promise<string>}                                     Hash of the transaction
+   */
+  public async sendTransactionAsync(
+    txParams: ITxParams,
+    send: (txParams: ManagedTxParams) => Promise<string>
+  ): Promise<string> {
+    const managedTxParams: ManagedTxParams = { ...txParams };
+    const from = managedTxParams.from || this._web3.eth.defaultAccount;
+    if (!from) {
+      return send(managedTxParams);
+    }
+    managedTxParams.from = from;
+
+    if (_.isUndefined(managedTxParams.gasPrice) && this._gasPriceStrategyIfExists) {
+      managedTxParams.gasPrice = await this._gasPriceStrategyIfExists.getGasPriceAsync(this._web3);
+    }
+
+    const hasNonce = !_.isUndefined(managedTxParams.nonce);
+    let nonce = hasNonce ? (managedTxParams.nonce as number) : await this._allocateNonceAsync(from);
+    let txHash: string;
+    try {
+      txHash = await send({ ...managedTxParams, nonce });
+    } catch (err) {
+      this._resetNonce(from);
+      if (hasNonce || !/nonce/i.test(err.message)) {
+        return Promise.reject(err);
+      }
+      nonce = await this._allocateNonceAsync(from);
+      try {
+        txHash = await send({ ...managedTxParams, nonce });
+      } catch (retryErr) {
+        this._resetNonce(from);
+        return Promise.reject(retryErr);
+      }
+    }
+
+    this._track(txHash, {
+      info: new TransactionInfo(
+        this._web3,
+        txHash,
+        this._pollingIntervalMs,
+        this._droppedAfterMs
+      ),
+      from,
+      nonce,
+      gasPrice: _.isUndefined(managedTxParams.gasPrice)
+        ? undefined
+        : new BigNumber(managedTxParams.gasPrice),
+      status: TransactionStatus.Pending,
+      txParams: managedTxParams,
+      send
+    });
+    return txHash;
+  }
+
+  /**
+   * Sends the same transaction again with the same nonce and a higher gas price, so that it gets
+   * mined faster. Only one of the two transactions can be mined.
+   * @param {string} txHash          Hash of a pending transaction sent through the manager
+   * @param {BigNumber} gasPrice     Gas price of the replacement, defaults to the gas price of the
+   *                                 transaction raised by the replacement multiplier
+   * @returns {Promise<string>}      Hash of the replacement
+   */
+  public async speedUpAsync(txHash: string, gasPrice?: BigNumber): Promise<string> {
+    const transaction = await this._getPendingTransactionAsync(txHash);
+    const replacementTxParams: ManagedTxParams = {
+      ...transaction.txParams,
+      nonce: transaction.nonce,
+      gasPrice: gasPrice || (await this._getReplacementGasPriceAsync(transaction))
+    };
+    const replacementTxHash = await transaction.send(replacementTxParams);
+
+    this._track(replacementTxHash, {
+      ...transaction,
+      info: new TransactionInfo(
+        this._web3,
+        replacementTxHash,
+        this._pollingIntervalMs,
+        this._droppedAfterMs
+      ),
+      gasPrice: new BigNumber(replacementTxParams.gasPrice as BigNumber),
+      status: TransactionStatus.Pending,
+      replacedTxHash: txHash,
+      txParams: replacementTxParams
+    });
+    return replacementTxHash;
+  }
+
+  /**
+   * Cancels a pending transaction by sending an empty transfer of its sender to itself with the
+   * same nonce and a higher gas price. The cancellation only works if it is mined first.
+   * @param {string} txHash          Hash of a pending transaction sent through the manager
+   * @param {BigNumber} gasPrice     Gas price of the cancellation, defaults to the gas price of the
+   *                                 transaction raised by the replacement multiplier
+   * @returns {Promise<string>}      Hash of the cancelling transaction
+   */
+  public async cancelAsync(txHash: string, gasPrice?: BigNumber): Promise<string> {
+    const transaction = await this._getPendingTransactionAsync(txHash);
+    const cancellationTxParams: ManagedTxParams = {
+      from: transaction.from,
+      nonce: transaction.nonce,
+      gasPrice: gasPrice || (await this._getReplacementGasPriceAsync(transaction))
+    };
+    const send = (txParams: ManagedTxParams): Promise<string> =>
+      promisify(this._web3.eth.sendTransaction, [{ ...txParams, to: transaction.from, value: 0 }]);
+    const cancellationTxHash = await send(cancellationTxParams);
+
+    this._track(cancellationTxHash, {
+      info: new TransactionInfo(
+        this._web3,
+        cancellationTxHash,
+        this._pollingIntervalMs,
+        this._droppedAfterMs
+      ),
+      from: transaction.from,
+      nonce: transaction.nonce,
+      gasPrice: new BigNumber(cancellationTxParams.gasPrice as BigNumber),
+      status: TransactionStatus.Pending,
+      replacedTxHash: txHash,
+      txParams: cancellationTxParams,
+      send
+    });
+    return cancellationTxHash;
+  }
+
+  /**
+   * Estimates the gas a contract call would use if it was sent as a transaction, and its fee at
+   * the gas price it would be sent with. Rejects with the error of the node when the call reverts.
+   * @param {ITxParams} txParams            Transaction params of web3
+   * @param {ContractCall} contractCall     Contract call to send
+   * @returns {Promise<GasEstimate>}
+   */
+  public async estimateTransactionAsync(
+    txParams: ITxParams,
+    contractCall: ContractCall
+  ): Promise<GasEstimate> {
+    const gas = Number(
+      await promisify(this._web3.eth.estimateGas, [{ ...txParams, ...contractCall }])
+    );
+    const gasPrice = await this._getGasPriceAsync(txParams);
+    return { gas, gasPrice, fee: gasPrice.times(gas) };
+  }
+
+  /**
+   * Runs a contract call with eth_call on the latest block, to tell whether it would revert if it
+   * was sent as a transaction, and estimates its cost when it wouldn't.
+   * @param {ITxParams} txParams                  Transaction params of web3
+   * @param {ContractCall} contractCall           Contract call to run
+   * @returns {Promise<TransactionSimulation>}
+   */
+  public async simulateTransactionAsync(
+    txParams: ITxParams,
+    contractCall: ContractCall
+  ): Promise<TransactionSimulation> {
+    let returnData: string;
+    try {
+      returnData = await promisify(this._web3.eth.call, [{ ...txParams, ...contractCall }]);
+    } catch (err) {
+      // nodes like ganache report a revert as an error.
+      return this._getRevertedSimulation(err.data, err.message);
+    }
+    if (returnData && returnData.startsWith(constants.REVERT_REASON_SELECTOR)) {
+      return this._getRevertedSimulation(returnData);
+    }
+
+    try {
+      return {
+        success: true,
+        gasEstimate: await this.estimateTransactionAsync(txParams, contractCall)
+      };
+    } catch (err) {
+      // the call can still run out of the gas of the params or the block.
+      return this._getRevertedSimulation(err.data, err.message);
+    }
+  }
+
+  /**
+   * Gets the info of a transaction sent through the manager, to wait for its receipt or
+   * confirmations.
+   * @param {string} txHash                   Hash of the transaction
+   * @returns {TransactionInfo | undefined}   undefined when the manager didn't send it or no longer
+   *                                          follows it
+   */
+  public getTransactionInfo(txHash: string): TransactionInfo | undefined {
+    const transaction = this._transactionByTxHash[txHash];
+    return transaction && transaction.info;
+  }
+
+  /**
+   * Starts polling the status of the transactions sent through the manager and emits a
+   * `TransactionEvent` to the callback every time one changes, sends included. Transactions stop
+   * being followed once they are mined, dropped or replaced.
+   * @param {OnTransactionEventCallback} callback   Callback receiving transaction events
+   */
+  public subscribe(callback: OnTransactionEventCallback): void {
+    if (!_.isUndefined(this._callbackIfExists)) {
+      throw new Error(MarketError.SubscriptionAlreadyPresent);
+    }
+    this._callbackIfExists = callback;
+    this._pollingIntervalIdIfExists = IntervalUtils.setAsyncExcludingInterval(
+      this._pollAsync.bind(this),
+      this._pollingIntervalMs,
+      this._onError.bind(this)
+    );
+  }
+
+  /**
+   * Stops polling the status of transactions.
+   */
+  public unsubscribe(): void {
+    if (_.isUndefined(this._callbackIfExists)) {
+      throw new Error(MarketError.SubscriptionNotFound);
+    }
+    delete this._callbackIfExists;
+    if (!_.isUndefined(this._pollingIntervalIdIfExists)) {
+      IntervalUtils.clearAsyncExcludingInterval(this._pollingIntervalIdIfExists);
+      delete this._pollingIntervalIdIfExists;
+    }
+  }
+  // endregion //Public Methods
+
+  // region Private Methods
+  // *****************************************************************
+  // ****                     Private Methods                     ****
+  // *****************************************************************
+  /**
+   * Allocates the next nonce of a sender. The first allocation, and the first after a reset, reads
+   * the pending transaction count from the node. Later ones count up from the last allocated
+   * nonce, unless the node counts more pending transactions, sent by someone else.
+   * @param {string} sender
+   * @returns {Promise<number>}
+   * @private
+   */
+  private _allocateNonceAsync(sender: string): Promise<number> {
+    const key = sender.toLowerCase();
+    const lastNonce = this._lastNonceBySender[key] || Promise.resolve(null);
+    const nonce = lastNonce.then(async lastAllocatedNonce => {
+      const pendingNonce = Number(
+        await promisify(this._web3.eth.getTransactionCount, [sender, 'pending'])
+      );
+      return lastAllocatedNonce === null
+        ? pendingNonce
+        : Math.max(lastAllocatedNonce + 1, pendingNonce);
+    });
+    // a failed allocation makes the next one read the nonce from the node again.
+    this._lastNonceBySender[key] = nonce.catch(() => null);
+    return nonce;
+  }
+
+  /**
+   * Makes the next allocation for a sender read the nonce from the node again, after a
+   * transaction with an allocated nonce wasn't sent.
+   * @param {string} sender
+   * @private
+   */
+  private _resetNonce(sender: string): void {
+    const key = sender.toLowerCase();
+    this._lastNonceBySender[key] = (this._lastNonceBySender[key] || Promise.resolve(null)).then(
+      () => null
+    );
+  }
+
+  /**
+   * Follows a transaction and emits its first status. The oldest followed transactions are
+   * forgotten beyond `MAX_FOLLOWED_TRANSACTIONS`.
+   * @param {string} txHash
+   * @param {ManagedTransaction} transaction
+   * @private
+   */
+  private _track(txHash: string, transaction: ManagedTransaction): void {
+    this._transactionByTxHash[txHash] = transaction;
+    // tx hashes are not integer keys, so they are listed in insertion order.
+    const txHashes = Object.keys(this._transactionByTxHash);
+    const forgottenCount = Math.max(txHashes.length - MAX_FOLLOWED_TRANSACTIONS, 0);
+    for (const forgottenTxHash of txHashes.slice(0, forgottenCount)) {
+      delete this._transactionByTxHash[forgottenTxHash];
+    }
+    this._emit(txHash, transaction);
+  }
+
+  /**
+   * Gets a transaction sent through the manager that is still pending. A transaction found to be
+   * settled has its status emitted and is no longer followed.
+   * @param {string} txHash
+   * @returns {Promise<ManagedTransaction>}
+   * @private
+   */
+  private async _getPendingTransactionAsync(txHash: string): Promise<ManagedTransaction> {
+    const transaction = this._transactionByTxHash[txHash];
+    if (_.isUndefined(transaction)) {
+      return Promise.reject(new Error(MarketError.TransactionNotManaged));
+    }
+    const status = await transaction.info.getStatusAsync();
+    if (status !== TransactionStatus.Pending) {
+      if (status !== transaction.status) {
+        transaction.status = status;
+        this._emit(txHash, transaction);
+      }
+      delete this._transactionByTxHash[txHash];
+      return Promise.reject(new Error(MarketError.TransactionNotPending));
+    }
+    return transaction;
+  }
+
+  /**
+   * Gas price of a replacement: the gas price of the transaction raised by the replacement
+   * multiplier, or the gas price of the strategy when that is higher.
+   * @param {ManagedTransaction} transaction
+   * @returns {Promise<BigNumber>}
+   * @private
+   */
+  private async _getReplacementGasPriceAsync(transaction: ManagedTransaction): Promise<BigNumber> {
+    let gasPrice = transaction.gasPrice;
+    if (_.isUndefined(gasPrice)) {
+      const sentTransaction: Web3.Transaction = await promisify(this._web3.eth.getTransaction, [
+        transaction.info.txHash
+      ]);
+      gasPrice = new BigNumber(sentTransaction.gasPrice);
+    }
+
+    const raisedGasPrice = gasPrice
+      .times(this._replacementGasPriceMultiplier)
+      .integerValue(BigNumber.ROUND_CEIL);
+    if (!this._gasPriceStrategyIfExists) {
+      return raisedGasPrice;
+    }
+    return BigNumber.max(
+      raisedGasPrice,
+      await this._gasPriceStrategyIfExists.getGasPriceAsync(this._web3)
+    );
+  }
+
+  /**
+   * Gas price a transaction would be sent with: the one of its params, else the one of the
+   * strategy, else the one the node suggests.
+   * @param {ITxParams} txParams
+   * @returns {Promise<BigNumber>}
+   * @private
+   */
+  private async _getGasPriceAsync(txParams: ITxParams): Promise<BigNumber> {
+    if (!_.isUndefined(txParams.gasPrice)) {
+      return new BigNumber(txParams.gasPrice);
+    }
+    if (this._gasPriceStrategyIfExists) {
+      return this._gasPriceStrategyIfExists.getGasPriceAsync(this._web3);
+    }
+    return new BigNumber(await promisify(this._web3.eth.getGasPrice, []));
+  }
+
+  /**
+   * Simulation of a call that reverted, with the revert data if the node returned any.
+   * @param {string} revertData    Data the call reverted with
+   * @param {string} errorMessage  Error of the node, read when there is no revert data
+   * @returns {TransactionSimulation}
+   * @private
+   */
+  private _getRevertedSimulation(
+    revertData?: string,
+    errorMessage?: string
+  ): TransactionSimulation {
+    const simulation: TransactionSimulation = { success: false };
+    if (_.isString(revertData) && revertData !== '0x') {
+      simulation.revertData = revertData;
+    }
+    const revertReason =
+      (simulation.revertData && Utils.decodeRevertReason(simulation.revertData)) ||
+      (errorMessage && Utils.decodeRevertReason(errorMessage));
+    if (revertReason) {
+      simulation.revertReason = revertReason;
+    }
+    return simulation;
+  }
+
+  /**
+   * Polls the status of the followed transactions and emits the ones that changed.
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async _pollAsync(): Promise<void> {
+    for (const txHash of Object.keys(this._transactionByTxHash)) {
+      const transaction = this._transactionByTxHash[txHash];
+      // it may have stopped being followed since the poll started.
+      if (_.isUndefined(transaction)) {
+        continue;
+      }
+      const status = await transaction.info.getStatusAsync();
+      if (status === transaction.status) {
+        continue;
+      }
+
+      transaction.status = status;
+      if (status !== TransactionStatus.Pending) {
+        delete this._transactionByTxHash[txHash];
+      }
+      this._emit(txHash, transaction);
+    }
+  }
+
+  /**
+   * Calls the subscriber with the status of a transaction.
+   * @param {string} txHash
+   * @param {ManagedTransaction} transaction
+   * @private
+   */
+  private _emit(txHash: string, transaction: ManagedTransaction): void {
+    if (_.isUndefined(this._callbackIfExists)) {
+      return;
+    }
+
+    const transactionEvent: TransactionEvent = {
+      txHash,
+      from: transaction.from,
+      nonce: transaction.nonce,
+      status: transaction.status
+    };
+    if (!_.isUndefined(transaction.gasPrice)) {
+      transactionEvent.gasPrice = transaction.gasPrice;
+    }
+    if (!_.isUndefined(transaction.replacedTxHash)) {
+      transactionEvent.replacedTxHash = transaction.replacedTxHash;
+    }
+    this._callbackIfExists(null, transactionEvent);
+  }
+
+  /**
+   * Passes errors of the polling job to the subscriber.
+   * @param {Error} err
+   * @private
+   */
+  private _onError(err: Error): void {
+    if (!_.isUndefined(this._callbackIfExists)) {
+      this._callbackIfExists(err);
+    }
+  }
+  // endregion //Private Methods
+}
@@ -1,10 +1,25 @@
 import BigNumber from 'bignumber.js';
 
+/**
+ * deposit: tokens deposited into the collateral pool
+ * withdrawal: tokens withdrawn from the collateral pool
+ * trade-lock: collateral locked to open or increase a position
+ * trade-release: collateral released by closing or reducing a position
+ * settlement: collateral released by closing a position once the contract settled
+ */
+export type CollateralEventType =
+  | 'deposit'
+  | 'withdrawal'
+  | 'trade-lock'
+  | 'trade-release'
+  | 'settlement';
+
 export interface CollateralEvent {
-  type: string;
+  type: CollateralEventType;
   from: string | null;
   to: string | null;
   amount: BigNumber;
+  balanceAfter: BigNumber;
   blockNumber: number | null;
   txHash: string;
 }
@@ -1,3 +1,6 @@
+import { Signer } from './Signer';
+import { GasPriceStrategy } from './TransactionManager';
+
 /**
  * networkId: The id of the underlying ethereum network your provider is connected to.
  * (1-mainnet, 3-ropsten, 4-rinkeby, 42-kovan, 50-testrpc)
@@ -8,6 +11,13 @@
  * MARKET Protocol collateral pool factory to use.
  * mktTokenAddress: The address of the MARKET Protocol token (MKT) to use
  * orderWatcherConfig: All the configs related to the orderWatcher
+ * useOffChainOrderHashing: Compute order hashes and verify signatures locally instead of calling
+ * the deployed OrderLib contract. Default: false
+ * blockRangeChunkSize: Maximum number of blocks queried at once when fetching event history. Default: 5000
+ * txLookupConcurrency: Maximum number of transactions fetched at once when fetching event
+ * history. Default: 10
+ * signer: Signs orders instead of the accounts of the provider, e.g a PrivateKeySigner
+ * transactionManagerConfig: All the configs related to the transactionManager
  */
 export interface MARKETProtocolConfig {
   networkId: number;
@@ -18,6 +28,11 @@ export interface MARKETProtocolConfig {
   orderLibAddress?: string;
   mathLibAddress?: string;
   orderWatcherConfig?: OrderStateWatcherConfig;
+  useOffChainOrderHashing?: boolean;
+  blockRangeChunkSize?: number;
+  txLookupConcurrency?: number;
+  signer?: Signer;
+  transactionManagerConfig?: TransactionManagerConfig;
 }
 
 /**
@@ -36,6 +51,32 @@ export interface OrderStateWatcherConfig {
   stateLayer: BlockParamLiteral;
 }
 
+/**
+ * gasPriceStrategy: Picks the gas price of transactions sent without one. Default: none, the node
+ * picks it
+ * pollingIntervalMs: How often to poll the node for the status of pending transactions. Default: 1000
+ * droppedAfterMs: How long the node must not know a transaction before it is taken as dropped.
+ * Default: 2 minutes
+ * replacementGasPriceMultiplier: How much the gas price of a transaction is raised when it is sped
+ * up or cancelled. Nodes only accept a replacement paying at least 10% more. Default: 1.125
+ */
+export interface TransactionManagerConfig {
+  gasPriceStrategy?: GasPriceStrategy;
+  pollingIntervalMs?: number;
+  droppedAfterMs?: number;
+  replacementGasPriceMultiplier?: number;
+}
+
+/**
+ * rewindBlocks: Number of already synced blocks that are synced again, so that events of blocks
+ * dropped by a reorg that deep are replaced. Default: 12
+ * blockRangeChunkSize: Maximum number of blocks queried at once. Default: 5000
+ */
+export interface EventIndexerConfig {
+  rewindBlocks?: number;
+  blockRangeChunkSize?: number;
+}
+
 /**
  * Earliest is omitted by design. It is simply an alias for the `0` constant and
  * is thus not very helpful. Moreover, this type is used in places that only accept
@@ -0,0 +1,55 @@
+/**
+ * Events recorded by the `EventIndexer`. UpdatedUserBalance is emitted by the MarketCollateralPool,
+ * the others by the MarketContract.
+ */
+export type IndexedEventName = 'OrderFilled' | 'OrderCancelled' | 'UpdatedUserBalance';
+
+/**
+ * event: Name of the event
+ * args: Arguments of the event, numbers are stored as base 10 strings
+ * txHash: Hash of the transaction that emitted the event
+ * blockNumber: Block of the transaction
+ * logIndex: Position of the log in its block
+ */
+export interface IndexedEventLog {
+  event: IndexedEventName;
+  args: { [argName: string]: string };
+  txHash: string;
+  blockNumber: number;
+  logIndex: number;
+}
+
+/**
+ * Storage the `EventIndexer` writes to, keyed by MarketContract address.
+ */
+export interface EventIndexStorage {
+  /**
+   * Gets the last block whose events are stored, null if the contract was never synced.
+   */
+  getLastSyncedBlockAsync(marketContractAddress: string): Promise<number | null>;
+
+  /**
+   * Sets the last block whose events are stored.
+   */
+  setLastSyncedBlockAsync(marketContractAddress: string, blockNumber: number): Promise<void>;
+
+  /**
+   * Stores event logs of a contract.
+   */
+  addEventLogsAsync(marketContractAddress: string, eventLogs: IndexedEventLog[]): Promise<void>;
+
+  /**
+   * Gets the stored event logs of a contract in a block range, inclusive, in block order.
+   */
+  getEventLogsAsync(
+    marketContractAddress: string,
+    eventName: IndexedEventName,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<IndexedEventLog[]>;
+
+  /**
+   * Deletes the stored event logs of a contract from a block onwards.
+   */
+  removeEventLogsFromBlockAsync(marketContractAddress: string, fromBlock: number): Promise<void>;
+}
@@ -3,6 +3,7 @@ export enum MarketError {
   UserHasNoAssociatedAddress = 'USER_HAS_NO_ASSOCIATED_ADDRESSES',
   UserNotEnabledForContract = 'USER_NOT_ENABLED_FOR_CONTRACT',
   InvalidSignature = 'INVALID_SIGNATURE',
+  SignerAddressMismatch = 'SIGNER_ADDRESS_MISMATCH',
   ContractNotDeployedOnNetwork = 'CONTRACT_NOT_DEPLOYED_ON_NETWORK',
   InsufficientAllowanceForTransfer = 'INSUFFICIENT_ALLOWANCE_FOR_TRANSFER',
   InsufficientBalanceForTransfer = 'INSUFFICIENT_BALANCE_FOR_TRANSFER',
@@ -13,10 +14,18 @@ export enum MarketError {
   SubscriptionAlreadyPresent = 'SUBSCRIPTION_ALREADY_PRESENT',
   InvalidTaker = 'INVALID_TAKER',
   OrderExpired = 'ORDER_EXPIRED',
+  OrderPriceOutOfRange = 'ORDER_PRICE_OUT_OF_RANGE',
   OrderDead = 'ORDER_DEAD',
   UnknownOrderError = 'UNKNOWN_ORDER_ERROR',
   OrderFilledOrCancelled = 'ORDER_FILLED_OR_CANCELLED',
   BuySellMismatch = 'BUY/SELL MISMATCH',
   ContractAlreadySettled = 'CONTRACT_ALREADY_SETTLED',
-  UserHasNoAssociatedPositions = 'USER_HAS_NO_ASSOCIATED_POSITIONS'
+  ContractNotSettled = 'CONTRACT_NOT_SETTLED',
+  UserHasNoAssociatedPositions = 'USER_HAS_NO_ASSOCIATED_POSITIONS',
+  OrderNotWatched = 'ORDER_NOT_WATCHED',
+  TransactionReverted = 'TRANSACTION_REVERTED',
+  TransactionDropped = 'TRANSACTION_DROPPED',
+  TransactionReplaced = 'TRANSACTION_REPLACED',
+  TransactionNotManaged = 'TRANSACTION_NOT_MANAGED',
+  TransactionNotPending = 'TRANSACTION_NOT_PENDING'
 }
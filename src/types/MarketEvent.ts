@@ -0,0 +1,36 @@
+import BigNumber from 'bignumber.js';
+
+/**
+ * Events that can be subscribed to with `Market.subscribeAsync`. UpdatedUserBalance is emitted by
+ * the MarketCollateralPool, the others by the MarketContract.
+ */
+export type MarketEventName =
+  | 'OrderFilled'
+  | 'OrderCancelled'
+  | 'Error'
+  | 'UpdatedUserBalance'
+  | 'ContractSettled';
+
+/**
+ * Values of the indexed arguments an event must match, e.g. `{ maker: '0x...' }` for OrderFilled.
+ */
+export interface MarketEventFilter {
+  [indexedArgName: string]: string | BigNumber;
+}
+
+/**
+ * event: Name of the event
+ * address: Address of the contract that emitted the event
+ * args: Decoded arguments of the event
+ * txHash: Hash of the transaction that emitted the event
+ * blockNumber: Block of the transaction, null while pending
+ */
+export interface MarketEventLog {
+  event: MarketEventName;
+  address: string;
+  args: { [argName: string]: string | BigNumber };
+  txHash: string;
+  blockNumber: number | null;
+}
+
+export type OnMarketEventCallback = (err: Error | null, eventLog?: MarketEventLog) => void;
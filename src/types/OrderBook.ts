@@ -0,0 +1,36 @@
+import BigNumber from 'bignumber.js';
+
+import { SignedOrder } from '@marketprotocol/types';
+
+/**
+ * orderHash: Hash of the order
+ * signedOrder: The order as it was added to the book
+ * remainingQty: Qty still available to fill, with the sign of the order qty
+ */
+export interface OrderBookEntry {
+  orderHash: string;
+  signedOrder: SignedOrder;
+  remainingQty: BigNumber;
+}
+
+/**
+ * price: Price of the level
+ * qty: Total remaining qty of the orders at this price, always positive
+ * orderCount: Number of orders at this price
+ */
+export interface OrderBookLevel {
+  price: BigNumber;
+  qty: BigNumber;
+  orderCount: number;
+}
+
+/**
+ * marketContractAddress: Address of the MarketContract of the book
+ * bids: Buy levels, best (highest) price first
+ * asks: Sell levels, best (lowest) price first
+ */
+export interface OrderBookDepth {
+  marketContractAddress: string;
+  bids: OrderBookLevel[];
+  asks: OrderBookLevel[];
+}
@@ -0,0 +1,26 @@
+import BigNumber from 'bignumber.js';
+
+import { OrderTransactionInfo } from '../lib/OrderTransactionInfo';
+
+export enum OrderCancellationStatus {
+  Submitted = 'SUBMITTED',
+  Failed = 'FAILED',
+  Expired = 'EXPIRED',
+  FilledOrCancelled = 'FILLED_OR_CANCELLED'
+}
+
+/**
+ * orderHash: Hash of the order
+ * status: Submitted when a cancel transaction was submitted, Failed when it could not be,
+ * otherwise why the order was skipped. A submitted cancel only takes effect once it is mined.
+ * cancelledQty: The qty the submitted transaction cancels, zero otherwise
+ * orderTransactionInfo: Information about the cancel transaction, when one was submitted
+ * error: Why the cancel transaction could not be submitted, when it failed
+ */
+export interface OrderCancellationResult {
+  orderHash: string;
+  status: OrderCancellationStatus;
+  cancelledQty: BigNumber;
+  orderTransactionInfo?: OrderTransactionInfo;
+  error?: string;
+}
@@ -0,0 +1,19 @@
+import BigNumber from 'bignumber.js';
+
+import { MarketError } from './MarketError';
+
+export interface OrderStateValid {
+  isValid: true;
+  orderHash: string;
+  remainingFillableQty: BigNumber;
+}
+
+export interface OrderStateInvalid {
+  isValid: false;
+  orderHash: string;
+  error: MarketError;
+}
+
+export type OrderState = OrderStateValid | OrderStateInvalid;
+
+export type OnOrderStateChangeCallback = (err: Error | null, orderState?: OrderState) => void;
@@ -0,0 +1,23 @@
+import BigNumber from 'bignumber.js';
+
+/**
+ * Profit and loss of a user in a MarketContract. Amounts are in base units of the collateral
+ * token, prices are divided by 10^PRICE_DECIMAL_PLACES.
+ * realizedPnL: PnL of the lots closed by later fills, FIFO
+ * unrealizedPnL: PnL of the open lots marked to the last price, zero once settled
+ * settlementPnL: PnL of the open lots at the settlement price, null until settled
+ * totalPnL: realizedPnL plus unrealizedPnL, or settlementPnL once settled
+ * Fees are paid in MKT and are not included.
+ */
+export interface PnL {
+  marketContractAddress: string;
+  userAddress: string;
+  netPosition: BigNumber;
+  averageEntryPrice: BigNumber | null;
+  markPrice: BigNumber;
+  realizedPnL: BigNumber;
+  unrealizedPnL: BigNumber;
+  settlementPnL: BigNumber | null;
+  totalPnL: BigNumber;
+  isSettled: boolean;
+}
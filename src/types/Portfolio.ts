@@ -0,0 +1,39 @@
+import BigNumber from 'bignumber.js';
+
+import { PnL } from './PnL';
+
+/**
+ * Holdings of a user in one MarketContract. Collateral amounts are in base units of the
+ * contract's collateral token.
+ */
+export interface ContractPortfolio {
+  marketContractAddress: string;
+  collateralTokenAddress: string;
+  freeCollateral: BigNumber;
+  lockedCollateral: BigNumber;
+  netPosition: BigNumber;
+  pnl: PnL;
+  expirationTimeStamp: BigNumber;
+  isExpired: boolean;
+  isSettled: boolean;
+}
+
+/**
+ * Holdings of a user summed over the MarketContracts sharing a collateral token.
+ */
+export interface PortfolioTotal {
+  collateralTokenAddress: string;
+  freeCollateral: BigNumber;
+  lockedCollateral: BigNumber;
+  totalPnL: BigNumber;
+}
+
+/**
+ * Holdings of a user across MarketContracts. Amounts of different collateral tokens are never
+ * added up, so there is one total per collateral token.
+ */
+export interface Portfolio {
+  userAddress: string;
+  contracts: ContractPortfolio[];
+  totals: PortfolioTotal[];
+}
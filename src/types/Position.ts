@@ -0,0 +1,41 @@
+import BigNumber from 'bignumber.js';
+
+export type PositionSide = 'long' | 'short';
+
+/**
+ * A position held in a MarketCollateralPool.
+ * qty is signed, + for long / - for short. lockedCollateral is the collateral the pool holds for
+ * the position, in base units of the collateral token.
+ */
+export interface Position {
+  price: BigNumber;
+  qty: BigNumber;
+  side: PositionSide;
+  lockedCollateral: BigNumber;
+}
+
+/**
+ * An open lot rebuilt from the fill history, qty is signed like a position's.
+ */
+export interface PositionLot {
+  price: BigNumber;
+  qty: BigNumber;
+  txHash: string;
+  blockNumber: number | null;
+}
+
+/**
+ * The part of a lot closed by a later fill, qty is the signed qty of the lot that was closed.
+ */
+export interface ClosedPositionLot {
+  entryPrice: BigNumber;
+  exitPrice: BigNumber;
+  qty: BigNumber;
+  txHash: string;
+  blockNumber: number | null;
+}
+
+export interface PositionLots {
+  openLots: PositionLot[];
+  closedLots: ClosedPositionLot[];
+}
@@ -0,0 +1,49 @@
+import BigNumber from 'bignumber.js';
+
+import { SignedOrder } from '@marketprotocol/types';
+
+import { OrderCancellationResult } from './OrderCancellationResult';
+
+/**
+ * Shape of a quote ladder. Prices are in contract price units.
+ * maker: Account that makes and signs the quotes
+ * midPrice: Price the ladder is centered on
+ * spread: Distance between the best bid and the best ask
+ * step: Distance between two levels of the same side, a whole number of price units
+ * levels: Number of levels on each side
+ * qtyPerLevel: Number of contracts quoted at each level
+ * expirationTimestamp: Expiration of the quotes, one day from now when absent
+ */
+export interface QuoteLadderParams {
+  maker: string;
+  midPrice: BigNumber;
+  spread: BigNumber;
+  step: BigNumber;
+  levels: number;
+  qtyPerLevel: BigNumber;
+  expirationTimestamp?: BigNumber;
+}
+
+/**
+ * Signed quotes of a ladder. Levels outside the price floor and cap of the contract are left out.
+ * bids: Buy orders, best (highest) price first
+ * asks: Sell orders, best (lowest) price first
+ * neededCollateral: Collateral the maker needs for every quote to be filled, in base units of the
+ * collateral token
+ */
+export interface QuoteLadder {
+  marketContractAddress: string;
+  params: QuoteLadderParams;
+  bids: SignedOrder[];
+  asks: SignedOrder[];
+  neededCollateral: BigNumber;
+}
+
+/**
+ * ladder: The ladder now quoted, the previous one when the mid didn't move enough to requote
+ * cancellations: Cancellations of the quotes of the previous ladder, in bids then asks order
+ */
+export interface QuoteLadderRequote {
+  ladder: QuoteLadder;
+  cancellations: OrderCancellationResult[];
+}
@@ -0,0 +1,31 @@
+import { SignedOrder } from '@marketprotocol/types';
+
+import { SerializedSignedOrder } from './SerializedOrder';
+
+/**
+ * Orders a relayer holds for a MarketContract, each side in price-time priority. remainingQty of
+ * each order is the qty the relayer still considers fillable.
+ */
+export interface RelayerOrderBook {
+  marketContractAddress: string;
+  bids: SignedOrder[];
+  asks: SignedOrder[];
+}
+
+/**
+ * Wire form of a `RelayerOrderBook`.
+ */
+export interface SerializedRelayerOrderBook {
+  marketContractAddress: string;
+  bids: SerializedSignedOrder[];
+  asks: SerializedSignedOrder[];
+}
+
+/**
+ * port: Port to listen on, a free one when 0. Default: 0
+ * feeRecipients: Fee recipients the relayer accepts orders for. Default: the null address
+ */
+export interface RelayerServerConfig {
+  port?: number;
+  feeRecipients?: string[];
+}
@@ -0,0 +1,40 @@
+import BigNumber from 'bignumber.js';
+
+/**
+ * PnL of open positions with the reference price at `price`. Prices are in contract price units,
+ * PnL is in base units of the collateral token.
+ */
+export interface ScenarioPoint {
+  price: BigNumber;
+  pnl: BigNumber;
+}
+
+/**
+ * Open positions of a user in one MarketContract valued across the price range of the contract.
+ * breakEvenPrices are the prices at which the PnL crosses zero, empty when it never does.
+ */
+export interface ContractScenario {
+  marketContractAddress: string;
+  collateralTokenAddress: string;
+  netPosition: BigNumber;
+  priceFloor: BigNumber;
+  priceCap: BigNumber;
+  pnlCurve: ScenarioPoint[];
+  worstCase: ScenarioPoint;
+  breakEvenPrices: BigNumber[];
+}
+
+/**
+ * Worst case PnL summed over the MarketContracts sharing a collateral token, assuming every
+ * contract moves to its own worst price.
+ */
+export interface ScenarioTotal {
+  collateralTokenAddress: string;
+  worstCasePnL: BigNumber;
+}
+
+export interface ScenarioReport {
+  userAddress: string;
+  contracts: ContractScenario[];
+  totals: ScenarioTotal[];
+}
@@ -0,0 +1,31 @@
+import { ECSignature } from '@marketprotocol/types';
+
+import { SignatureScheme } from './SignatureScheme';
+
+/**
+ * JSON safe form of an Order, numbers are base 10 strings without exponent.
+ * version: Version of the serialization format
+ * remainingQty: Qty still available to fill, defaults to orderQty when absent
+ */
+export interface SerializedOrder {
+  version: string;
+  contractAddress: string;
+  expirationTimestamp: string;
+  feeRecipient: string;
+  maker: string;
+  makerFee: string;
+  orderQty: string;
+  price: string;
+  remainingQty?: string;
+  salt: string;
+  taker: string;
+  takerFee: string;
+}
+
+/**
+ * JSON safe form of a SignedOrder.
+ */
+export interface SerializedSignedOrder extends SerializedOrder {
+  ecSignature: ECSignature;
+  signatureScheme?: SignatureScheme;
+}
@@ -0,0 +1,19 @@
+import BigNumber from 'bignumber.js';
+
+/**
+ * What a user gets back from settleAndClose, in base units of the collateral token.
+ * settlementPrice: price the positions are closed at, clamped to the price floor and cap
+ * isHypotheticalPrice: whether the price was given instead of read from the settled contract
+ * freeCollateral: the user's unallocated balance, withdrawn as is
+ * positionPayout: collateral released by closing the user's positions at the settlement price
+ * totalPayout: freeCollateral plus positionPayout
+ */
+export interface SettlementPayout {
+  marketContractAddress: string;
+  userAddress: string;
+  settlementPrice: BigNumber;
+  isHypotheticalPrice: boolean;
+  freeCollateral: BigNumber;
+  positionPayout: BigNumber;
+  totalPayout: BigNumber;
+}
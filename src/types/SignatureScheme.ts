@@ -0,0 +1,15 @@
+/**
+ * EthSign: eth_sign of the orderHash, the only scheme MarketContract accepts when trading
+ * EIP712: eth_signTypedData of the order, with a domain bound to the MarketContract and network
+ */
+export enum SignatureScheme {
+  EthSign = 'ETH_SIGN',
+  EIP712 = 'EIP712'
+}
+
+declare module '@marketprotocol/types' {
+  interface SignedOrder {
+    // scheme the ecSignature was created with, EthSign when absent.
+    signatureScheme?: SignatureScheme;
+  }
+}
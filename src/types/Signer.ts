@@ -0,0 +1,44 @@
+import { ECSignature } from '@marketprotocol/types';
+
+/**
+ * EIP712 typed data, as sent to eth_signTypedData. Only structs of atomic types and strings are
+ * supported.
+ * types: Fields of the EIP712Domain and of the primary type
+ * primaryType: Name of the signed struct type
+ * domain: Domain the signature is bound to
+ * message: Fields of the signed struct, numbers as base 10 strings
+ */
+export interface EIP712TypedData {
+  types: {
+    EIP712Domain: Array<{ name: string; type: string }>;
+    [typeName: string]: Array<{ name: string; type: string }>;
+  };
+  primaryType: string;
+  domain: {
+    name: string;
+    version: string;
+    chainId: number;
+    verifyingContract: string;
+  };
+  message: { [fieldName: string]: string };
+}
+
+/**
+ * Signs orders on behalf of a single account.
+ */
+export interface Signer {
+  /**
+   * Gets the address of the account that signs.
+   */
+  getAddressAsync(): Promise<string>;
+
+  /**
+   * Signs a hex encoded message the way eth_sign does.
+   */
+  signMessageAsync(message: string): Promise<ECSignature>;
+
+  /**
+   * Signs EIP712 typed data the way eth_signTypedData does.
+   */
+  signTypedDataAsync(typedData: EIP712TypedData): Promise<ECSignature>;
+}
@@ -0,0 +1,27 @@
+import BigNumber from 'bignumber.js';
+
+import { MarketError } from './MarketError';
+
+/**
+ * error: The condition that is not met
+ * account: The address the condition applies to, if it is account specific
+ * actual: The current value (balance, allowance, timestamp...) when the condition is quantitative
+ * required: The value needed for the condition to be met
+ */
+export interface TradeValidationFailure {
+  error: MarketError;
+  account?: string;
+  actual?: BigNumber;
+  required?: BigNumber;
+}
+
+/**
+ * isValid: True when no failure was found and the trade can be submitted
+ * orderHash: Hash of the validated order
+ * failures: Every failing condition, in the order `tradeOrderAsync` checks them
+ */
+export interface TradeValidationReport {
+  isValid: boolean;
+  orderHash: string;
+  failures: TradeValidationFailure[];
+}
@@ -0,0 +1,81 @@
+import BigNumber from 'bignumber.js';
+import Web3 from 'web3';
+
+import { ITxParams } from '@marketprotocol/types';
+import { TransactionStatus } from './TransactionStatus';
+
+/**
+ * Picks the gas price of transactions sent without one.
+ */
+export interface GasPriceStrategy {
+  /**
+   * Gets the gas price to send a transaction with, in wei.
+   */
+  getGasPriceAsync(web3: Web3): Promise<BigNumber>;
+}
+
+/**
+ * Transaction params of web3, with the nonce the transaction manager allocates.
+ */
+export interface ManagedTxParams extends ITxParams {
+  nonce?: number;
+}
+
+/**
+ * A change of status of a transaction sent through the transaction manager.
+ * txHash: Hash of the transaction
+ * from: Sender of the transaction
+ * nonce: Nonce of the transaction, shared with the transactions it replaces or is replaced by
+ * gasPrice: Gas price of the transaction, if it was set when it was sent
+ * status: New status of the transaction
+ * replacedTxHash: Hash of the transaction this transaction speeds up or cancels, if any
+ */
+export interface TransactionEvent {
+  txHash: string;
+  from: string;
+  nonce: number;
+  gasPrice?: BigNumber;
+  status: TransactionStatus;
+  replacedTxHash?: string;
+}
+
+export type OnTransactionEventCallback = (
+  err: Error | null,
+  transactionEvent?: TransactionEvent
+) => void;
+
+/**
+ * A contract call that can be sent as a transaction.
+ * to: Address of the contract
+ * data: ABI encoded call
+ */
+export interface ContractCall {
+  to: string;
+  data: string;
+}
+
+/**
+ * What sending a transaction would cost.
+ * gas: Gas the transaction would use
+ * gasPrice: Gas price the transaction would be sent with, in wei
+ * fee: Fee of the transaction, gas times gasPrice, in wei
+ */
+export interface GasEstimate {
+  gas: number;
+  gasPrice: BigNumber;
+  fee: BigNumber;
+}
+
+/**
+ * Outcome of running a transaction with eth_call on the latest block, without sending it.
+ * success: Whether the call ran without reverting
+ * gasEstimate: What sending the transaction would cost, when the call succeeds
+ * revertData: Data the call reverted with, when the node returns it
+ * revertReason: Reason the call reverted with, decoded from the revert data or the node error
+ */
+export interface TransactionSimulation {
+  success: boolean;
+  gasEstimate?: GasEstimate;
+  revertData?: string;
+  revertReason?: string;
+}
@@ -0,0 +1,38 @@
+import BigNumber from 'bignumber.js';
+
+import { MarketError } from './MarketError';
+
+/**
+ * Where a sent transaction is in its lifecycle.
+ * Pending: known to the node, not mined yet
+ * Mined: mined and executed
+ * Reverted: mined, but its execution reverted
+ * Dropped: not known to the node for a while, without being mined
+ * Replaced: another transaction of the sender with the same nonce was mined instead
+ */
+export enum TransactionStatus {
+  Pending = 'PENDING',
+  Mined = 'MINED',
+  Reverted = 'REVERTED',
+  Dropped = 'DROPPED',
+  Replaced = 'REPLACED'
+}
+
+/**
+ * What became of a transaction once it left the pending state.
+ * status: Mined, Reverted, Dropped or Replaced
+ * blockNumber: block the transaction was mined in, if it was
+ * confirmations: number of blocks mined on top of that block, that block included
+ * gasUsed: gas the transaction used, if it was mined
+ * error: error decoded from the Error event the MarketContract emitted for the transaction, if any
+ * revertReason: reason of the revert, when the transaction reverted with one
+ */
+export interface TransactionOutcome {
+  txHash: string;
+  status: TransactionStatus;
+  blockNumber?: number;
+  confirmations: number;
+  gasUsed?: BigNumber;
+  error?: MarketError;
+  revertReason?: string;
+}
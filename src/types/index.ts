@@ -4,3 +4,21 @@ export * from './CollateralEvent';
 export * from './ParsedContractName';
 export * from './ContractMetaData';
 export * from './OrderFilledEvent';
+export * from './OrderState';
+export * from './TradeValidationReport';
+export * from './OrderCancellationResult';
+export * from './OrderBook';
+export * from './MarketEvent';
+export * from './EventIndex';
+export * from './Position';
+export * from './PnL';
+export * from './Portfolio';
+export * from './SettlementPayout';
+export * from './Scenario';
+export * from './SignatureScheme';
+export * from './Signer';
+export * from './SerializedOrder';
+export * from './QuoteLadder';
+export * from './Relayer';
+export * from './TransactionStatus';
+export * from './TransactionManager';
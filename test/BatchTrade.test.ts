@@ -0,0 +1,246 @@
+import Web3 from 'web3';
+import BigNumber from 'bignumber.js';
+// Types
+import { ERC20, MarketContract, SignedOrder } from '@marketprotocol/types';
+import { MarketError, MARKETProtocolConfig, OrderCancellationStatus } from '../src/types';
+
+import { Market, Utils } from '../src';
+import { OrderTransactionInfo } from '../src/lib/OrderTransactionInfo';
+import { constants } from '../src/constants';
+
+import { createEVMSnapshot, restoreEVMSnapshot } from './utils';
+
+describe('Batch Trading and Cancelling', () => {
+  const web3 = new Web3(new Web3.providers.HttpProvider('http://localhost:9545'));
+  const config: MARKETProtocolConfig = {
+    networkId: constants.NETWORK_ID_TRUFFLE
+  };
+  const initialCredit: BigNumber = new BigNumber(1e23);
+
+  let market: Market;
+  let contractAddress: string;
+  let deploymentAddress: string;
+  let maker: string;
+  let taker: string;
+  let feeRecipient: string;
+  let collateralToken: ERC20;
+  let collateralPoolAddress: string;
+  let snapshotId: string;
+
+  const createSignedOrderAsync = async (
+    orderQty: BigNumber,
+    price: BigNumber,
+    fees: BigNumber = new BigNumber(0)
+  ): Promise<SignedOrder> => {
+    return market.createSignedOrderAsync(
+      contractAddress,
+      Utils.getCurrentUnixTimestampSec()
+        .plus(60 * 60)
+        .integerValue(BigNumber.ROUND_FLOOR),
+      fees.isZero() ? constants.NULL_ADDRESS : feeRecipient,
+      maker,
+      fees,
+      constants.NULL_ADDRESS,
+      fees,
+      orderQty,
+      price,
+      Utils.generatePseudoRandomSalt(),
+      false
+    );
+  };
+
+  beforeAll(async () => {
+    jest.setTimeout(30000);
+    market = new Market(web3.currentProvider, config);
+    contractAddress = (await market.marketContractRegistry.getAddressWhiteList)[0];
+    deploymentAddress = web3.eth.accounts[0];
+    maker = web3.eth.accounts[3];
+    taker = web3.eth.accounts[4];
+    feeRecipient = web3.eth.accounts[5];
+    const deployedMarketContract = await MarketContract.createAndValidate(web3, contractAddress);
+    collateralToken = await ERC20.createAndValidate(
+      web3,
+      await deployedMarketContract.COLLATERAL_TOKEN_ADDRESS
+    );
+    collateralPoolAddress = await deployedMarketContract.MARKET_COLLATERAL_POOL_ADDRESS;
+  });
+
+  beforeEach(async () => {
+    snapshotId = await createEVMSnapshot(web3);
+    for (const account of [maker, taker]) {
+      await collateralToken.transferTx(account, initialCredit).send({ from: deploymentAddress });
+      await collateralToken.approveTx(collateralPoolAddress, initialCredit).send({ from: account });
+      await market.depositCollateralAsync(contractAddress, initialCredit, { from: account });
+    }
+  });
+
+  afterEach(async () => {
+    await restoreEVMSnapshot(web3, snapshotId);
+  });
+
+  it('Fills every order of a batch', async () => {
+    const signedOrders = [
+      await createSignedOrderAsync(new BigNumber(10), new BigNumber(40000)),
+      await createSignedOrderAsync(new BigNumber(10), new BigNumber(45000))
+    ];
+
+    const orderTxInfos = await market.batchTradeOrdersAsync(
+      signedOrders,
+      [new BigNumber(2), new BigNumber(3)],
+      { from: taker, gas: 400000 }
+    );
+
+    expect(orderTxInfos).toHaveLength(2);
+    expect(await orderTxInfos[0].filledQtyAsync).toEqual(new BigNumber(2));
+    expect(await orderTxInfos[1].filledQtyAsync).toEqual(new BigNumber(3));
+  });
+
+  it('Checks the combined fees of a batch', async () => {
+    const fees = new BigNumber(100);
+    await market.mktTokenContract
+      .transferTx(maker, fees.times(2))
+      .send({ from: deploymentAddress });
+    await market.mktTokenContract
+      .transferTx(taker, fees.times(2))
+      .send({ from: deploymentAddress });
+    await market.mktTokenContract.approveTx(feeRecipient, fees.times(2)).send({ from: maker });
+    // enough for either order on its own, but not for both.
+    await market.mktTokenContract.approveTx(feeRecipient, fees.times(1.5)).send({ from: taker });
+
+    const signedOrders = [
+      await createSignedOrderAsync(new BigNumber(10), new BigNumber(40000), fees),
+      // the same fee recipient, written in another case as another relayer might.
+      await market.createSignedOrderAsync(
+        contractAddress,
+        Utils.getCurrentUnixTimestampSec()
+          .plus(60 * 60)
+          .integerValue(BigNumber.ROUND_FLOOR),
+        `0x${feeRecipient.slice(2).toUpperCase()}`,
+        maker,
+        fees,
+        constants.NULL_ADDRESS,
+        fees,
+        new BigNumber(10),
+        new BigNumber(45000),
+        Utils.generatePseudoRandomSalt(),
+        false
+      )
+    ];
+    const fillQtys = [new BigNumber(2), new BigNumber(2)];
+
+    expect((await market.validateTradeAsync(signedOrders[0], fillQtys[0], taker)).isValid).toBe(
+      true
+    );
+    await expect(
+      market.batchTradeOrdersAsync(signedOrders, fillQtys, { from: taker, gas: 400000 })
+    ).rejects.toThrow(new Error(MarketError.InsufficientAllowanceForTransfer));
+  });
+
+  it('Rejects a batch with a missing fill qty', async () => {
+    const signedOrder = await createSignedOrderAsync(new BigNumber(10), new BigNumber(40000));
+
+    await expect(
+      market.batchTradeOrdersAsync([signedOrder, signedOrder], [new BigNumber(2)], { from: taker })
+    ).rejects.toThrow();
+  });
+
+  it('Market fills orders from the best price', async () => {
+    const signedOrders = [
+      await createSignedOrderAsync(new BigNumber(10), new BigNumber(40000)),
+      await createSignedOrderAsync(new BigNumber(10), new BigNumber(50000)),
+      await createSignedOrderAsync(new BigNumber(10), new BigNumber(30000))
+    ];
+
+    const orderTxInfos = await market.marketFillOrdersAsync(signedOrders, new BigNumber(15), {
+      from: taker,
+      gas: 400000
+    });
+
+    expect(orderTxInfos).toHaveLength(2);
+    expect(await orderTxInfos[0].filledQtyAsync).toEqual(new BigNumber(10));
+    expect(await orderTxInfos[1].filledQtyAsync).toEqual(new BigNumber(5));
+
+    const filledQtys = await Promise.all(
+      signedOrders.map(async signedOrder =>
+        market.getQtyFilledOrCancelledFromOrderAsync(
+          contractAddress,
+          await market.createOrderHashAsync(signedOrder)
+        )
+      )
+    );
+    expect(filledQtys.map(qty => new BigNumber(qty).toNumber())).toEqual([5, 10, 0]);
+  });
+
+  it('Rejects market fills mixing buy and sell orders', async () => {
+    const signedOrders = [
+      await createSignedOrderAsync(new BigNumber(10), new BigNumber(40000)),
+      await createSignedOrderAsync(new BigNumber(-10), new BigNumber(45000))
+    ];
+
+    await expect(
+      market.marketFillOrdersAsync(signedOrders, new BigNumber(5), { from: taker })
+    ).rejects.toThrow(new Error(MarketError.BuySellMismatch));
+  });
+
+  it('Cancels every order of a batch', async () => {
+    const signedOrders = [
+      await createSignedOrderAsync(new BigNumber(10), new BigNumber(40000)),
+      await createSignedOrderAsync(new BigNumber(-10), new BigNumber(45000))
+    ];
+
+    const orderTxInfos = await market.batchCancelOrdersAsync(
+      signedOrders,
+      [new BigNumber(4), new BigNumber(-6)],
+      { from: maker }
+    );
+
+    expect(orderTxInfos).toHaveLength(2);
+    expect(await orderTxInfos[0].cancelledQtyAsync).toEqual(new BigNumber(4));
+    expect(await orderTxInfos[1].cancelledQtyAsync).toEqual(new BigNumber(-6));
+  });
+
+  it('Cancels all outstanding orders of a maker', async () => {
+    const filledOrder = await createSignedOrderAsync(new BigNumber(10), new BigNumber(40000));
+    const partiallyFilledOrder = await createSignedOrderAsync(
+      new BigNumber(10),
+      new BigNumber(45000)
+    );
+    const expiredOrder = await market.createSignedOrderAsync(
+      contractAddress,
+      Utils.getCurrentUnixTimestampSec().minus(60),
+      constants.NULL_ADDRESS,
+      maker,
+      new BigNumber(0),
+      constants.NULL_ADDRESS,
+      new BigNumber(0),
+      new BigNumber(10),
+      new BigNumber(40000),
+      Utils.generatePseudoRandomSalt(),
+      false
+    );
+    await market.batchTradeOrdersAsync(
+      [filledOrder, partiallyFilledOrder],
+      [new BigNumber(10), new BigNumber(3)],
+      { from: taker, gas: 400000 }
+    );
+
+    // the filled orders are found from their fills, the expired one left no trace on chain.
+    const results = await market.cancelAllOrdersAsync(contractAddress, { from: maker }, [
+      expiredOrder
+    ]);
+
+    const [filledResult, partiallyFilledResult, expiredResult] = await Promise.all(
+      [filledOrder, partiallyFilledOrder, expiredOrder].map(async order => {
+        const orderHash = await market.createOrderHashAsync(order);
+        return results.find(result => result.orderHash === orderHash)!;
+      })
+    );
+    expect(filledResult.status).toEqual(OrderCancellationStatus.FilledOrCancelled);
+    expect(partiallyFilledResult.status).toEqual(OrderCancellationStatus.Submitted);
+    expect(expiredResult.status).toEqual(OrderCancellationStatus.Expired);
+    expect(partiallyFilledResult.cancelledQty).toEqual(new BigNumber(7));
+    expect(
+      await (partiallyFilledResult.orderTransactionInfo as OrderTransactionInfo).cancelledQtyAsync
+    ).toEqual(new BigNumber(7));
+  });
+});
@@ -12,7 +12,7 @@ import {
 import { Market, Utils } from '../src';
 import { constants } from '../src/constants';
 
-import { MarketError, MARKETProtocolConfig } from '../src/types';
+import { CollateralEvent, MarketError, MARKETProtocolConfig } from '../src/types';
 import { createEVMSnapshot, restoreEVMSnapshot } from './utils';
 
 /**
@@ -334,6 +334,24 @@ describe('Collateral', () => {
       expect(includes).toBe(false);
     });
 
+    it('pages through the events one block range chunk at a time', async () => {
+      const chunkedMarket = new Market(web3.currentProvider, {
+        networkId: constants.NETWORK_ID_TRUFFLE,
+        blockRangeChunkSize: 10
+      });
+      const latestBlockNumber: number = web3.eth.blockNumber;
+
+      let pageCount = 0;
+      let chunkedEvents: CollateralEvent[] = [];
+      for await (const page of chunkedMarket.iterateCollateralEvents(marketContractAddress)) {
+        pageCount++;
+        chunkedEvents = chunkedEvents.concat(page);
+      }
+
+      expect(pageCount).toBe(Math.ceil((latestBlockNumber + 1) / 10));
+      expect(chunkedEvents).toEqual(await market.getCollateralEventsAsync(marketContractAddress));
+    });
+
     it('returns a withdrawal', async () => {
       await market.withdrawCollateralAsync(marketContractAddress, depositAmount, {
         from: maker
@@ -351,6 +369,67 @@ describe('Collateral', () => {
       );
       expect(includes).toBe(true);
     });
+
+    it('returns the balance after each update', async () => {
+      const events = await market.getCollateralEventsAsync(
+        marketContractAddress,
+        0,
+        'latest',
+        maker
+      );
+
+      expect(events[events.length - 1]).toMatchObject({
+        balanceAfter: await market.getUserAccountBalanceAsync(marketContractAddress, maker)
+      });
+    });
+
+    it('returns the collateral locked by a trade', async () => {
+      const tradeMaker = web3.eth.accounts[3];
+      const tradeTaker = web3.eth.accounts[4];
+      const initialCredit: BigNumber = new BigNumber(1e23);
+      const collateralToken: ERC20 = await ERC20.createAndValidate(web3, collateralTokenAddress);
+      for (const account of [tradeMaker, tradeTaker]) {
+        await collateralToken.transferTx(account, initialCredit).send({ from: deploymentAddress });
+        await collateralToken
+          .approveTx(collateralPoolAddress, initialCredit)
+          .send({ from: account });
+        await market.depositCollateralAsync(marketContractAddress, initialCredit, {
+          from: account
+        });
+      }
+      const signedOrder: SignedOrder = await market.createSignedOrderAsync(
+        marketContractAddress,
+        new BigNumber(Math.floor(Date.now() / 1000) + 60 * 60),
+        constants.NULL_ADDRESS,
+        tradeMaker,
+        new BigNumber(0),
+        constants.NULL_ADDRESS,
+        new BigNumber(0),
+        new BigNumber(10),
+        new BigNumber(40000),
+        Utils.generatePseudoRandomSalt(),
+        false
+      );
+      const orderTxInfo = await market.tradeOrderAsync(signedOrder, new BigNumber(2), {
+        from: tradeTaker,
+        gas: 400000
+      });
+
+      const events = await market.getCollateralEventsAsync(
+        marketContractAddress,
+        0,
+        'latest',
+        tradeTaker
+      );
+      const tradeLock = events.find(e => e.txHash === orderTxInfo.txHash) as CollateralEvent;
+      expect(tradeLock.type).toEqual('trade-lock');
+      expect(tradeLock.from).toEqual(tradeTaker);
+      expect(tradeLock.to).toEqual(collateralPoolAddress);
+      expect(tradeLock.balanceAfter).toEqual(
+        await market.getUserAccountBalanceAsync(marketContractAddress, tradeTaker)
+      );
+      expect(tradeLock.amount).toEqual(initialCredit.minus(tradeLock.balanceAfter));
+    });
   });
 
   describe('Positions', () => {
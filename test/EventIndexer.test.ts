@@ -0,0 +1,196 @@
+import BigNumber from 'bignumber.js';
+import Web3 from 'web3';
+
+// Types
+import { ERC20, MarketContract } from '@marketprotocol/types';
+
+import { EventIndexer, InMemoryEventIndexStorage, Market } from '../src';
+import { JSONFileEventIndexStorage } from '../src/node';
+import { constants } from '../src/constants';
+import { IndexedEventLog, MARKETProtocolConfig } from '../src/types';
+
+import { createEVMSnapshot, restoreEVMSnapshot } from './utils';
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+describe('EventIndexer', () => {
+  const marketContractAddress = '0x1234567890123456789012345678901234567890';
+  const eventLog = (blockNumber: number, logIndex: number = 0): IndexedEventLog => ({
+    event: 'UpdatedUserBalance',
+    args: { user: constants.NULL_ADDRESS, balance: '100' },
+    txHash: `0x${blockNumber}`,
+    blockNumber,
+    logIndex
+  });
+
+  describe('InMemoryEventIndexStorage', () => {
+    it('stores event logs in block order', async () => {
+      const storage = new InMemoryEventIndexStorage();
+      await storage.addEventLogsAsync(marketContractAddress, [eventLog(5), eventLog(2, 1)]);
+      await storage.addEventLogsAsync(marketContractAddress, [eventLog(2, 0)]);
+
+      const eventLogs = await storage.getEventLogsAsync(
+        marketContractAddress,
+        'UpdatedUserBalance',
+        0,
+        4
+      );
+      expect(eventLogs).toEqual([eventLog(2, 0), eventLog(2, 1)]);
+    });
+
+    it('removes event logs from a block onwards', async () => {
+      const storage = new InMemoryEventIndexStorage();
+      await storage.addEventLogsAsync(marketContractAddress, [
+        eventLog(1),
+        eventLog(2),
+        eventLog(3)
+      ]);
+      await storage.removeEventLogsFromBlockAsync(marketContractAddress, 2);
+
+      expect(
+        await storage.getEventLogsAsync(marketContractAddress, 'UpdatedUserBalance', 0, 10)
+      ).toEqual([eventLog(1)]);
+    });
+
+    it('remembers the last synced block', async () => {
+      const storage = new InMemoryEventIndexStorage();
+      expect(await storage.getLastSyncedBlockAsync(marketContractAddress)).toBeNull();
+
+      await storage.setLastSyncedBlockAsync(marketContractAddress, 42);
+      expect(await storage.getLastSyncedBlockAsync(marketContractAddress)).toBe(42);
+    });
+  });
+
+  describe('JSONFileEventIndexStorage', () => {
+    const filePath = path.join(os.tmpdir(), `market-event-index-${Date.now()}.json`);
+
+    afterAll(() => {
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+      }
+    });
+
+    it('reloads the index written by a previous instance', async () => {
+      const storage = new JSONFileEventIndexStorage(filePath);
+      await storage.addEventLogsAsync(marketContractAddress, [eventLog(3)]);
+      await storage.setLastSyncedBlockAsync(marketContractAddress, 7);
+
+      const reloadedStorage = new JSONFileEventIndexStorage(filePath);
+      expect(await reloadedStorage.getLastSyncedBlockAsync(marketContractAddress)).toBe(7);
+      expect(
+        await reloadedStorage.getEventLogsAsync(marketContractAddress, 'UpdatedUserBalance', 0, 7)
+      ).toEqual([eventLog(3)]);
+    });
+  });
+
+  describe('syncing', () => {
+    const web3 = new Web3(new Web3.providers.HttpProvider('http://localhost:9545'));
+    const config: MARKETProtocolConfig = {
+      networkId: constants.NETWORK_ID_TRUFFLE
+    };
+    const depositAmount: BigNumber = new BigNumber(1e18);
+
+    let market: Market;
+    let contractAddress: string;
+    let user: string;
+    let snapshotId: string;
+
+    beforeAll(async () => {
+      jest.setTimeout(30000);
+      market = new Market(web3.currentProvider, config);
+      contractAddress = (await market.marketContractRegistry.getAddressWhiteList)[0];
+      user = web3.eth.accounts[6];
+      const deployedMarketContract = await MarketContract.createAndValidate(web3, contractAddress);
+      const collateralToken = await ERC20.createAndValidate(
+        web3,
+        await deployedMarketContract.COLLATERAL_TOKEN_ADDRESS
+      );
+
+      snapshotId = await createEVMSnapshot(web3);
+      await collateralToken.transferTx(user, depositAmount).send({ from: web3.eth.accounts[0] });
+      await collateralToken
+        .approveTx(await deployedMarketContract.MARKET_COLLATERAL_POOL_ADDRESS, depositAmount)
+        .send({ from: user });
+      await market.depositCollateralAsync(contractAddress, depositAmount, { from: user });
+    });
+
+    afterAll(async () => {
+      delete market.eventIndexer;
+      await restoreEVMSnapshot(web3, snapshotId);
+    });
+
+    it('answers collateral history from the index', async () => {
+      const chainEvents = await market.getCollateralEventsAsync(contractAddress, 0, 'latest', user);
+      const eventIndexer = new EventIndexer(web3, new InMemoryEventIndexStorage(), {
+        blockRangeChunkSize: 10
+      });
+      eventIndexer.addContract(contractAddress);
+      const lastSyncedBlock = await eventIndexer.syncAsync();
+
+      expect(await eventIndexer.isSyncedAsync(contractAddress, lastSyncedBlock)).toBe(true);
+      market.eventIndexer = eventIndexer;
+      expect(await market.getCollateralEventsAsync(contractAddress, 0, 'latest', user)).toEqual(
+        chainEvents
+      );
+    });
+
+    it('is not synced over the blocks of a sync that failed halfway', async () => {
+      class FailingEventIndexStorage extends InMemoryEventIndexStorage {
+        public addsBeforeFailure: number = Infinity;
+
+        public async addEventLogsAsync(
+          marketAddress: string,
+          eventLogs: IndexedEventLog[]
+        ): Promise<void> {
+          if (this.addsBeforeFailure-- <= 0) {
+            throw new Error('storage failure');
+          }
+          return super.addEventLogsAsync(marketAddress, eventLogs);
+        }
+      }
+      const storage = new FailingEventIndexStorage();
+      const eventIndexer = new EventIndexer(web3, storage);
+      eventIndexer.addContract(contractAddress);
+      const lastSyncedBlock = await eventIndexer.syncAsync();
+
+      // syncs every block again, in two chunks of which only the first is stored.
+      const resyncingEventIndexer = new EventIndexer(web3, storage, {
+        rewindBlocks: lastSyncedBlock + 1,
+        blockRangeChunkSize: Math.ceil((lastSyncedBlock + 1) / 2)
+      });
+      resyncingEventIndexer.addContract(contractAddress);
+      storage.addsBeforeFailure = 1;
+
+      await expect(resyncingEventIndexer.syncAsync()).rejects.toThrow('storage failure');
+      expect(await resyncingEventIndexer.isSyncedAsync(contractAddress, lastSyncedBlock)).toBe(
+        false
+      );
+    });
+
+    it('does not duplicate rewound events', async () => {
+      const eventIndexer = new EventIndexer(web3, new InMemoryEventIndexStorage(), {
+        rewindBlocks: 5
+      });
+      eventIndexer.addContract(contractAddress);
+      const lastSyncedBlock = await eventIndexer.syncAsync();
+      const eventLogs = await eventIndexer.getEventLogsAsync(
+        contractAddress,
+        'UpdatedUserBalance',
+        0,
+        lastSyncedBlock
+      );
+
+      await eventIndexer.syncAsync();
+      expect(
+        await eventIndexer.getEventLogsAsync(
+          contractAddress,
+          'UpdatedUserBalance',
+          0,
+          lastSyncedBlock
+        )
+      ).toEqual(eventLogs);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import BigNumber from 'bignumber.js';
+import Web3 from 'web3';
+import DoneCallback = jest.DoneCallback;
+
+// Types
+import { ERC20, MarketContract } from '@marketprotocol/types';
+
+import { Market } from '../src';
+import { constants } from '../src/constants';
+import { MarketError, MarketEventLog, MARKETProtocolConfig } from '../src/types';
+
+import { createEVMSnapshot, restoreEVMSnapshot } from './utils';
+
+describe('Market events', () => {
+  const web3 = new Web3(new Web3.providers.HttpProvider('http://localhost:9545'));
+  const config: MARKETProtocolConfig = {
+    networkId: constants.NETWORK_ID_TRUFFLE
+  };
+  const depositAmount: BigNumber = new BigNumber(1e18);
+
+  let market: Market;
+  let contractAddress: string;
+  let deploymentAddress: string;
+  let user: string;
+  let collateralToken: ERC20;
+  let collateralPoolAddress: string;
+  let snapshotId: string;
+  let tokens: string[];
+
+  beforeAll(async () => {
+    jest.setTimeout(30000);
+    market = new Market(web3.currentProvider, config);
+    contractAddress = (await market.marketContractRegistry.getAddressWhiteList)[0];
+    deploymentAddress = web3.eth.accounts[0];
+    user = web3.eth.accounts[6];
+    const deployedMarketContract = await MarketContract.createAndValidate(web3, contractAddress);
+    collateralToken = await ERC20.createAndValidate(
+      web3,
+      await deployedMarketContract.COLLATERAL_TOKEN_ADDRESS
+    );
+    collateralPoolAddress = await deployedMarketContract.MARKET_COLLATERAL_POOL_ADDRESS;
+  });
+
+  beforeEach(async () => {
+    snapshotId = await createEVMSnapshot(web3);
+    tokens = [];
+  });
+
+  afterEach(async () => {
+    tokens.forEach(token => {
+      try {
+        market.unsubscribe(token);
+      } catch (err) {
+        // already unsubscribed by the test.
+      }
+    });
+    await restoreEVMSnapshot(web3, snapshotId);
+  });
+
+  it('notifies subscribers of collateral balance updates', (done: DoneCallback) => {
+    (async () => {
+      await collateralToken.transferTx(user, depositAmount).send({ from: deploymentAddress });
+      await collateralToken.approveTx(collateralPoolAddress, depositAmount).send({ from: user });
+
+      tokens.push(
+        await market.subscribeAsync(
+          contractAddress,
+          'UpdatedUserBalance',
+          { user },
+          (err: Error | null, eventLog?: MarketEventLog) => {
+            if (err || !eventLog) {
+              return;
+            }
+            expect(eventLog.event).toEqual('UpdatedUserBalance');
+            expect(eventLog.args.user).toEqual(user);
+            done();
+          }
+        )
+      );
+      await market.depositCollateralAsync(contractAddress, depositAmount, { from: user });
+    })().catch(done);
+  });
+
+  it('rejects subscribing the same callback twice', async () => {
+    const callback = () => undefined;
+    tokens.push(await market.subscribeAsync(contractAddress, 'OrderFilled', {}, callback));
+
+    await expect(
+      market.subscribeAsync(contractAddress, 'OrderFilled', {}, callback)
+    ).rejects.toThrow(MarketError.SubscriptionAlreadyPresent);
+  });
+
+  it('throws when unsubscribing an unknown token', () => {
+    expect(() => market.unsubscribe('unknown')).toThrow(MarketError.SubscriptionNotFound);
+  });
+
+  it('tears subscriptions down when the provider changes', async () => {
+    const token = await market.subscribeAsync(
+      contractAddress,
+      'ContractSettled',
+      {},
+      () => undefined
+    );
+    market.setProvider(web3.currentProvider);
+
+    expect(() => market.unsubscribe(token)).toThrow(MarketError.SubscriptionNotFound);
+  });
+});
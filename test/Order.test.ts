@@ -10,11 +10,26 @@ import {
   SignedOrder
 } from '@marketprotocol/types';
 
-import { Market, MARKETProtocolConfig, Utils } from '../src';
+import {
+  deserializeOrder,
+  Market,
+  MARKETProtocolConfig,
+  PrivateKeySigner,
+  serializeOrder,
+  Utils
+} from '../src';
 import { constants } from '../src/constants';
 
 import { createEVMSnapshot, restoreEVMSnapshot } from './utils';
-import { MarketError } from '../src/types';
+import { EIP712TypedData, MarketError, SignatureScheme } from '../src/types';
+import {
+  createEIP712OrderHash,
+  createOrderHash,
+  hashEIP712TypedData,
+  isValidSignature
+} from '../src/lib/Order';
+
+let ethUtil = require('ethereumjs-util');
 
 /**
  * Order
@@ -148,6 +163,188 @@ describe('Order', () => {
     expect(await market.isValidSignatureAsync(signedOrderFake, orderHashFake)).toBe(false);
   });
 
+  describe('off-chain hashing', () => {
+    let signedOrder: SignedOrder;
+
+    beforeEach(async () => {
+      signedOrder = await market.createSignedOrderAsync(
+        contractAddress,
+        new BigNumber(Math.floor(Date.now() / 1000) + 60 * 60),
+        constants.NULL_ADDRESS,
+        web3.eth.accounts[1],
+        new BigNumber(10),
+        constants.NULL_ADDRESS,
+        new BigNumber(20),
+        new BigNumber(-100),
+        new BigNumber(100000),
+        Utils.generatePseudoRandomSalt(),
+        false
+      );
+    });
+
+    it('creates the same order hash as OrderLib', async () => {
+      const orderHash = await market.createOrderHashAsync(signedOrder);
+
+      expect(createOrderHash(signedOrder)).toEqual(orderHash);
+    });
+
+    it('verifies signatures like OrderLib', async () => {
+      const orderHash = createOrderHash(signedOrder);
+      expect(isValidSignature(signedOrder, orderHash)).toBe(true);
+
+      const signedOrderFake: SignedOrder = { ...signedOrder, maker: web3.eth.accounts[2] };
+      expect(isValidSignature(signedOrderFake, createOrderHash(signedOrderFake))).toBe(false);
+      expect(await market.isValidSignatureAsync(signedOrderFake, orderHash)).toBe(false);
+    });
+
+    it('is used by Market when useOffChainOrderHashing is set', async () => {
+      const offChainMarket = new Market(web3.currentProvider, {
+        ...config,
+        useOffChainOrderHashing: true
+      });
+      const orderHash = await offChainMarket.createOrderHashAsync(signedOrder);
+
+      expect(orderHash).toEqual(await market.createOrderHashAsync(signedOrder));
+      expect(await offChainMarket.isValidSignatureAsync(signedOrder, orderHash)).toBe(true);
+    });
+  });
+
+  describe('EIP712 signing', () => {
+    const privateKey = Buffer.alloc(32, 7);
+    const signer: string = ethUtil.bufferToHex(ethUtil.privateToAddress(privateKey));
+
+    const signEIP712 = (unsignedOrder: Order, networkId: number): SignedOrder => {
+      const { v, r, s } = ethUtil.ecsign(
+        ethUtil.toBuffer(createEIP712OrderHash(unsignedOrder, networkId)),
+        privateKey
+      );
+      return {
+        ...unsignedOrder,
+        ecSignature: { v, r: ethUtil.bufferToHex(r), s: ethUtil.bufferToHex(s) },
+        signatureScheme: SignatureScheme.EIP712
+      };
+    };
+
+    const createOrder = (): Order => ({
+      contractAddress,
+      expirationTimestamp: new BigNumber(Math.floor(Date.now() / 1000) + 60 * 60),
+      feeRecipient: constants.NULL_ADDRESS,
+      maker: signer,
+      makerFee: new BigNumber(0),
+      orderQty: new BigNumber(-5),
+      price: new BigNumber(40000),
+      remainingQty: new BigNumber(-5),
+      salt: Utils.generatePseudoRandomSalt(),
+      taker: constants.NULL_ADDRESS,
+      takerFee: new BigNumber(0)
+    });
+
+    it('verifies signatures over the typed data of the order', async () => {
+      const signedOrder = signEIP712(createOrder(), config.networkId);
+      const orderHash = createOrderHash(signedOrder);
+
+      expect(await market.isValidSignatureAsync(signedOrder, orderHash)).toBe(true);
+      expect(
+        await market.isValidSignatureAsync({ ...signedOrder, price: new BigNumber(1) }, orderHash)
+      ).toBe(false);
+      expect(() => isValidSignature(signedOrder, orderHash)).toThrow();
+    });
+
+    it('binds signatures to the network', async () => {
+      const signedOrder = signEIP712(createOrder(), config.networkId + 1);
+
+      expect(await market.isValidSignatureAsync(signedOrder, createOrderHash(signedOrder))).toBe(
+        false
+      );
+    });
+
+    describe('reference vector', () => {
+      // digest and signature computed with eth-sig-util 2.5.4 (TypedDataUtils.sign, signTypedData)
+      const typedData: EIP712TypedData = {
+        types: {
+          EIP712Domain: [
+            { name: 'name', type: 'string' },
+            { name: 'version', type: 'string' },
+            { name: 'chainId', type: 'uint256' },
+            { name: 'verifyingContract', type: 'address' }
+          ],
+          Mail: [
+            { name: 'from', type: 'address' },
+            { name: 'to', type: 'address' },
+            { name: 'amount', type: 'uint256' },
+            { name: 'contents', type: 'string' }
+          ]
+        },
+        primaryType: 'Mail',
+        domain: {
+          name: 'Ether Mail',
+          version: '1',
+          chainId: 1,
+          verifyingContract: '0xCcCCccccCCCCcCCCCCCcCcCccCcCCCcCcccccccC'
+        },
+        message: {
+          from: '0xCD2a3d9F938E13CD947Ec05AbC7FE734Df8DD826',
+          to: '0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB',
+          amount: '1000000000000000000',
+          contents: 'Hello, Bob!'
+        }
+      };
+      const expectedDigest = '0xe254db5201ff125bb7475e50a79ef96c2893bb2803129fefb9dcaf8e0c4278b9';
+
+      it('hashes typed data like the reference implementation', () => {
+        expect(hashEIP712TypedData(typedData)).toEqual(expectedDigest);
+      });
+
+      it('signs typed data like the reference implementation', async () => {
+        // keccak256('cow')
+        const vectorSigner = new PrivateKeySigner(
+          '0xc85ef7d79691fe79573b1a7064c19c1a9819ebdbd1faaab1a8ec92344438aaf4'
+        );
+
+        expect(await vectorSigner.signTypedDataAsync(typedData)).toEqual({
+          v: 28,
+          r: '0xd244622419b88ead9e650345e4c9a79d19d25d564ca1846e59e492b394a97edb',
+          s: '0x6576992d1aaa555bd8b93ed62b66dd83817c10d8374e42e867b58d1cd84f2f41'
+        });
+      });
+    });
+  });
+
+  describe('serialization', () => {
+    const signedOrder: SignedOrder = {
+      contractAddress: '0x1234567890123456789012345678901234567890',
+      expirationTimestamp: new BigNumber(1700000000),
+      feeRecipient: constants.NULL_ADDRESS,
+      maker: '0x1111111111111111111111111111111111111111',
+      makerFee: new BigNumber('1e30'),
+      orderQty: new BigNumber('-9007199254740993'),
+      price: new BigNumber(40000),
+      remainingQty: new BigNumber('-9007199254740993'),
+      salt: new BigNumber('123456789012345678901234567890123456789'),
+      taker: constants.NULL_ADDRESS,
+      takerFee: new BigNumber(0),
+      ecSignature: { v: 27, r: `0x${'ab'.repeat(32)}`, s: `0x${'cd'.repeat(32)}` },
+      signatureScheme: SignatureScheme.EthSign
+    };
+
+    it('survives JSON without losing precision', () => {
+      const serializedOrder = serializeOrder(signedOrder);
+
+      expect(serializedOrder.version).toEqual(constants.ORDER_SERIALIZATION_VERSION);
+      expect(serializedOrder.makerFee).toEqual('1000000000000000000000000000000');
+      expect(deserializeOrder(JSON.parse(JSON.stringify(serializedOrder)))).toEqual(signedOrder);
+    });
+
+    it('rejects malformed and unknown versions of serialized orders', () => {
+      const serializedOrder = serializeOrder(signedOrder);
+
+      expect(() => deserializeOrder({ ...serializedOrder, price: '4e4' })).toThrow();
+      expect(() => deserializeOrder({ ...serializedOrder, version: '0' })).toThrow(
+        'Unsupported order serialization version 0'
+      );
+    });
+  });
+
   it('Trades an order', async () => {
     const expirationTimestamp = new BigNumber(Math.floor(Date.now() / 1000) + 60 * 60);
     const maker = web3.eth.accounts[1];
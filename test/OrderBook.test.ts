@@ -0,0 +1,178 @@
+import BigNumber from 'bignumber.js';
+import Web3 from 'web3';
+import DoneCallback = jest.DoneCallback;
+
+// Types
+import { ERC20, MarketContract, SignedOrder } from '@marketprotocol/types';
+
+import { Market, OrderBook, Utils } from '../src';
+import { constants } from '../src/constants';
+import { MarketError, MARKETProtocolConfig, OrderBookEntry } from '../src/types';
+
+import { createEVMSnapshot, restoreEVMSnapshot } from './utils';
+
+describe('OrderBook', () => {
+  const web3 = new Web3(new Web3.providers.HttpProvider('http://localhost:9545'));
+  const config: MARKETProtocolConfig = {
+    networkId: constants.NETWORK_ID_TRUFFLE
+  };
+  const fees: BigNumber = new BigNumber(0);
+  const initialCredit: BigNumber = new BigNumber(1e23);
+
+  let market: Market;
+  let contractAddress: string;
+  let deploymentAddress: string;
+  let maker: string;
+  let taker: string;
+  let collateralToken: ERC20;
+  let collateralPoolAddress: string;
+  let orderBook: OrderBook;
+  let snapshotId: string;
+
+  const createSignedOrderAsync = async (
+    orderQty: number,
+    price: number,
+    lifetimeSec: number = 60 * 60
+  ): Promise<SignedOrder> => {
+    return market.createSignedOrderAsync(
+      contractAddress,
+      Utils.getCurrentUnixTimestampSec()
+        .plus(lifetimeSec)
+        .integerValue(BigNumber.ROUND_FLOOR),
+      constants.NULL_ADDRESS,
+      maker,
+      fees,
+      constants.NULL_ADDRESS,
+      fees,
+      new BigNumber(orderQty),
+      new BigNumber(price),
+      Utils.generatePseudoRandomSalt(),
+      false
+    );
+  };
+
+  beforeAll(async () => {
+    jest.setTimeout(30000);
+    market = new Market(web3.currentProvider, config);
+    contractAddress = (await market.marketContractRegistry.getAddressWhiteList)[0];
+    deploymentAddress = web3.eth.accounts[0];
+    maker = web3.eth.accounts[3];
+    taker = web3.eth.accounts[4];
+    const deployedMarketContract = await MarketContract.createAndValidate(web3, contractAddress);
+    collateralToken = await ERC20.createAndValidate(
+      web3,
+      await deployedMarketContract.COLLATERAL_TOKEN_ADDRESS
+    );
+    collateralPoolAddress = await deployedMarketContract.MARKET_COLLATERAL_POOL_ADDRESS;
+  });
+
+  beforeEach(async () => {
+    snapshotId = await createEVMSnapshot(web3);
+    orderBook = new OrderBook(market, 0, 50);
+  });
+
+  afterEach(async () => {
+    try {
+      orderBook.unsubscribe();
+    } catch (err) {
+      // test did not subscribe.
+    }
+    await restoreEVMSnapshot(web3, snapshotId);
+  });
+
+  it('keeps bids and asks in price-time priority', async () => {
+    const firstBid = await createSignedOrderAsync(10, 40000);
+    const secondBid = await createSignedOrderAsync(5, 40000);
+    const betterBid = await createSignedOrderAsync(3, 41000);
+    const ask = await createSignedOrderAsync(-4, 45000);
+    const betterAsk = await createSignedOrderAsync(-2, 44000);
+    for (const signedOrder of [firstBid, secondBid, betterBid, ask, betterAsk]) {
+      await orderBook.addOrderAsync(signedOrder);
+    }
+
+    expect((orderBook.getBestBid(contractAddress) as OrderBookEntry).signedOrder).toEqual(
+      betterBid
+    );
+    expect((orderBook.getBestAsk(contractAddress) as OrderBookEntry).signedOrder).toEqual(
+      betterAsk
+    );
+    expect(orderBook.getSpread(contractAddress)).toEqual(new BigNumber(3000));
+
+    const depth = orderBook.getDepth(contractAddress);
+    expect(depth.bids.map(level => [level.price.toNumber(), level.qty.toNumber()])).toEqual([
+      [41000, 3],
+      [40000, 15]
+    ]);
+    expect(depth.asks.map(level => [level.price.toNumber(), level.qty.toNumber()])).toEqual([
+      [44000, 2],
+      [45000, 4]
+    ]);
+    expect(depth.bids[1].orderCount).toBe(2);
+    expect(orderBook.getDepth(contractAddress, 1).bids).toHaveLength(1);
+  });
+
+  it('has no spread for a one sided book', async () => {
+    await orderBook.addOrderAsync(await createSignedOrderAsync(10, 40000));
+
+    expect(orderBook.getBestAsk(contractAddress)).toBeUndefined();
+    expect(orderBook.getSpread(contractAddress)).toBeUndefined();
+  });
+
+  it('rejects orders with an invalid signature', async () => {
+    const signedOrder = await createSignedOrderAsync(10, 40000);
+
+    await expect(
+      orderBook.addOrderAsync({ ...signedOrder, price: new BigNumber(41000) })
+    ).rejects.toThrow(MarketError.InvalidSignature);
+  });
+
+  it('rejects orders that do not conform to the schema', async () => {
+    const signedOrder = await createSignedOrderAsync(10, 40000);
+
+    await expect(
+      orderBook.addOrderAsync({ ...signedOrder, maker: 'not an address' })
+    ).rejects.toThrow();
+  });
+
+  it('removes orders', async () => {
+    const orderHash = await orderBook.addOrderAsync(await createSignedOrderAsync(10, 40000));
+    orderBook.removeOrder(orderHash);
+
+    expect(orderBook.getBestBid(contractAddress)).toBeUndefined();
+  });
+
+  it('updates remaining quantities after fills', async () => {
+    for (const account of [maker, taker]) {
+      await collateralToken.transferTx(account, initialCredit).send({ from: deploymentAddress });
+      await collateralToken.approveTx(collateralPoolAddress, initialCredit).send({ from: account });
+      await market.depositCollateralAsync(contractAddress, initialCredit, { from: account });
+    }
+    const partiallyFilledOrder = await createSignedOrderAsync(10, 40000);
+    const filledOrder = await createSignedOrderAsync(5, 41000);
+    await orderBook.addOrderAsync(partiallyFilledOrder);
+    await orderBook.addOrderAsync(filledOrder);
+
+    await market.batchTradeOrdersAsync(
+      [partiallyFilledOrder, filledOrder],
+      [new BigNumber(4), new BigNumber(5)],
+      { from: taker, gas: 400000 }
+    );
+    await orderBook.updateRemainingQtysAsync(contractAddress);
+
+    const depth = orderBook.getDepth(contractAddress);
+    expect(depth.bids).toHaveLength(1);
+    expect(depth.bids[0].qty).toEqual(new BigNumber(6));
+  });
+
+  it('prunes expired orders', (done: DoneCallback) => {
+    (async () => {
+      const orderHash = await orderBook.addOrderAsync(await createSignedOrderAsync(10, 40000, 2));
+
+      orderBook.subscribe((prunedOrderHash: string) => {
+        expect(prunedOrderHash).toEqual(orderHash);
+        expect(orderBook.getBestBid(contractAddress)).toBeUndefined();
+        done();
+      });
+    })().catch(done);
+  });
+});
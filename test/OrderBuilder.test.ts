@@ -0,0 +1,76 @@
+import BigNumber from 'bignumber.js';
+import Web3 from 'web3';
+
+import { Market } from '../src';
+import { constants } from '../src/constants';
+import { ContractMetaData, MarketError, MARKETProtocolConfig } from '../src/types';
+
+describe('OrderBuilder', () => {
+  const web3 = new Web3(new Web3.providers.HttpProvider('http://localhost:9545'));
+  const config: MARKETProtocolConfig = {
+    networkId: constants.NETWORK_ID_TRUFFLE
+  };
+  const market = new Market(web3.currentProvider, config);
+  let contractAddress: string;
+  let metaData: ContractMetaData;
+  let maker: string;
+
+  const humanPrice = (price: BigNumber): BigNumber =>
+    new BigNumber(price).shiftedBy(-new BigNumber(metaData.priceDecimalPlaces).toNumber());
+
+  beforeAll(async () => {
+    jest.setTimeout(30000);
+    contractAddress = (await market.marketContractRegistry.getAddressWhiteList)[0];
+    metaData = await market.getContractMetaDataAsync(contractAddress);
+    maker = web3.eth.accounts[1];
+  });
+
+  it('scales human prices to contract units and defaults the rest', async () => {
+    const midPrice = new BigNumber(metaData.priceFloor)
+      .plus(metaData.priceCap)
+      .dividedToIntegerBy(2);
+    const order = await market
+      .createOrderBuilder(contractAddress)
+      .setMaker(maker)
+      .sell(3)
+      .atPrice(humanPrice(midPrice))
+      .buildAsync();
+
+    expect(order.price).toEqual(midPrice);
+    expect(order.orderQty).toEqual(new BigNumber(-3));
+    expect(order.taker).toEqual(constants.NULL_ADDRESS);
+    expect(order.feeRecipient).toEqual(constants.NULL_ADDRESS);
+    expect(order.expirationTimestamp.isGreaterThan(new BigNumber(Date.now() / 1000))).toBe(true);
+  });
+
+  it('produces signed orders', async () => {
+    const signedOrder = await market
+      .createOrderBuilder(contractAddress)
+      .setMaker(maker)
+      .buy(1)
+      .atPrice(humanPrice(metaData.priceFloor))
+      .signAsync();
+
+    expect(
+      await market.isValidSignatureAsync(
+        signedOrder,
+        await market.createOrderHashAsync(signedOrder)
+      )
+    ).toBe(true);
+  });
+
+  it('rejects prices outside of the floor and cap', async () => {
+    await expect(
+      market
+        .createOrderBuilder(contractAddress)
+        .setMaker(maker)
+        .buy(1)
+        .atPrice(humanPrice(new BigNumber(metaData.priceCap).plus(1)))
+        .buildAsync()
+    ).rejects.toThrow(MarketError.OrderPriceOutOfRange);
+  });
+
+  it('rejects fractional quantities', () => {
+    expect(() => market.createOrderBuilder(contractAddress).buy(1.5)).toThrow();
+  });
+});
@@ -1,98 +1,100 @@
-import { createStubInstance, stub } from 'sinon';
-import { IWatchFilter, MarketContract, Order } from '@marketprotocol/types';
+import { createStubInstance, SinonStub, stub } from 'sinon';
+import { MarketContract, Order } from '@marketprotocol/types';
 import BigNumber from 'bignumber.js';
+import Web3 from 'web3';
 
 import { OrderTransactionInfo } from '../src/lib/OrderTransactionInfo';
-import { MarketError } from '../src/types';
+import { MarketError, TransactionStatus } from '../src/types';
+
+type Callback = (err: Error | null, result?: {} | null) => void;
 
 /**
  * Test OrderTransactionInfo
  */
 describe('OrderTransactionInfo', () => {
+  const txHash = '0x0000000';
+  const minedBlockNumber = 5;
   let mockContract: MarketContract;
+  let mockWeb3: Web3;
   let stubOrder: Order;
-  let orderFilledGetResult;
-  let orderFilledWatchResult;
-  let orderCancelledGetResult;
-  let orderCancelledWatchResult;
-  let errorEventResult;
+  let orderFilledGet: SinonStub;
+  let orderFilledGetResult: Array<{}>;
+  let orderCancelledGetResult: Array<{}>;
+  let errorEventGetResult: Array<{}>;
+  let receipts: Array<{} | null>;
+  let transactions: Array<{} | null>;
+  let transactionCount: number;
+  let latestBlockNumbers: number[];
+  let callResult: string;
+
+  // returns the given results one after the other, repeating the last one.
+  const nextResult = <T>(results: T[]): T =>
+    (results.length > 1 ? results.shift() : results[0]) as T;
 
   function stubMarketContractEvents() {
-    mockContract.ErrorEvent = stub().returns({
-      watch(_: IWatchFilter, cb: (err: Error, event: {}) => void): () => Promise<void> {
-        setTimeout(() => {
-          if (errorEventResult) {
-            cb(null, errorEventResult);
-          }
-        }, 100);
-
-        return () => Promise.resolve();
-      }
-    });
-
-    mockContract.OrderFilledEvent = stub().returns({
-      get() {
-        return orderFilledGetResult;
-      },
-
-      watch(_: IWatchFilter, cb: (err: Error, event: {}) => void): () => Promise<void> {
-        setTimeout(() => {
-          if (orderFilledWatchResult) {
-            cb(null, orderFilledWatchResult);
-          }
-        }, 100);
-
-        return () => Promise.resolve();
-      }
-    });
-
+    mockContract.ErrorEvent = stub().returns({ get: () => Promise.resolve(errorEventGetResult) });
+    orderFilledGet = stub().callsFake(() => Promise.resolve(orderFilledGetResult));
+    mockContract.OrderFilledEvent = stub().returns({ get: orderFilledGet });
     mockContract.OrderCancelledEvent = stub().returns({
-      get() {
-        return orderCancelledGetResult;
-      },
-
-      watch(_: IWatchFilter, cb: (err: Error, event: {}) => void): () => Promise<void> {
-        setTimeout(() => {
-          if (orderCancelledWatchResult) {
-            cb(null, orderCancelledWatchResult);
-          }
-        }, 100);
-
-        return () => Promise.resolve();
-      }
+      get: () => Promise.resolve(orderCancelledGetResult)
     });
   }
 
+  function createMockWeb3(): Web3 {
+    const eth = {
+      getTransactionReceipt: (_: string, cb: Callback) => cb(null, nextResult(receipts)),
+      getTransaction: (_: string, cb: Callback) => cb(null, nextResult(transactions)),
+      getTransactionCount: (_: string, __: string, cb: Callback) => cb(null, transactionCount),
+      getBlockNumber: (cb: Callback) => cb(null, nextResult(latestBlockNumbers)),
+      call: (_: {}, __: number, cb: Callback) => cb(null, callResult)
+    };
+    return ({ eth } as {}) as Web3;
+  }
+
+  const createOrderTxInfo = (droppedAfterMs?: number) =>
+    new OrderTransactionInfo(mockWeb3, mockContract, stubOrder, txHash, 10, droppedAfterMs);
+
   beforeEach(() => {
     mockContract = createStubInstance(MarketContract);
+    mockWeb3 = createMockWeb3();
     stubOrder = {
       maker: ''
     } as Order;
-    orderFilledGetResult = Promise.resolve([]);
-    orderFilledWatchResult = {};
-    orderCancelledGetResult = Promise.resolve([]);
-    orderCancelledWatchResult = {};
-    errorEventResult = null;
+    orderFilledGetResult = [];
+    orderCancelledGetResult = [];
+    errorEventGetResult = [];
+    receipts = [{ blockNumber: minedBlockNumber, gasUsed: 21000, status: '0x1' }];
+    transactions = [{ from: '0x1', nonce: 3 }];
+    transactionCount = 4;
+    latestBlockNumbers = [minedBlockNumber];
+    callResult = '0x';
 
     // setup contract mocks
     stubMarketContractEvents();
   });
 
   describe('get filledQty', () => {
-    it('should watch for event if not already broadcasted', async () => {
-      const txHash = '0x0000000';
+    it('should read the fill from the block the transaction was mined in', async () => {
       const expectedFilledQty = new BigNumber(2);
-      orderFilledWatchResult = {
-        transactionHash: txHash,
-        args: {
-          filledQty: expectedFilledQty
-        }
-      };
+      receipts = [null, null, receipts[0]];
+      transactionCount = 3;
+      orderFilledGetResult = [{ transactionHash: txHash, args: { filledQty: expectedFilledQty } }];
 
-      const orderTxInfo = new OrderTransactionInfo(mockContract, stubOrder, txHash);
-      const actualFilledQty = await orderTxInfo.filledQtyAsync;
+      const actualFilledQty = await createOrderTxInfo().filledQtyAsync;
 
       expect(actualFilledQty.toString()).toEqual(expectedFilledQty.toString());
+      expect(orderFilledGet.firstCall.args[0]).toEqual({
+        fromBlock: minedBlockNumber,
+        toBlock: minedBlockNumber
+      });
+    });
+
+    it('should reject for a reverted transaction', async () => {
+      receipts = [{ blockNumber: minedBlockNumber, gasUsed: 21000, status: '0x0' }];
+
+      await expect(createOrderTxInfo().filledQtyAsync).rejects.toThrow(
+        MarketError.TransactionReverted
+      );
     });
 
     // test error events
@@ -104,35 +106,29 @@ describe('OrderTransactionInfo', () => {
     `(
       'should throw $expectedError for a $errorCode ErrorEvent',
       async ({ errorCode, expectedError }) => {
-        const txHash = '0x0000000';
-        orderFilledWatchResult = null;
-        errorEventResult = {
-          transactionHash: txHash,
-          args: {
-            errorCode: parseInt(errorCode, 10)
+        errorEventGetResult = [
+          {
+            transactionHash: txHash,
+            args: {
+              errorCode: parseInt(errorCode, 10)
+            }
           }
-        };
+        ];
 
-        const orderTxInfo = new OrderTransactionInfo(mockContract, stubOrder, txHash);
-
-        await expect(orderTxInfo.filledQtyAsync).rejects.toThrow(expectedError);
+        await expect(createOrderTxInfo().filledQtyAsync).rejects.toThrow(expectedError);
       }
     );
   });
 
   describe('get cancelledQty', () => {
-    it('should watch for event if not already broadcasted', async () => {
-      const txHash = '0x0000000';
+    it('should read the cancel from the block the transaction was mined in', async () => {
       const expectedCancelledQty = new BigNumber(2);
-      orderCancelledWatchResult = {
-        transactionHash: txHash,
-        args: {
-          cancelledQty: expectedCancelledQty
-        }
-      };
+      orderCancelledGetResult = [
+        { transactionHash: '0x1111111', args: { cancelledQty: new BigNumber(1) } },
+        { transactionHash: txHash, args: { cancelledQty: expectedCancelledQty } }
+      ];
 
-      const orderTxInfo = new OrderTransactionInfo(mockContract, stubOrder, txHash);
-      const actualCancelledQty = await orderTxInfo.cancelledQtyAsync;
+      const actualCancelledQty = await createOrderTxInfo().cancelledQtyAsync;
 
       expect(actualCancelledQty.toString()).toEqual(expectedCancelledQty.toString());
     });
@@ -146,19 +142,113 @@ describe('OrderTransactionInfo', () => {
     `(
       'should throw $expectedError for a $errorCode ErrorEvent',
       async ({ errorCode, expectedError }) => {
-        const txHash = '0x0000000';
-        orderFilledWatchResult = null;
-        errorEventResult = {
-          transactionHash: txHash,
-          args: {
-            errorCode: parseInt(errorCode, 10)
+        errorEventGetResult = [
+          {
+            transactionHash: txHash,
+            args: {
+              errorCode: parseInt(errorCode, 10)
+            }
           }
-        };
-
-        const orderTxInfo = new OrderTransactionInfo(mockContract, stubOrder, txHash);
+        ];
 
-        await expect(orderTxInfo.cancelledQtyAsync).rejects.toThrow(expectedError);
+        await expect(createOrderTxInfo().cancelledQtyAsync).rejects.toThrow(expectedError);
       }
     );
   });
+
+  describe('lifecycle', () => {
+    it('should wait for a number of confirmations', async () => {
+      receipts = [null, receipts[0]];
+      latestBlockNumbers = [minedBlockNumber, minedBlockNumber + 1, minedBlockNumber + 2];
+
+      const outcome = await createOrderTxInfo().waitForConfirmationsAsync(3);
+
+      expect(outcome).toEqual({
+        txHash,
+        status: TransactionStatus.Mined,
+        blockNumber: minedBlockNumber,
+        confirmations: 3,
+        gasUsed: new BigNumber(21000)
+      });
+    });
+
+    it('should report the Error event of a mined transaction', async () => {
+      errorEventGetResult = [
+        { transactionHash: txHash, args: { errorCode: OrderTransactionInfo.ORDER_EXPIRED_CODE } }
+      ];
+
+      expect((await createOrderTxInfo().getOutcomeAsync()).error).toEqual(MarketError.OrderExpired);
+    });
+
+    it('should decode the revert reason of a reverted transaction', async () => {
+      receipts = [{ blockNumber: minedBlockNumber, gasUsed: 30000, status: '0x0' }];
+      callResult =
+        '0x08c379a0' +
+        '0000000000000000000000000000000000000000000000000000000000000020' +
+        '0000000000000000000000000000000000000000000000000000000000000004' +
+        '6465616400000000000000000000000000000000000000000000000000000000';
+
+      const outcome = await createOrderTxInfo().getOutcomeAsync();
+
+      expect(outcome.status).toEqual(TransactionStatus.Reverted);
+      expect(outcome.gasUsed).toEqual(new BigNumber(30000));
+      expect(outcome.revertReason).toEqual('dead');
+    });
+
+    it('should report a pending transaction', async () => {
+      receipts = [null];
+      transactionCount = 3;
+
+      const orderTxInfo = createOrderTxInfo();
+
+      expect(await orderTxInfo.getStatusAsync()).toEqual(TransactionStatus.Pending);
+      expect(await orderTxInfo.getConfirmationsAsync()).toEqual(0);
+    });
+
+    it('should detect a dropped transaction', async () => {
+      receipts = [null];
+      transactions = [transactions[0], null];
+      transactionCount = 3;
+
+      await expect(createOrderTxInfo(50).receiptAsync).rejects.toThrow(
+        MarketError.TransactionDropped
+      );
+    });
+
+    it('should keep a transaction the node briefly does not know pending', async () => {
+      receipts = [null];
+      transactions = [transactions[0], null, transactions[0]];
+      transactionCount = 3;
+
+      const orderTxInfo = createOrderTxInfo();
+
+      expect(await orderTxInfo.getStatusAsync()).toEqual(TransactionStatus.Pending);
+      expect(await orderTxInfo.getStatusAsync()).toEqual(TransactionStatus.Pending);
+      expect(await orderTxInfo.getStatusAsync()).toEqual(TransactionStatus.Pending);
+    });
+
+    it('should detect a transaction the node never knew as dropped', async () => {
+      receipts = [null];
+      transactions = [null];
+      transactionCount = 3;
+
+      const orderTxInfo = createOrderTxInfo(50);
+
+      expect(await orderTxInfo.getStatusAsync()).toEqual(TransactionStatus.Pending);
+      await expect(orderTxInfo.receiptAsync).rejects.toThrow(MarketError.TransactionDropped);
+    });
+
+    it('should detect a replaced transaction', async () => {
+      receipts = [null];
+
+      const orderTxInfo = createOrderTxInfo();
+
+      await expect(orderTxInfo.receiptAsync).rejects.toThrow(MarketError.TransactionReplaced);
+      expect(await orderTxInfo.waitForConfirmationsAsync()).toEqual({
+        txHash,
+        status: TransactionStatus.Replaced,
+        confirmations: 0
+      });
+    });
+  });
 });
@@ -0,0 +1,191 @@
+import BigNumber from 'bignumber.js';
+import Web3 from 'web3';
+import DoneCallback = jest.DoneCallback;
+
+// Types
+import { ERC20, MarketContract, SignedOrder } from '@marketprotocol/types';
+
+import { Market, Utils } from '../src';
+import { constants } from '../src/constants';
+import { BlockParamLiteral, MarketError, MARKETProtocolConfig, OrderState } from '../src/types';
+import { OrderStateWatcher } from '../src/order_watcher/OrderStateWatcher';
+
+import { createEVMSnapshot, restoreEVMSnapshot } from './utils';
+
+describe('OrderStateWatcher', () => {
+  const web3 = new Web3(new Web3.providers.HttpProvider('http://localhost:9545'));
+  const config: MARKETProtocolConfig = {
+    networkId: constants.NETWORK_ID_TRUFFLE
+  };
+  const fees: BigNumber = new BigNumber(0);
+  const orderQty: BigNumber = new BigNumber(10);
+  const price: BigNumber = new BigNumber(100000);
+  const initialCredit: BigNumber = new BigNumber(1e23);
+
+  let market: Market;
+  let contractAddress: string;
+  let deploymentAddress: string;
+  let makerAddress: string;
+  let collateralToken: ERC20;
+  let collateralPoolAddress: string;
+  let orderStateWatcher: OrderStateWatcher;
+  let snapshotId: string;
+
+  const createSignedOrderAsync = async (lifetimeSec: number): Promise<SignedOrder> => {
+    return market.createSignedOrderAsync(
+      contractAddress,
+      Utils.getCurrentUnixTimestampSec()
+        .plus(lifetimeSec)
+        .integerValue(BigNumber.ROUND_FLOOR),
+      constants.NULL_ADDRESS,
+      makerAddress,
+      fees,
+      constants.NULL_ADDRESS,
+      fees,
+      orderQty,
+      price,
+      Utils.generatePseudoRandomSalt(),
+      false
+    );
+  };
+
+  beforeAll(async () => {
+    jest.setTimeout(30000);
+    market = new Market(web3.currentProvider, config);
+    contractAddress = (await market.marketContractRegistry.getAddressWhiteList)[0];
+    deploymentAddress = web3.eth.accounts[0];
+    makerAddress = web3.eth.accounts[7];
+    const deployedMarketContract = await MarketContract.createAndValidate(web3, contractAddress);
+    collateralToken = await ERC20.createAndValidate(
+      web3,
+      await deployedMarketContract.COLLATERAL_TOKEN_ADDRESS
+    );
+    collateralPoolAddress = await deployedMarketContract.MARKET_COLLATERAL_POOL_ADDRESS;
+  });
+
+  beforeEach(async () => {
+    snapshotId = await createEVMSnapshot(web3);
+    await collateralToken.transferTx(makerAddress, initialCredit).send({ from: deploymentAddress });
+    await collateralToken
+      .approveTx(collateralPoolAddress, initialCredit)
+      .send({ from: makerAddress });
+    await market.depositCollateralAsync(contractAddress, initialCredit, { from: makerAddress });
+    orderStateWatcher = new OrderStateWatcher(web3, market, {
+      eventPollingIntervalMs: 100,
+      orderExpirationCheckingIntervalMs: 50,
+      stateLayer: BlockParamLiteral.Latest
+    });
+  });
+
+  afterEach(async () => {
+    try {
+      orderStateWatcher.unsubscribe();
+    } catch (err) {
+      // test did not subscribe.
+    }
+    await restoreEVMSnapshot(web3, snapshotId);
+  });
+
+  it('is exposed from Market', () => {
+    expect(market.orderStateWatcher).toBeInstanceOf(OrderStateWatcher);
+  });
+
+  it('rejects orders with an invalid signature', async () => {
+    const signedOrder = await createSignedOrderAsync(60);
+    const tamperedOrder: SignedOrder = { ...signedOrder, price: price.plus(1) };
+
+    await expect(orderStateWatcher.addOrderAsync(tamperedOrder)).rejects.toThrow(
+      MarketError.InvalidSignature
+    );
+  });
+
+  it('computes a valid state for a funded order', async () => {
+    const signedOrder = await createSignedOrderAsync(60);
+    const orderHash = await orderStateWatcher.addOrderAsync(signedOrder);
+
+    const orderState: OrderState = await orderStateWatcher.getOrderStateAsync(orderHash);
+    expect(orderState.isValid).toBe(true);
+    expect(orderState.orderHash).toEqual(orderHash);
+  });
+
+  it('shares the collateral of a maker between its watched orders', async () => {
+    const neededCollateral = await market.calculateNeededCollateralAsync(
+      contractAddress,
+      orderQty,
+      price
+    );
+    const balance = await market.getUserAccountBalanceAsync(contractAddress, makerAddress);
+    // enough for one and a half orders.
+    await market.withdrawCollateralAsync(
+      contractAddress,
+      balance.minus(neededCollateral.times(1.5)),
+      { from: makerAddress }
+    );
+    const firstOrderHash = await orderStateWatcher.addOrderAsync(await createSignedOrderAsync(60));
+    const secondOrderHash = await orderStateWatcher.addOrderAsync(await createSignedOrderAsync(60));
+
+    expect(
+      (await orderStateWatcher.getOrderStateAsync(firstOrderHash)).remainingFillableQty
+    ).toEqual(orderQty);
+    expect(
+      (await orderStateWatcher.getOrderStateAsync(secondOrderHash)).remainingFillableQty
+    ).toEqual(orderQty.dividedBy(2));
+  });
+
+  it('rejects state requests for orders that are not watched', async () => {
+    const signedOrder = await createSignedOrderAsync(60);
+    const orderHash = await orderStateWatcher.addOrderAsync(signedOrder);
+    orderStateWatcher.removeOrder(orderHash);
+
+    await expect(orderStateWatcher.getOrderStateAsync(orderHash)).rejects.toThrow(
+      MarketError.OrderNotWatched
+    );
+  });
+
+  it('throws when subscribing twice', () => {
+    orderStateWatcher.subscribe(() => undefined);
+    expect(() => orderStateWatcher.subscribe(() => undefined)).toThrow(
+      MarketError.SubscriptionAlreadyPresent
+    );
+  });
+
+  it('throws when unsubscribing without a subscription', () => {
+    expect(() => orderStateWatcher.unsubscribe()).toThrow(MarketError.SubscriptionNotFound);
+  });
+
+  it('emits an invalid state when an order expires', (done: DoneCallback) => {
+    (async () => {
+      const signedOrder = await createSignedOrderAsync(2);
+      const orderHash = await orderStateWatcher.addOrderAsync(signedOrder);
+
+      orderStateWatcher.subscribe((err: Error | null, orderState?: OrderState) => {
+        if (err || !orderState || orderState.isValid) {
+          return;
+        }
+        expect(orderState.orderHash).toEqual(orderHash);
+        expect(orderState.error).toEqual(MarketError.OrderExpired);
+        done();
+      });
+    })().catch(done);
+  });
+
+  it('emits an invalid state when an order is cancelled', (done: DoneCallback) => {
+    (async () => {
+      const signedOrder = await createSignedOrderAsync(60);
+      const orderHash = await orderStateWatcher.addOrderAsync(signedOrder);
+
+      orderStateWatcher.subscribe((err: Error | null, orderState?: OrderState) => {
+        if (err || !orderState || orderState.isValid) {
+          return;
+        }
+        expect(orderState.orderHash).toEqual(orderHash);
+        expect(orderState.error).toEqual(MarketError.OrderFilledOrCancelled);
+        done();
+      });
+
+      // let the watcher record the current block before the cancel is mined.
+      await new Promise(resolve => setTimeout(resolve, 300));
+      await market.cancelOrderAsync(signedOrder, orderQty, { from: makerAddress });
+    })().catch(done);
+  });
+});
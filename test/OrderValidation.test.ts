@@ -331,4 +331,74 @@ describe('Order Validation', async () => {
       expect(e).toEqual(new Error(MarketError.BuySellMismatch));
     }
   });
+
+  it('Reports every failing condition of a trade', async () => {
+    await market.withdrawCollateralAsync(contractAddress, initialCredit, {
+      from: maker
+    });
+    fees = new BigNumber(100);
+    const fillQty = new BigNumber(2);
+    const signedOrder: SignedOrder = await market.createSignedOrderAsync(
+      contractAddress,
+      new BigNumber(Math.floor(Date.now() / 1000) - 60),
+      constants.NULL_ADDRESS,
+      maker,
+      fees,
+      constants.NULL_ADDRESS,
+      fees,
+      orderQty,
+      price,
+      Utils.generatePseudoRandomSalt(),
+      false
+    );
+
+    const report = await market.validateTradeAsync(signedOrder, fillQty, taker);
+    const errors = report.failures.map(failure => failure.error);
+
+    expect(report.isValid).toBe(false);
+    expect(report.orderHash).toEqual(await market.createOrderHashAsync(signedOrder));
+    expect(errors).toContain(MarketError.OrderExpired);
+    expect(errors).toContain(MarketError.InsufficientBalanceForTransfer);
+    expect(errors).toContain(MarketError.InsufficientCollateralBalance);
+
+    const makerCollateralFailure = report.failures.find(
+      failure =>
+        failure.error === MarketError.InsufficientCollateralBalance && failure.account === maker
+    );
+    expect(makerCollateralFailure).toBeDefined();
+    if (!makerCollateralFailure) {
+      return;
+    }
+    expect(makerCollateralFailure.actual).toEqual(new BigNumber(0));
+    expect(makerCollateralFailure.required).toEqual(
+      await market.calculateNeededCollateralAsync(contractAddress, fillQty, price)
+    );
+  });
+
+  it('Reports a valid trade', async () => {
+    fees = new BigNumber(0);
+    await collateralToken.transferTx(taker, initialCredit).send({ from: deploymentAddress });
+    await collateralToken.approveTx(collateralPoolAddress, initialCredit).send({ from: taker });
+    await market.depositCollateralAsync(contractAddress, initialCredit, {
+      from: taker
+    });
+    const signedOrder: SignedOrder = await market.createSignedOrderAsync(
+      contractAddress,
+      new BigNumber(Math.floor(Date.now() / 1000) + 60 * 60),
+      constants.NULL_ADDRESS,
+      maker,
+      fees,
+      constants.NULL_ADDRESS,
+      fees,
+      orderQty,
+      price,
+      Utils.generatePseudoRandomSalt(),
+      false
+    );
+
+    const report = await market.validateTradeAsync(signedOrder, new BigNumber(2), taker);
+
+    expect(report.isValid).toBe(true);
+    expect(report.failures).toEqual([]);
+  });
 });
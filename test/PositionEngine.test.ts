@@ -0,0 +1,256 @@
+import BigNumber from 'bignumber.js';
+import Web3 from 'web3';
+
+// Types
+import { ERC20, MarketContract } from '@marketprotocol/types';
+
+import { Market, Utils } from '../src';
+import { constants } from '../src/constants';
+import {
+  MarketError,
+  MARKETProtocolConfig,
+  OrderFilledEvent,
+  Position,
+  PositionLots
+} from '../src/types';
+
+import { createEVMSnapshot, restoreEVMSnapshot } from './utils';
+
+describe('PositionEngine', () => {
+  const web3 = new Web3(new Web3.providers.HttpProvider('http://localhost:9545'));
+  const config: MARKETProtocolConfig = {
+    networkId: constants.NETWORK_ID_TRUFFLE
+  };
+  const market = new Market(web3.currentProvider, config);
+  const positionEngine = market.positionEngine;
+
+  const position = (price: BigNumber.Value, qty: BigNumber.Value): Position => ({
+    price: new BigNumber(price),
+    qty: new BigNumber(qty),
+    side: new BigNumber(qty).isNegative() ? 'short' : 'long',
+    lockedCollateral: new BigNumber(qty).absoluteValue()
+  });
+
+  it('consolidates positions without losing precision', () => {
+    const consolidatedPositions = positionEngine.consolidatePositions([
+      position('1000000000000000000000000000001', '9007199254740993'),
+      position('1000000000000000000000000000000', '1'),
+      position('1000000000000000000000000000001', '1')
+    ]);
+
+    expect(consolidatedPositions).toEqual([
+      position('1000000000000000000000000000000', '1'),
+      position('1000000000000000000000000000001', '9007199254740994')
+    ]);
+  });
+
+  it('computes the volume-weighted average entry price', () => {
+    expect(positionEngine.getAverageEntryPrice([position(30000, -1), position(40000, -3)])).toEqual(
+      new BigNumber(37500)
+    );
+    expect(positionEngine.getAverageEntryPrice([])).toBeNull();
+  });
+
+  it('closes the oldest lots first', () => {
+    let lots: PositionLots = { openLots: [], closedLots: [] };
+    lots = positionEngine.applyFill(lots, new BigNumber(100), new BigNumber(5), '0x1', 1);
+    lots = positionEngine.applyFill(lots, new BigNumber(110), new BigNumber(3), '0x2', 2);
+    lots = positionEngine.applyFill(lots, new BigNumber(120), new BigNumber(-6), '0x3', 3);
+
+    expect(lots.closedLots.map(lot => [lot.entryPrice, lot.qty])).toEqual([
+      [new BigNumber(100), new BigNumber(5)],
+      [new BigNumber(110), new BigNumber(1)]
+    ]);
+    expect(lots.openLots.map(lot => [lot.price, lot.qty])).toEqual([
+      [new BigNumber(110), new BigNumber(2)]
+    ]);
+
+    lots = positionEngine.applyFill(lots, new BigNumber(90), new BigNumber(-4), '0x4', 4);
+    expect(lots.openLots.map(lot => [lot.price, lot.qty])).toEqual([
+      [new BigNumber(90), new BigNumber(-2)]
+    ]);
+  });
+
+  it('rebuilds the lots of makers and takers from fills', () => {
+    const maker = '0x1111111111111111111111111111111111111111';
+    const taker = '0x2222222222222222222222222222222222222222';
+    const fill = (filledQty: number, price: number): OrderFilledEvent => ({
+      maker,
+      taker,
+      feeRecipient: constants.NULL_ADDRESS,
+      filledQty: new BigNumber(filledQty),
+      paidMakerFee: new BigNumber(0),
+      paidTakerFee: new BigNumber(0),
+      price: new BigNumber(price),
+      orderHash: '0x0',
+      txHash: `0x${price}`,
+      blockNumber: 1
+    });
+    const fills = [fill(4, 30000), fill(-1, 35000)];
+
+    expect(positionEngine.getLotsFromFills(fills, maker).openLots.map(lot => lot.qty)).toEqual([
+      new BigNumber(3)
+    ]);
+    expect(positionEngine.getLotsFromFills(fills, taker).openLots.map(lot => lot.qty)).toEqual([
+      new BigNumber(-3)
+    ]);
+  });
+
+  describe('with positions', () => {
+    const initialCredit: BigNumber = new BigNumber(1e23);
+    let contractAddress: string;
+    let maker: string;
+    let taker: string;
+    let snapshotId: string;
+
+    const createSignedOrderAsync = async (orderQty: number, price: number) => {
+      return market.createSignedOrderAsync(
+        contractAddress,
+        Utils.getCurrentUnixTimestampSec()
+          .plus(60 * 60)
+          .integerValue(BigNumber.ROUND_FLOOR),
+        constants.NULL_ADDRESS,
+        maker,
+        new BigNumber(0),
+        constants.NULL_ADDRESS,
+        new BigNumber(0),
+        new BigNumber(orderQty),
+        new BigNumber(price),
+        Utils.generatePseudoRandomSalt(),
+        false
+      );
+    };
+
+    beforeAll(async () => {
+      jest.setTimeout(30000);
+      contractAddress = (await market.marketContractRegistry.getAddressWhiteList)[0];
+      maker = web3.eth.accounts[3];
+      taker = web3.eth.accounts[4];
+      const deployedMarketContract = await MarketContract.createAndValidate(web3, contractAddress);
+      const collateralToken = await ERC20.createAndValidate(
+        web3,
+        await deployedMarketContract.COLLATERAL_TOKEN_ADDRESS
+      );
+      const collateralPoolAddress = await deployedMarketContract.MARKET_COLLATERAL_POOL_ADDRESS;
+
+      snapshotId = await createEVMSnapshot(web3);
+      for (const account of [maker, taker]) {
+        await collateralToken
+          .transferTx(account, initialCredit)
+          .send({ from: web3.eth.accounts[0] });
+        await collateralToken
+          .approveTx(collateralPoolAddress, initialCredit)
+          .send({ from: account });
+        await market.depositCollateralAsync(contractAddress, initialCredit, { from: account });
+      }
+      const signedOrder = await createSignedOrderAsync(10, 40000);
+      await market.tradeOrderAsync(signedOrder, new BigNumber(2), { from: taker, gas: 400000 });
+      await market.tradeOrderAsync(signedOrder, new BigNumber(3), { from: taker, gas: 400000 });
+    });
+
+    afterAll(async () => {
+      await restoreEVMSnapshot(web3, snapshotId);
+    });
+
+    it('returns typed positions with their locked collateral', async () => {
+      const metaData = await market.getContractMetaDataAsync(contractAddress);
+      const positions = await positionEngine.getPositionsAsync(contractAddress, maker, true);
+
+      expect(positions).toEqual([
+        {
+          price: new BigNumber(40000),
+          qty: new BigNumber(5),
+          side: 'long',
+          lockedCollateral: Utils.calculateNeededCollateral(
+            metaData.priceFloor,
+            metaData.priceCap,
+            metaData.qtyMultiplier,
+            new BigNumber(5),
+            new BigNumber(40000)
+          )
+        }
+      ]);
+    });
+
+    it('returns no positions for a user without any', async () => {
+      expect(await positionEngine.getPositionsAsync(contractAddress, web3.eth.accounts[7])).toEqual(
+        []
+      );
+    });
+
+    it('sums the holdings of a user per collateral token', async () => {
+      const portfolio = await market.getPortfolioAsync(maker, [contractAddress]);
+      const positions = await positionEngine.getPositionsAsync(contractAddress, maker);
+
+      expect(portfolio.contracts).toHaveLength(1);
+      expect(portfolio.contracts[0].netPosition).toEqual(new BigNumber(5));
+      expect(portfolio.contracts[0].lockedCollateral).toEqual(
+        positions[0].lockedCollateral.plus(positions[1].lockedCollateral)
+      );
+      expect(portfolio.contracts[0].freeCollateral).toEqual(
+        initialCredit.minus(portfolio.contracts[0].lockedCollateral)
+      );
+      expect(portfolio.totals).toEqual([
+        {
+          collateralTokenAddress: portfolio.contracts[0].collateralTokenAddress,
+          freeCollateral: portfolio.contracts[0].freeCollateral,
+          lockedCollateral: portfolio.contracts[0].lockedCollateral,
+          totalPnL: portfolio.contracts[0].pnl.totalPnL
+        }
+      ]);
+    });
+
+    it('defaults the portfolio to every whitelisted contract', async () => {
+      const portfolio = await market.getPortfolioAsync(maker);
+
+      expect(portfolio.contracts.map(contract => contract.marketContractAddress)).toEqual(
+        await market.getAddressWhiteListAsync()
+      );
+    });
+
+    it('rejects estimating the payout of an unsettled contract without a price', async () => {
+      await expect(market.estimateSettlementPayoutAsync(contractAddress, maker)).rejects.toThrow(
+        MarketError.ContractNotSettled
+      );
+    });
+
+    it('estimates the settlement payout at a hypothetical price clamped to the cap', async () => {
+      const metaData = await market.getContractMetaDataAsync(contractAddress);
+      const payout = await market.estimateSettlementPayoutAsync(
+        contractAddress,
+        maker,
+        new BigNumber(metaData.priceCap).times(2)
+      );
+
+      expect(payout.settlementPrice).toEqual(new BigNumber(metaData.priceCap));
+      expect(payout.isHypotheticalPrice).toBe(true);
+      expect(payout.positionPayout).toEqual(
+        new BigNumber(metaData.priceCap)
+          .minus(metaData.priceFloor)
+          .times(5)
+          .times(metaData.qtyMultiplier)
+      );
+      expect(payout.totalPayout).toEqual(payout.freeCollateral.plus(payout.positionPayout));
+    });
+
+    it('realizes the PnL of the closed lots and marks the open lots to the last price', async () => {
+      await market.tradeOrderAsync(await createSignedOrderAsync(-2, 45000), new BigNumber(-2), {
+        from: taker,
+        gas: 400000
+      });
+      const metaData = await market.getContractMetaDataAsync(contractAddress);
+      const pnl = await market.getPnLAsync(contractAddress, maker);
+
+      expect(pnl.netPosition).toEqual(new BigNumber(3));
+      expect(pnl.realizedPnL).toEqual(new BigNumber(5000 * 2).times(metaData.qtyMultiplier));
+      expect(pnl.unrealizedPnL).toEqual(
+        new BigNumber(metaData.lastPrice)
+          .minus(40000)
+          .times(3)
+          .times(metaData.qtyMultiplier)
+      );
+      expect(pnl.settlementPnL).toBeNull();
+      expect(pnl.totalPnL).toEqual(pnl.realizedPnL.plus(pnl.unrealizedPnL));
+    });
+  });
+});
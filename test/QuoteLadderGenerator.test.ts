@@ -0,0 +1,136 @@
+import BigNumber from 'bignumber.js';
+import Web3 from 'web3';
+
+import { Market, Utils } from '../src';
+import { constants } from '../src/constants';
+import {
+  ContractMetaData,
+  MARKETProtocolConfig,
+  OrderCancellationStatus,
+  QuoteLadderParams
+} from '../src/types';
+
+import { createEVMSnapshot, restoreEVMSnapshot } from './utils';
+
+describe('QuoteLadderGenerator', () => {
+  const web3 = new Web3(new Web3.providers.HttpProvider('http://localhost:9545'));
+  const config: MARKETProtocolConfig = {
+    networkId: constants.NETWORK_ID_TRUFFLE
+  };
+  const market = new Market(web3.currentProvider, config);
+  const quoteLadderGenerator = market.quoteLadderGenerator;
+
+  it('prices levels away from the mid, rounded to whole price units', () => {
+    const params: QuoteLadderParams = {
+      maker: constants.NULL_ADDRESS,
+      midPrice: new BigNumber(40000),
+      spread: new BigNumber(5),
+      step: new BigNumber(10),
+      levels: 3,
+      qtyPerLevel: new BigNumber(1)
+    };
+
+    expect(quoteLadderGenerator.getLevelPrices(params, true)).toEqual(
+      [39997, 39987, 39977].map(price => new BigNumber(price))
+    );
+    expect(quoteLadderGenerator.getLevelPrices(params, false)).toEqual(
+      [40003, 40013, 40023].map(price => new BigNumber(price))
+    );
+  });
+
+  it('rejects a step that would round levels to the same price', async () => {
+    await expect(
+      quoteLadderGenerator.createLadderAsync(constants.NULL_ADDRESS, {
+        maker: constants.NULL_ADDRESS,
+        midPrice: new BigNumber(40000),
+        spread: new BigNumber(5),
+        step: new BigNumber(0.5),
+        levels: 3,
+        qtyPerLevel: new BigNumber(1)
+      })
+    ).rejects.toThrow('step must be a positive whole number of price units, got 0.5');
+  });
+
+  describe('with a contract', () => {
+    let contractAddress: string;
+    let metaData: ContractMetaData;
+    let params: QuoteLadderParams;
+    let snapshotId: string;
+
+    beforeAll(async () => {
+      jest.setTimeout(60000);
+      contractAddress = (await market.marketContractRegistry.getAddressWhiteList)[0];
+      metaData = await market.getContractMetaDataAsync(contractAddress);
+      const priceFloor = new BigNumber(metaData.priceFloor);
+      const priceCap = new BigNumber(metaData.priceCap);
+      params = {
+        maker: web3.eth.accounts[1],
+        // close to the cap, so that the outer ask levels fall outside of the range.
+        midPrice: priceCap.minus(priceCap.minus(priceFloor).dividedToIntegerBy(10)),
+        spread: new BigNumber(2),
+        step: priceCap.minus(priceFloor).dividedToIntegerBy(8),
+        levels: 3,
+        qtyPerLevel: new BigNumber(2)
+      };
+      snapshotId = await createEVMSnapshot(web3);
+    });
+
+    afterAll(async () => {
+      await restoreEVMSnapshot(web3, snapshotId);
+    });
+
+    it('signs the levels within the price range and sums their collateral', async () => {
+      const ladder = await quoteLadderGenerator.createLadderAsync(contractAddress, params);
+
+      expect(ladder.bids.map(order => order.price)).toEqual(
+        quoteLadderGenerator.getLevelPrices(params, true)
+      );
+      expect(ladder.asks.map(order => order.price)).toEqual(
+        quoteLadderGenerator.getLevelPrices(params, false).slice(0, 1)
+      );
+      expect(ladder.neededCollateral).toEqual(
+        [...ladder.bids, ...ladder.asks].reduce(
+          (sum, order) =>
+            sum.plus(
+              Utils.calculateNeededCollateral(
+                new BigNumber(metaData.priceFloor),
+                new BigNumber(metaData.priceCap),
+                new BigNumber(metaData.qtyMultiplier),
+                order.orderQty,
+                order.price
+              )
+            ),
+          new BigNumber(0)
+        )
+      );
+    });
+
+    it('cancels and replaces the quotes when the mid moves', async () => {
+      const ladder = await quoteLadderGenerator.createLadderAsync(contractAddress, params);
+
+      const unchanged = await quoteLadderGenerator.requoteAsync(
+        ladder,
+        params.midPrice.minus(1),
+        new BigNumber(1)
+      );
+      expect(unchanged.ladder).toBe(ladder);
+      expect(unchanged.cancellations).toEqual([]);
+
+      const newMidPrice = params.midPrice.minus(params.step);
+      const requote = await quoteLadderGenerator.requoteAsync(ladder, newMidPrice);
+      const quotes = [...ladder.bids, ...ladder.asks];
+      expect(requote.cancellations.map(cancellation => cancellation.status)).toEqual(
+        quotes.map(() => OrderCancellationStatus.Submitted)
+      );
+      expect(
+        await Promise.all(
+          requote.cancellations.map(
+            cancellation => cancellation.orderTransactionInfo!.cancelledQtyAsync
+          )
+        )
+      ).toEqual(quotes.map(quote => quote.orderQty));
+      expect(requote.ladder.params.midPrice).toEqual(newMidPrice);
+      expect(requote.ladder.asks.length).toBeGreaterThan(ladder.asks.length);
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import BigNumber from 'bignumber.js';
+import Web3 from 'web3';
+
+// Types
+import { SignedOrder } from '@marketprotocol/types';
+
+import { Market, RelayerClient, Utils } from '../src';
+import { ReferenceRelayerServer } from '../src/node';
+import { constants } from '../src/constants';
+import { MarketError, MARKETProtocolConfig } from '../src/types';
+
+describe('Relayer', () => {
+  const web3 = new Web3(new Web3.providers.HttpProvider('http://localhost:9545'));
+  const config: MARKETProtocolConfig = {
+    networkId: constants.NETWORK_ID_TRUFFLE
+  };
+  const market = new Market(web3.currentProvider, config);
+  const server = new ReferenceRelayerServer(market);
+  let client: RelayerClient;
+  let contractAddress: string;
+
+  const createSignedOrderAsync = async (orderQty: number, price: number): Promise<SignedOrder> => {
+    return market.createSignedOrderAsync(
+      contractAddress,
+      Utils.getCurrentUnixTimestampSec()
+        .plus(60 * 60)
+        .integerValue(BigNumber.ROUND_FLOOR),
+      constants.NULL_ADDRESS,
+      web3.eth.accounts[1],
+      new BigNumber(0),
+      constants.NULL_ADDRESS,
+      new BigNumber(0),
+      new BigNumber(orderQty),
+      new BigNumber(price),
+      Utils.generatePseudoRandomSalt(),
+      false
+    );
+  };
+
+  beforeAll(async () => {
+    jest.setTimeout(30000);
+    contractAddress = (await market.marketContractRegistry.getAddressWhiteList)[0];
+    client = new RelayerClient(await server.startAsync());
+  });
+
+  afterAll(async () => {
+    await server.stopAsync();
+  });
+
+  it('publishes orders and serves them by book and by hash', async () => {
+    const bid = await createSignedOrderAsync(2, 40000);
+    const ask = await createSignedOrderAsync(-3, 45000);
+    const bidHash = await client.postOrderAsync(bid);
+    await client.postOrderAsync(ask);
+
+    expect(bidHash).toEqual(await market.createOrderHashAsync(bid));
+    const orderBook = await client.getOrderBookAsync(contractAddress);
+    expect(orderBook.bids).toEqual([bid]);
+    expect(orderBook.asks).toEqual([ask]);
+    expect(await client.getOrderAsync(bidHash)).toEqual(bid);
+  });
+
+  it('returns null for orders it does not hold', async () => {
+    expect(await client.getOrderAsync(`0x${'00'.repeat(32)}`)).toBeNull();
+  });
+
+  it('lists its fee recipients', async () => {
+    expect(await client.getFeeRecipientsAsync()).toEqual([constants.NULL_ADDRESS]);
+  });
+
+  it('rejects orders that fail validation', async () => {
+    const signedOrder = await createSignedOrderAsync(1, 40000);
+
+    await expect(
+      client.postOrderAsync({ ...signedOrder, price: new BigNumber(41000) })
+    ).rejects.toThrow(MarketError.InvalidSignature);
+  });
+});
@@ -4,7 +4,7 @@ import BigNumber from 'bignumber.js';
 import { ERC20, MarketContract, SignedOrder } from '@marketprotocol/types';
 
 import { MarketError, MARKETProtocolConfig } from '../src/types';
-import { Market, Utils } from '../src';
+import { BatchRemainingFillableCalculator, Market, Utils } from '../src';
 import { constants } from '../src/constants';
 
 import { createEVMSnapshot, restoreEVMSnapshot } from './utils';
@@ -68,6 +68,12 @@ describe('Remaining Fillable Calculator', async () => {
     });
   });
 
+  const depositCollateralAsync = async (account: string, amount: BigNumber) => {
+    await collateralToken.transferTx(account, amount).send({ from: deploymentAddress });
+    await collateralToken.approveTx(collateralPoolAddress, amount).send({ from: account });
+    await market.depositCollateralAsync(contractAddress, amount, { from: account });
+  };
+
   afterEach(async () => {
     await restoreEVMSnapshot(web3, snapshotId);
   });
@@ -94,13 +100,7 @@ describe('Remaining Fillable Calculator', async () => {
 
     const orderHash = await market.createOrderHashAsync(signedOrder);
 
-    const calc = new RemainingFillableCalculator(
-      market,
-      collateralPoolAddress,
-      collateralTokenAddress,
-      signedOrder,
-      orderHash
-    );
+    const calc = new RemainingFillableCalculator(market, signedOrder, orderHash);
 
     let neededCollateral = await market.calculateNeededCollateralAsync(
       contractAddress,
@@ -201,13 +201,7 @@ describe('Remaining Fillable Calculator', async () => {
 
     const orderHash = await market.createOrderHashAsync(signedOrder);
 
-    const calc = new RemainingFillableCalculator(
-      market,
-      collateralPoolAddress,
-      collateralTokenAddress,
-      signedOrder,
-      orderHash
-    );
+    const calc = new RemainingFillableCalculator(market, signedOrder, orderHash);
 
     let neededCollateral = await market.calculateNeededCollateralAsync(
       contractAddress,
@@ -216,7 +210,7 @@ describe('Remaining Fillable Calculator', async () => {
     );
 
     await market.marketContractWrapper.setAllowanceAsync(
-      collateralTokenAddress,
+      market.mktTokenContract.address,
       deploymentAddress,
       neededCollateral.plus(makerFee),
       { from: makerAddress }
@@ -251,13 +245,7 @@ describe('Remaining Fillable Calculator', async () => {
 
     const orderHash = await market.createOrderHashAsync(signedOrder);
 
-    const calc = new RemainingFillableCalculator(
-      market,
-      collateralPoolAddress,
-      collateralTokenAddress,
-      signedOrder,
-      orderHash
-    );
+    const calc = new RemainingFillableCalculator(market, signedOrder, orderHash);
 
     let neededCollateral = await market.calculateNeededCollateralAsync(
       contractAddress,
@@ -266,7 +254,7 @@ describe('Remaining Fillable Calculator', async () => {
     );
 
     await market.marketContractWrapper.setAllowanceAsync(
-      collateralTokenAddress,
+      market.mktTokenContract.address,
       deploymentAddress,
       neededCollateral.plus(takerFee),
       { from: takerAddress }
@@ -303,17 +291,85 @@ describe('Remaining Fillable Calculator', async () => {
 
     const orderHash = await market.createOrderHashAsync(signedOrder);
 
-    const calc = new RemainingFillableCalculator(
-      market,
-      collateralPoolAddress,
-      collateralTokenAddress,
-      signedOrder,
-      orderHash
-    );
+    const calc = new RemainingFillableCalculator(market, signedOrder, orderHash);
 
     makerFillable = await calc.computeRemainingMakerFillable();
     takerFillable = await calc.computeRemainingTakerFillable();
 
     expect(makerFillable.isEqualTo(takerFillable));
   });
+
+  it('Checks the taker fillable against the collateral of the opposite side', async () => {
+    const takerWithLittleCollateral = web3.eth.accounts[7];
+    const signedOrder: SignedOrder = await market.createSignedOrderAsync(
+      contractAddress,
+      new BigNumber(Math.floor(Date.now() / 1000) + 60 * 60),
+      constants.NULL_ADDRESS,
+      makerAddress,
+      new BigNumber(0),
+      constants.NULL_ADDRESS,
+      new BigNumber(0),
+      orderQty.negated(),
+      price,
+      Utils.generatePseudoRandomSalt(),
+      false
+    );
+    const orderHash = await market.createOrderHashAsync(signedOrder);
+    const calc = new RemainingFillableCalculator(market, signedOrder, orderHash);
+
+    // the taker of a sell order buys, enough for 2 contracts long.
+    await depositCollateralAsync(
+      takerWithLittleCollateral,
+      await market.calculateNeededCollateralAsync(contractAddress, new BigNumber(2), price)
+    );
+
+    expect(await calc.computeRemainingMakerFillable()).toEqual(orderQty.negated());
+    expect(await calc.computeRemainingTakerFillable(takerWithLittleCollateral)).toEqual(
+      new BigNumber(-2)
+    );
+  });
+
+  it('Shares the collateral of a maker across their orders in batch mode', async () => {
+    const makerWithLittleCollateral = web3.eth.accounts[8];
+    await depositCollateralAsync(
+      makerWithLittleCollateral,
+      await market.calculateNeededCollateralAsync(contractAddress, new BigNumber(4), price)
+    );
+    const signedOrders: SignedOrder[] = [];
+    for (let i = 0; i < 2; i++) {
+      signedOrders.push(
+        await market.createSignedOrderAsync(
+          contractAddress,
+          new BigNumber(Math.floor(Date.now() / 1000) + 60 * 60),
+          constants.NULL_ADDRESS,
+          makerWithLittleCollateral,
+          new BigNumber(0),
+          constants.NULL_ADDRESS,
+          new BigNumber(0),
+          orderQty,
+          price,
+          Utils.generatePseudoRandomSalt(),
+          false
+        )
+      );
+    }
+    const orderHashes: string[] = [];
+    for (const signedOrder of signedOrders) {
+      orderHashes.push(await market.createOrderHashAsync(signedOrder));
+    }
+
+    const batchCalc = new BatchRemainingFillableCalculator(market);
+
+    expect(
+      await new RemainingFillableCalculator(
+        market,
+        signedOrders[1],
+        orderHashes[1]
+      ).computeRemainingMakerFillable()
+    ).toEqual(orderQty);
+    expect(await batchCalc.computeRemainingMakerFillablesAsync(signedOrders, orderHashes)).toEqual([
+      orderQty,
+      new BigNumber(1)
+    ]);
+  });
 });
@@ -0,0 +1,67 @@
+import BigNumber from 'bignumber.js';
+import Web3 from 'web3';
+
+import { Market } from '../src';
+import { constants } from '../src/constants';
+import { MARKETProtocolConfig, Position } from '../src/types';
+
+describe('ScenarioAnalyzer', () => {
+  const web3 = new Web3(new Web3.providers.HttpProvider('http://localhost:9545'));
+  const config: MARKETProtocolConfig = {
+    networkId: constants.NETWORK_ID_TRUFFLE
+  };
+  const market = new Market(web3.currentProvider, config);
+  const scenarioAnalyzer = market.scenarioAnalyzer;
+
+  const longPosition: Position = {
+    price: new BigNumber(40),
+    qty: new BigNumber(2),
+    side: 'long',
+    lockedCollateral: new BigNumber(80)
+  };
+
+  it('values positions from the price floor to the price cap', () => {
+    const pnlCurve = scenarioAnalyzer.getPnLCurve(
+      [longPosition],
+      new BigNumber(0),
+      new BigNumber(100),
+      new BigNumber(1),
+      4
+    );
+
+    expect(pnlCurve.map(point => [point.price.toNumber(), point.pnl.toNumber()])).toEqual([
+      [0, -80],
+      [25, -30],
+      [50, 20],
+      [75, 70],
+      [100, 120]
+    ]);
+    expect(scenarioAnalyzer.getBreakEvenPrices(pnlCurve)).toEqual([new BigNumber(40)]);
+  });
+
+  it('finds no break-even price for a flat curve', () => {
+    const pnlCurve = scenarioAnalyzer.getPnLCurve(
+      [],
+      new BigNumber(0),
+      new BigNumber(100),
+      new BigNumber(1)
+    );
+
+    expect(scenarioAnalyzer.getBreakEvenPrices(pnlCurve)).toEqual([]);
+  });
+
+  it('reports a zero worst case for a user without positions', async () => {
+    jest.setTimeout(30000);
+    const contractAddress = (await market.marketContractRegistry.getAddressWhiteList)[0];
+    const report = await scenarioAnalyzer.analyzeAsync(web3.eth.accounts[7], [contractAddress], 5);
+
+    expect(report.contracts[0].pnlCurve).toHaveLength(6);
+    expect(report.contracts[0].worstCase.pnl).toEqual(new BigNumber(0));
+    expect(report.totals).toEqual([
+      {
+        collateralTokenAddress: report.contracts[0].collateralTokenAddress,
+        worstCasePnL: new BigNumber(0)
+      }
+    ]);
+  });
+});
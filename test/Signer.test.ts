@@ -0,0 +1,100 @@
+import BigNumber from 'bignumber.js';
+import Web3 from 'web3';
+
+// Types
+import { SignedOrder } from '@marketprotocol/types';
+
+import { Market, ProviderSigner, TestSigner, Utils } from '../src';
+import { constants } from '../src/constants';
+import { createEIP712OrderTypedData, createOrderHash } from '../src/lib/Order';
+import { MarketError, MARKETProtocolConfig, SignatureScheme } from '../src/types';
+
+describe('Signer', () => {
+  const web3 = new Web3(new Web3.providers.HttpProvider('http://localhost:9545'));
+  const config: MARKETProtocolConfig = {
+    networkId: constants.NETWORK_ID_TRUFFLE
+  };
+  let contractAddress: string;
+
+  const createSignedOrderAsync = async (
+    market: Market,
+    maker: string,
+    signatureScheme: SignatureScheme = SignatureScheme.EthSign
+  ): Promise<SignedOrder> => {
+    return market.createSignedOrderAsync(
+      contractAddress,
+      new BigNumber(Math.floor(Date.now() / 1000) + 60 * 60),
+      constants.NULL_ADDRESS,
+      maker,
+      new BigNumber(0),
+      constants.NULL_ADDRESS,
+      new BigNumber(0),
+      new BigNumber(10),
+      new BigNumber(40000),
+      Utils.generatePseudoRandomSalt(),
+      false,
+      signatureScheme
+    );
+  };
+
+  beforeAll(async () => {
+    jest.setTimeout(30000);
+    const market = new Market(web3.currentProvider, config);
+    contractAddress = (await market.marketContractRegistry.getAddressWhiteList)[0];
+  });
+
+  it('signs orders with a private key that OrderLib accepts', async () => {
+    const signer = new TestSigner();
+    const market = new Market(web3.currentProvider, { ...config, signer });
+    const maker = await signer.getAddressAsync();
+    const signedOrder = await createSignedOrderAsync(market, maker);
+    const orderHash = await market.createOrderHashAsync(signedOrder);
+
+    expect(signer.signedMessages).toEqual([orderHash]);
+    expect(await market.isValidSignatureAsync(signedOrder, orderHash)).toBe(true);
+  });
+
+  it('signs the EIP712 typed data of orders', async () => {
+    const signer = new TestSigner();
+    const market = new Market(web3.currentProvider, { ...config, signer });
+    const signedOrder = await createSignedOrderAsync(
+      market,
+      await signer.getAddressAsync(),
+      SignatureScheme.EIP712
+    );
+
+    expect(signer.signedTypedData).toEqual([
+      createEIP712OrderTypedData(signedOrder, config.networkId)
+    ]);
+    expect(await market.isValidSignatureAsync(signedOrder, createOrderHash(signedOrder))).toBe(
+      true
+    );
+  });
+
+  it('rejects signing for another account than the signer', async () => {
+    const market = new Market(web3.currentProvider, { ...config, signer: new TestSigner() });
+
+    await expect(createSignedOrderAsync(market, web3.eth.accounts[1])).rejects.toThrow(
+      MarketError.SignerAddressMismatch
+    );
+  });
+
+  it('rejects with the error of the signer', async () => {
+    const signer = new TestSigner();
+    signer.error = new Error('User denied message signature');
+    const market = new Market(web3.currentProvider, { ...config, signer });
+
+    await expect(createSignedOrderAsync(market, await signer.getAddressAsync())).rejects.toThrow(
+      'User denied message signature'
+    );
+  });
+
+  it('rejects when the provider can not sign for the account', async () => {
+    const signer = new ProviderSigner(
+      web3.currentProvider,
+      await new TestSigner().getAddressAsync()
+    );
+
+    await expect(signer.signMessageAsync(`0x${'11'.repeat(32)}`)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,209 @@
+import { BigNumber } from 'bignumber.js';
+import Web3 from 'web3';
+// Types
+import { MarketContract, promisify } from '@marketprotocol/types';
+
+import { FixedGasPriceStrategy, Market, PercentileGasPriceStrategy } from '../src';
+import { constants } from '../src/constants';
+
+import {
+  MarketError,
+  MARKETProtocolConfig,
+  TransactionEvent,
+  TransactionStatus
+} from '../src/types';
+import { createEVMSnapshot, restoreEVMSnapshot } from './utils';
+
+/**
+ * TransactionManager
+ */
+describe('TransactionManager', () => {
+  const web3 = new Web3(new Web3.providers.HttpProvider('http://localhost:9545'));
+  const config: MARKETProtocolConfig = {
+    networkId: constants.NETWORK_ID_TRUFFLE
+  };
+  let sender: string;
+  let collateralPoolAddress: string;
+  let collateralTokenAddress: string;
+  let market: Market;
+  let snapshotId: string;
+
+  const approveAsync = (approvingMarket: Market, amount: number): Promise<string> =>
+    approvingMarket.marketContractWrapper.setAllowanceAsync(
+      collateralTokenAddress,
+      collateralPoolAddress,
+      new BigNumber(amount),
+      { from: sender }
+    );
+
+  const getTransactionAsync = (txHash: string): Promise<Web3.Transaction> =>
+    promisify(web3.eth.getTransaction, [txHash]);
+
+  const getTransactionCountAsync = async (): Promise<number> =>
+    Number(await promisify(web3.eth.getTransactionCount, [sender, 'pending']));
+
+  beforeAll(async () => {
+    sender = web3.eth.accounts[5];
+    market = new Market(web3.currentProvider, config);
+    const marketContractAddress = (await market.marketContractRegistry.getAddressWhiteList)[0];
+    const deployedMarketContract = await MarketContract.createAndValidate(
+      web3,
+      marketContractAddress
+    );
+    collateralPoolAddress = await deployedMarketContract.MARKET_COLLATERAL_POOL_ADDRESS;
+    collateralTokenAddress = await deployedMarketContract.COLLATERAL_TOKEN_ADDRESS;
+  });
+
+  beforeEach(async () => {
+    snapshotId = await createEVMSnapshot(web3);
+  });
+
+  afterEach(async () => {
+    await restoreEVMSnapshot(web3, snapshotId);
+  });
+
+  it('sends concurrent transactions with consecutive nonces', async () => {
+    const firstNonce = await getTransactionCountAsync();
+
+    const txHashes = await Promise.all([1, 2, 3].map(amount => approveAsync(market, amount)));
+
+    const transactions = await Promise.all(txHashes.map(getTransactionAsync));
+    expect(transactions.map(transaction => transaction.nonce)).toEqual([
+      firstNonce,
+      firstNonce + 1,
+      firstNonce + 2
+    ]);
+  });
+
+  it('reads the nonce from the node again when it was reverted', async () => {
+    const revertSnapshotId = await createEVMSnapshot(web3);
+    const nonce = await getTransactionCountAsync();
+    await approveAsync(market, 1);
+    await restoreEVMSnapshot(web3, revertSnapshotId);
+
+    const txHash = await approveAsync(market, 2);
+
+    expect((await getTransactionAsync(txHash)).nonce).toEqual(nonce);
+  });
+
+  it('sends transactions with the gas price of the strategy', async () => {
+    const gasPrice = new BigNumber(await promisify(web3.eth.getGasPrice, [])).times(2);
+    const strategyMarket = new Market(web3.currentProvider, {
+      ...config,
+      transactionManagerConfig: { gasPriceStrategy: new FixedGasPriceStrategy(gasPrice) }
+    });
+
+    const txHash = await approveAsync(strategyMarket, 1);
+
+    expect((await getTransactionAsync(txHash)).gasPrice.toString()).toEqual(gasPrice.toString());
+    // the latest block only holds this transaction
+    expect(
+      (await new PercentileGasPriceStrategy(100, 1).getGasPriceAsync(web3)).toString()
+    ).toEqual(gasPrice.toString());
+  });
+
+  it('emits the status changes of the transactions it sends', async () => {
+    const transactionEvents: TransactionEvent[] = [];
+    let txHash = '';
+    const mined = new Promise<void>((resolve, reject) => {
+      market.transactionManager.subscribe((err, transactionEvent) => {
+        if (err) {
+          return reject(err);
+        }
+        transactionEvents.push(transactionEvent!);
+        if (
+          transactionEvent!.txHash === txHash &&
+          transactionEvent!.status === TransactionStatus.Mined
+        ) {
+          resolve();
+        }
+      });
+    });
+
+    try {
+      txHash = await approveAsync(market, 1);
+      await mined;
+
+      const statuses = transactionEvents
+        .filter(transactionEvent => transactionEvent.txHash === txHash)
+        .map(transactionEvent => transactionEvent.status);
+      expect(statuses).toEqual([TransactionStatus.Pending, TransactionStatus.Mined]);
+    } finally {
+      market.transactionManager.unsubscribe();
+    }
+  });
+
+  it('rejects speeding up transactions that are mined or were not sent through it', async () => {
+    const txHash = await approveAsync(market, 1);
+    await market.transactionManager.getTransactionInfo(txHash)!.receiptAsync;
+
+    await expect(market.transactionManager.speedUpAsync(txHash)).rejects.toThrow(
+      MarketError.TransactionNotPending
+    );
+    expect(market.transactionManager.getTransactionInfo(txHash)).toBeUndefined();
+    await expect(market.transactionManager.cancelAsync('0x1234')).rejects.toThrow(
+      MarketError.TransactionNotManaged
+    );
+  });
+
+  it('throws when subscribing twice', () => {
+    market.transactionManager.subscribe(() => null);
+
+    expect(() => market.transactionManager.subscribe(() => null)).toThrow(
+      MarketError.SubscriptionAlreadyPresent
+    );
+    market.transactionManager.unsubscribe();
+    expect(() => market.transactionManager.unsubscribe()).toThrow(MarketError.SubscriptionNotFound);
+  });
+
+  describe('estimates and simulations', () => {
+    let marketContractAddress: string;
+    let depositor: string;
+
+    beforeAll(async () => {
+      marketContractAddress = (await market.marketContractRegistry.getAddressWhiteList)[0];
+      depositor = web3.eth.accounts[0];
+    });
+
+    it('estimates the gas and fee of a deposit', async () => {
+      await market.marketContractWrapper.setAllowanceAsync(
+        collateralTokenAddress,
+        collateralPoolAddress,
+        new BigNumber(10),
+        { from: depositor }
+      );
+      const gasPrice = new BigNumber(3);
+
+      const gasEstimate = await market.estimateDepositCollateralAsync(marketContractAddress, 10, {
+        from: depositor,
+        gasPrice
+      });
+
+      expect(gasEstimate.gas).toBeGreaterThan(21000);
+      expect(gasEstimate.gasPrice).toEqual(gasPrice);
+      expect(gasEstimate.fee).toEqual(gasPrice.times(gasEstimate.gas));
+
+      const simulation = await market.simulateDepositCollateralAsync(marketContractAddress, 10, {
+        from: depositor,
+        gasPrice
+      });
+      expect(simulation).toEqual({ success: true, gasEstimate });
+    });
+
+    it('reports a withdrawal above the balance as reverting', async () => {
+      const simulation = await market.simulateWithdrawCollateralAsync(
+        marketContractAddress,
+        new BigNumber(1e30),
+        { from: sender }
+      );
+
+      expect(simulation.success).toBe(false);
+      expect(simulation.gasEstimate).toBeUndefined();
+      await expect(
+        market.estimateWithdrawCollateralAsync(marketContractAddress, new BigNumber(1e30), {
+          from: sender
+        })
+      ).rejects.toThrow();
+    });
+  });
+});